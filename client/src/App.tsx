@@ -17,12 +17,18 @@ import ClientDoctors from "@/pages/client/doctors";
 import DoctorDetails from "@/pages/client/doctor-details";
 import ClientRepresentatives from "@/pages/client/representatives";
 import ClientAnalytics from "@/pages/client/analytics";
+import ClientReviewers from "@/pages/client/reviewers";
+import ClientQuestionBank from "@/pages/client/question-bank";
 
 // Rep Pages
 import RepDashboard from "@/pages/rep/dashboard";
 import RepDoctors from "@/pages/rep/doctors";
 import RepOnboarding from "@/pages/rep/onboarding";
 
+// Reviewer Pages
+import ReviewerDashboard from "@/pages/reviewer/dashboard";
+import ReviewerSurveyReview from "@/pages/reviewer/survey-review";
+
 // Doctor Pages
 import DoctorDashboard from "@/pages/doctor/dashboard";
 import DoctorAvailableSurveys from "@/pages/doctor/available-surveys";
@@ -33,6 +39,9 @@ import DoctorProfile from "@/pages/doctor/profile";
 import RepresentativeDetails from "@/pages/client/representative-details";
 import SurveyRedemption from "./pages/doctor/survey-redemption";
 
+// Admin Pages
+import AdminRedemptions from "@/pages/admin/redemptions";
+
 function Router() {
   return (
     <Switch>
@@ -47,6 +56,8 @@ function Router() {
       <ProtectedRoute path="/client/doctors/:id" component={DoctorDetails} />
       <ProtectedRoute path="/client/representatives" component={ClientRepresentatives} />
       <ProtectedRoute path="/client/analytics" component={ClientAnalytics} />
+      <ProtectedRoute path="/client/reviewers" component={ClientReviewers} />
+      <ProtectedRoute path="/client/question-bank" component={ClientQuestionBank} />
       <ProtectedRoute path="/client/representatives/:id" component={RepresentativeDetails} />
 
       {/* Representative Routes */}
@@ -55,6 +66,10 @@ function Router() {
       <ProtectedRoute path="/rep/onboarding" component={RepOnboarding} />
       <ProtectedRoute path="/rep/doctors/:id" component={DoctorDetails} />
 
+      {/* Reviewer Routes */}
+      <ProtectedRoute path="/reviewer/dashboard" component={ReviewerDashboard} />
+      <ProtectedRoute path="/reviewer/surveys/:id" component={ReviewerSurveyReview} />
+
       {/* Doctor Routes */}
       <ProtectedRoute path="/doctor/dashboard" component={DoctorDashboard} />
       <ProtectedRoute path="/doctor/available-surveys" component={DoctorAvailableSurveys} />
@@ -64,6 +79,9 @@ function Router() {
       <ProtectedRoute path="/doctor/profile" component={DoctorProfile} />
       <ProtectedRoute path="/doctor/survey-redemption/:surveyId" component={SurveyRedemption} />
 
+      {/* Admin Routes */}
+      <ProtectedRoute path="/admin/redemptions" component={AdminRedemptions} />
+
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
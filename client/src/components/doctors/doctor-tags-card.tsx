@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, X } from "lucide-react";
+
+interface DoctorTagsCardProps {
+  doctorId: number;
+}
+
+export function DoctorTagsCard({ doctorId }: DoctorTagsCardProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState("");
+
+  const { data: savedTags, isLoading } = useQuery<string[]>({
+    queryKey: [`/api/doctors/${doctorId}/tags`],
+  });
+
+  useEffect(() => {
+    setTags(savedTags ?? []);
+  }, [savedTags]);
+
+  const saveTagsMutation = useMutation({
+    mutationFn: async (tags: string[]) => {
+      const res = await apiRequest("POST", `/api/doctors/${doctorId}/tags`, { tags });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Tags saved",
+        description: "Surveys targeting these tags will now include this doctor",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/doctors/${doctorId}/tags`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+      setTags([...tags, tag]);
+    }
+    setNewTag("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>Private labels for targeting surveys, e.g. KOL or north-zone</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-gray-500">No tags yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                {tag}
+                <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <Input
+            placeholder="Add a tag"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" onClick={addTag}>
+            Add
+          </Button>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => saveTagsMutation.mutate(tags)} disabled={saveTagsMutation.isPending}>
+          {saveTagsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Tags
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -14,6 +14,10 @@ import {
   LogOut,
   Menu,
   Settings,
+  Wallet,
+  ClipboardCheck,
+  ShieldCheck,
+  Library,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -46,17 +50,28 @@ export function Sidebar({ className }: SidebarProps) {
   const clientNavItems = [
     { href: "/client/dashboard", label: "Dashboard", icon: LayoutDashboard },
     { href: "/client/surveys", label: "Surveys", icon: FileText },
+    { href: "/client/question-bank", label: "Question Bank", icon: Library },
     { href: "/client/doctors", label: "Doctors", icon: Users },
     { href: "/client/representatives", label: "Representatives", icon: UserPlus },
+    { href: "/client/reviewers", label: "Reviewers", icon: ShieldCheck },
     { href: "/client/analytics", label: "Analytics", icon: BarChart3 },
   ];
 
+  const adminNavItems = [
+    ...clientNavItems,
+    { href: "/admin/redemptions", label: "Redemptions", icon: Wallet },
+  ];
+
   const repNavItems = [
     { href: "/rep/dashboard", label: "Dashboard", icon: LayoutDashboard },
     { href: "/rep/doctors", label: "My Doctors", icon: Users },
     // { href: "/rep/onboarding", label: "Onboarding", icon: UserPlus },
   ];
 
+  const reviewerNavItems = [
+    { href: "/reviewer/dashboard", label: "Review Queue", icon: ClipboardCheck },
+  ];
+
   const doctorNavItems = [
     { href: "/doctor/dashboard", label: "Dashboard", icon: LayoutDashboard },
     { href: "/doctor/available-surveys", label: "Available Surveys", icon: FileText },
@@ -68,8 +83,12 @@ export function Sidebar({ className }: SidebarProps) {
   let navItems = clientNavItems;
   if (user?.role === "rep") {
     navItems = repNavItems;
+  } else if (user?.role === "reviewer") {
+    navItems = reviewerNavItems;
   } else if (user?.role === "doctor") {
     navItems = doctorNavItems;
+  } else if (user?.role === "admin") {
+    navItems = adminNavItems;
   }
 
   const SidebarContent = () => (
@@ -119,7 +138,7 @@ export function Sidebar({ className }: SidebarProps) {
               {user?.name}
             </p>
             <p className="text-xs text-sidebar-foreground/60 truncate">
-              {user?.role === "doctor" ? "Doctor" : user?.role === "rep" ? "Representative" : "Client"}
+              {user?.role === "doctor" ? "Doctor" : user?.role === "rep" ? "Representative" : user?.role === "reviewer" ? "Reviewer" : user?.role === "admin" ? "Admin" : "Client"}
             </p>
           </div>
         </div>
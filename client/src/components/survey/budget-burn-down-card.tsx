@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from "recharts";
+import type { Survey, SurveyBudget } from "@shared/schema";
+
+interface BudgetBurnDownCardProps {
+  survey: Survey;
+}
+
+const toInput = (value: number | null) => (value === null ? "" : String(value));
+
+const toLimit = (value: string) => (value.trim() === "" ? null : parseInt(value));
+
+export function BudgetBurnDownCard({ survey }: BudgetBurnDownCardProps) {
+  const [pointsBudget, setPointsBudget] = useState(toInput(survey.pointsBudget));
+  const [maxCompletions, setMaxCompletions] = useState(toInput(survey.maxCompletions));
+
+  useEffect(() => {
+    setPointsBudget(toInput(survey.pointsBudget));
+    setMaxCompletions(toInput(survey.maxCompletions));
+  }, [survey.pointsBudget, survey.maxCompletions]);
+
+  const { data: budget, isLoading } = useQuery<SurveyBudget>({
+    queryKey: [`/api/surveys/${survey.id}/budget`],
+  });
+
+  const updateLimitsMutation = useMutation({
+    mutationFn: async (limits: { pointsBudget: number | null; maxCompletions: number | null }) => {
+      const res = await apiRequest("PUT", `/api/surveys/${survey.id}`, limits);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Limits updated",
+        description: "The survey's budget and quota have been saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys", survey.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${survey.id}/budget`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update limits",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const budgetValue = toLimit(pointsBudget);
+  const quotaValue = toLimit(maxCompletions);
+  const isValid = (budgetValue === null || budgetValue > 0) && (quotaValue === null || quotaValue > 0);
+
+  const chartData = budget?.burnDown.map(point => ({
+    date: format(new Date(point.date), "MMM d"),
+    remaining: budget.pointsBudget !== null ? budget.pointsBudget - point.pointsSpent : point.pointsSpent,
+  })) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget Burn-down</CardTitle>
+        <CardDescription>
+          Cap the points this survey can pay out and how many doctors can complete it.
+          The survey closes automatically when either runs out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !budget ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Points spent</span>
+                  <span className="text-gray-500">
+                    {budget.pointsSpent.toLocaleString()}
+                    {budget.pointsBudget !== null ? ` of ${budget.pointsBudget.toLocaleString()}` : " (no budget)"}
+                  </span>
+                </div>
+                {budget.pointsBudget !== null && (
+                  <Progress value={Math.min((budget.pointsSpent / budget.pointsBudget) * 100, 100)} />
+                )}
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">Completions</span>
+                  <span className="text-gray-500">
+                    {budget.completionCount}
+                    {budget.maxCompletions !== null ? ` of ${budget.maxCompletions}` : " (no quota)"}
+                  </span>
+                </div>
+                {budget.maxCompletions !== null && (
+                  <Progress value={Math.min((budget.completionCount / budget.maxCompletions) * 100, 100)} />
+                )}
+              </div>
+            </div>
+
+            {chartData.length > 0 ? (
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" />
+                    <YAxis />
+                    <Tooltip />
+                    {budget.pointsBudget !== null && <ReferenceLine y={0} stroke="#ef4444" />}
+                    <Line
+                      type="monotone"
+                      dataKey="remaining"
+                      name={budget.pointsBudget !== null ? "Points remaining" : "Points spent"}
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No completed responses yet.</p>
+            )}
+          </>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="points-budget">Points budget</Label>
+            <Input
+              id="points-budget"
+              type="number"
+              min="1"
+              placeholder="Unlimited"
+              value={pointsBudget}
+              onChange={(e) => setPointsBudget(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-completions">Maximum completions</Label>
+            <Input
+              id="max-completions"
+              type="number"
+              min="1"
+              placeholder="Unlimited"
+              value={maxCompletions}
+              onChange={(e) => setMaxCompletions(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => updateLimitsMutation.mutate({ pointsBudget: budgetValue, maxCompletions: quotaValue })}
+            disabled={!isValid || updateLimitsMutation.isPending}
+          >
+            {updateLimitsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Limits
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
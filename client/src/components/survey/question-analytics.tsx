@@ -0,0 +1,352 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import type { CheckboxAnswer, MatrixAnswer, QuestionValidation, SurveyQuestion } from "@shared/schema";
+import { rankingStats } from "@/lib/ranking";
+import { parseMatrixOptions } from "./question-inputs";
+
+interface QuestionAnalyticsProps {
+  question: SurveyQuestion;
+  // Parsed answers to the question
+  answers: unknown[];
+}
+
+// Share of respondents who ticked each option. Respondents can tick several, so the shares
+// don't add up to 100%.
+export function CheckboxAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  const options = question.options?.split("\n") ?? [];
+  const ticked = answers.filter((answer): answer is CheckboxAnswer =>
+    !!answer && typeof answer === "object" && Array.isArray((answer as CheckboxAnswer).selected));
+  const share = (count: number) => (ticked.length > 0 ? Math.round((count / ticked.length) * 100) : 0);
+
+  const stats = options.map(option => {
+    const count = ticked.filter(answer => answer.selected.includes(option)).length;
+    return { option, count, share: share(count) };
+  });
+  const otherAnswers = ticked
+    .map(answer => answer.other?.trim())
+    .filter((other): other is string => !!other);
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>Percentage of {ticked.length} respondents who ticked each option</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {stats.map(stat => (
+            <div key={stat.option} className="space-y-2">
+              <div className="flex justify-between">
+                <p className="text-sm font-medium">{stat.option}</p>
+                <p className="text-sm text-gray-500">{stat.count} ({stat.share}%)</p>
+              </div>
+              <Progress value={stat.share} className="h-2 w-full" />
+            </div>
+          ))}
+          {otherAnswers.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <p className="text-sm font-medium">Other</p>
+                <p className="text-sm text-gray-500">{otherAnswers.length} ({share(otherAnswers.length)}%)</p>
+              </div>
+              <Progress value={share(otherAnswers.length)} className="h-2 w-full" />
+              <ul className="space-y-1 pt-1">
+                {otherAnswers.slice(0, 5).map((other, i) => (
+                  <li key={i} className="text-sm text-gray-600">"{other}"</li>
+                ))}
+              </ul>
+              {otherAnswers.length > 5 && (
+                <p className="text-xs text-gray-500">and {otherAnswers.length - 5} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Average position of each option (1 is best) and how often it was ranked first
+export function RankingAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  const options = question.options?.split("\n") ?? [];
+  const rankings = answers.filter((answer): answer is string[] => Array.isArray(answer));
+
+  const stats = rankingStats(options, rankings);
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>Ranking results from {rankings.length} responses, best average rank first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {stats.map(stat => (
+            <div key={stat.option} className="space-y-2">
+              <div className="flex justify-between">
+                <p className="text-sm font-medium">{stat.option}</p>
+                <p className="text-sm text-gray-500">
+                  Avg. rank {stat.averageRank !== null ? stat.averageRank.toFixed(1) : "N/A"} · first choice{" "}
+                  {stat.firstChoices} ({stat.firstChoiceShare}%)
+                </p>
+              </div>
+              <Progress value={stat.firstChoiceShare} className="h-2 w-full" />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Heat map of how each row was rated: a cell's share is of the respondents who answered
+// that row, and darker cells were chosen more often
+export function MatrixAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  const matrix = parseMatrixOptions(question.options);
+  const grids = answers.filter((answer): answer is MatrixAnswer =>
+    !!answer && typeof answer === "object" && !Array.isArray(answer));
+  if (!matrix) return null;
+
+  const rows = matrix.rows.map(row => {
+    const rowAnswers = grids.map(grid => grid[row]).filter(columns => Array.isArray(columns) && columns.length > 0);
+    return {
+      row,
+      respondents: rowAnswers.length,
+      cells: matrix.columns.map(column => {
+        const count = rowAnswers.filter(columns => columns.includes(column)).length;
+        return { column, count, share: rowAnswers.length > 0 ? Math.round((count / rowAnswers.length) * 100) : 0 };
+      }),
+    };
+  });
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>
+          Share of respondents choosing each column, per row, from {grids.length} responses
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th />
+                {matrix.columns.map(column => (
+                  <th key={column} className="px-2 pb-2 text-center font-medium text-gray-600">{column}</th>
+                ))}
+                <th className="px-2 pb-2 text-right font-medium text-gray-600">Responses</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ row, respondents, cells }) => (
+                <tr key={row} className="border-t">
+                  <td className="py-2 pr-4 font-medium">{row}</td>
+                  {cells.map(cell => (
+                    <td
+                      key={cell.column}
+                      className={`px-2 py-2 text-center ${cell.share > 50 ? "text-white" : "text-gray-900"}`}
+                      style={{ backgroundColor: `rgba(37, 99, 235, ${cell.share / 100})` }}
+                      title={`${cell.count} of ${respondents}`}
+                    >
+                      {cell.share}%
+                    </td>
+                  ))}
+                  <td className="px-2 py-2 text-right text-gray-500">{respondents}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CountChart({ data }: { data: { label: string; count: number }[] }) {
+  return (
+    <div className="h-[260px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" />
+          <YAxis allowDecimals={false} />
+          <Tooltip />
+          <Bar dataKey="count" name="Responses" fill="hsl(var(--primary))" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+// Histogram of numeric answers. Whole-number answers over a small range get a bar per
+// value; anything else is split into ten equal bins.
+export function NumericAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  let rules: QuestionValidation = {};
+  try {
+    rules = question.validation ? JSON.parse(question.validation) : {};
+  } catch (e) {
+    // Without rules the answers are charted as plain numbers
+  }
+  const values = answers
+    .filter((answer): answer is number => typeof answer === "number" && Number.isFinite(answer))
+    .sort((a, b) => a - b);
+
+  const low = values[0] ?? 0;
+  const high = values[values.length - 1] ?? 0;
+  let bins: { label: string; count: number }[];
+  if (values.every(Number.isInteger) && high - low <= 20) {
+    bins = Array.from({ length: high - low + 1 }, (_, i) => ({
+      label: (low + i).toString(),
+      count: values.filter(value => value === low + i).length,
+    }));
+  } else {
+    const width = (high - low) / 10;
+    bins = Array.from({ length: 10 }, (_, i) => {
+      const from = low + i * width;
+      const to = i === 9 ? high : from + width;
+      return {
+        label: `${+from.toFixed(1)}–${+to.toFixed(1)}`,
+        count: values.filter(value => value >= from && (i === 9 ? value <= to : value < to)).length,
+      };
+    });
+  }
+
+  const mean = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  const median = values.length > 0
+    ? (values[Math.floor((values.length - 1) / 2)] + values[Math.ceil((values.length - 1) / 2)]) / 2
+    : null;
+  const unit = rules.unit ? ` ${rules.unit}` : "";
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>
+          {values.length} responses · Mean: {mean !== null ? `${+mean.toFixed(1)}${unit}` : "N/A"} · Median:{" "}
+          {median !== null ? `${+median.toFixed(1)}${unit}` : "N/A"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {values.length > 0 ? (
+          <CountChart data={bins} />
+        ) : (
+          <p className="text-sm text-gray-500">No responses yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// How date answers spread over time, by month
+export function DateAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  const dates = answers
+    .filter((answer): answer is string => typeof answer === "string" && /^\d{4}-\d{2}-\d{2}$/.test(answer))
+    .sort();
+
+  const months = new Map<string, number>();
+  if (dates.length > 0) {
+    // Include empty months between the first and last answer, so gaps show
+    const [firstYear, firstMonth] = dates[0].split("-").map(Number);
+    const [lastYear, lastMonth] = dates[dates.length - 1].split("-").map(Number);
+    for (let year = firstYear, month = firstMonth; year < lastYear || (year === lastYear && month <= lastMonth);) {
+      months.set(`${year}-${month.toString().padStart(2, "0")}`, 0);
+      month++;
+      if (month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+    for (const date of dates) {
+      const key = date.slice(0, 7);
+      months.set(key, (months.get(key) ?? 0) + 1);
+    }
+  }
+  const data = Array.from(months, ([month, count]) => ({
+    label: format(new Date(`${month}-01T00:00:00`), "MMM yyyy"),
+    count,
+  }));
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>
+          {dates.length} responses
+          {dates.length > 0 && `, from ${format(new Date(`${dates[0]}T00:00:00`), "MMM d, yyyy")} to ${format(
+            new Date(`${dates[dates.length - 1]}T00:00:00`), "MMM d, yyyy"
+          )}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length > 0 ? (
+          <CountChart data={data} />
+        ) : (
+          <p className="text-sm text-gray-500">No responses yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Net Promoter Score: the share of promoters (9-10) minus the share of detractors (0-6),
+// from -100 to 100. Passives (7-8) only count towards the total.
+export function NpsAnalytics({ question, answers }: QuestionAnalyticsProps) {
+  const scores = answers.filter((answer): answer is number =>
+    typeof answer === "number" && Number.isInteger(answer) && answer >= 0 && answer <= 10);
+  const share = (count: number) => (scores.length > 0 ? Math.round((count / scores.length) * 100) : 0);
+
+  const groups = [
+    { label: "Promoters (9-10)", count: scores.filter(score => score >= 9).length, color: "bg-green-500" },
+    { label: "Passives (7-8)", count: scores.filter(score => score === 7 || score === 8).length, color: "bg-gray-400" },
+    { label: "Detractors (0-6)", count: scores.filter(score => score <= 6).length, color: "bg-red-500" },
+  ];
+  const nps = scores.length > 0
+    ? Math.round(((groups[0].count - groups[2].count) / scores.length) * 100)
+    : null;
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg">{question.questionText}</CardTitle>
+        <CardDescription>Net Promoter Score from {scores.length} responses</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex items-baseline gap-2">
+            <p className="text-4xl font-bold">{nps !== null ? nps : "N/A"}</p>
+            <p className="text-sm text-gray-500">NPS (-100 to 100)</p>
+          </div>
+          {scores.length > 0 && (
+            <div className="flex h-3 w-full overflow-hidden rounded-full">
+              {groups.map(group => (
+                <div key={group.label} className={group.color} style={{ width: `${share(group.count)}%` }} />
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            {groups.map(group => (
+              <div key={group.label} className="flex items-center gap-2">
+                <span className={`h-3 w-3 rounded-full ${group.color}`} />
+                <p className="text-sm">
+                  {group.label}: <span className="font-medium">{group.count}</span> ({share(group.count)}%)
+                </p>
+              </div>
+            ))}
+          </div>
+          {scores.length > 0 && (
+            <CountChart
+              data={Array.from({ length: 11 }, (_, score) => ({
+                label: score.toString(),
+                count: scores.filter(s => s === score).length,
+              }))}
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Library, Loader2, Search } from "lucide-react";
+import type { QuestionBankItem, QuestionValidation, SurveyQuestion } from "@shared/schema";
+
+export type QuestionBankEntry = Omit<QuestionBankItem, "tags" | "validation"> & {
+  tags: string[];
+  validation: QuestionValidation | null;
+  usageCount: number;
+};
+
+export const QUESTION_TYPE_LABELS: Record<string, string> = {
+  text: "Text",
+  scale: "Scale (1-10)",
+  mcq: "Multiple Choice",
+  checkbox: "Checkboxes",
+  ranking: "Ranking",
+  matrix: "Matrix",
+  numeric: "Number",
+  date: "Date",
+  nps: "Net Promoter Score (0-10)",
+};
+
+export const ALL_TAGS = "__all__";
+
+// Bank entries matching a keyword and tag; the tag list comes from the unfiltered bank
+export function useQuestionBank(search: string, tag: string) {
+  const { data: entries = [], isLoading } = useQuery<QuestionBankEntry[]>({
+    queryKey: ["/api/question-bank", search, tag],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set("q", search.trim());
+      if (tag !== ALL_TAGS) params.set("tag", tag);
+      const res = await fetch(`/api/question-bank?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch question bank");
+      return res.json();
+    },
+  });
+
+  const { data: allEntries } = useQuery<QuestionBankEntry[]>({
+    queryKey: ["/api/question-bank"],
+  });
+  const tags = Array.from(new Set((allEntries ?? []).flatMap(entry => entry.tags))).sort();
+
+  return { entries, tags, isLoading };
+}
+
+interface QuestionBankFiltersProps {
+  search: string;
+  tag: string;
+  tags: string[];
+  onSearchChange: (search: string) => void;
+  onTagChange: (tag: string) => void;
+}
+
+export function QuestionBankFilters({ search, tag, tags, onSearchChange, onTagChange }: QuestionBankFiltersProps) {
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row">
+      <div className="relative flex-1">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+        <Input
+          placeholder="Search questions"
+          className="pl-8"
+          value={search}
+          onChange={(e) => onSearchChange(e.target.value)}
+        />
+      </div>
+      <Select value={tag} onValueChange={onTagChange}>
+        <SelectTrigger className="sm:w-[180px]">
+          <SelectValue placeholder="All tags" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+          {tags.map(t => (
+            <SelectItem key={t} value={t}>{t}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface QuestionBankPickerProps {
+  surveyId: number;
+}
+
+export function QuestionBankPicker({ surveyId }: QuestionBankPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState(ALL_TAGS);
+  const { entries, tags, isLoading } = useQuestionBank(search, tag);
+
+  const insertMutation = useMutation({
+    mutationFn: async (bankQuestionId: number) => {
+      const res = await apiRequest("POST", `/api/surveys/${surveyId}/questions/from-bank`, { bankQuestionId });
+      return await res.json();
+    },
+    onSuccess: (question: SurveyQuestion) => {
+      toast({
+        title: "Question added",
+        description: `"${question.questionText}" has been added from the question bank`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys", surveyId, "questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/question-bank"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button variant="outline" className="space-x-2" onClick={() => setIsOpen(true)}>
+        <Library className="h-4 w-4" />
+        <span>Insert from Bank</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Question Bank</DialogTitle>
+            <DialogDescription>
+              Standardized questions are added to the end of the survey and stay linked to the bank,
+              so their answers can be compared across surveys.
+            </DialogDescription>
+          </DialogHeader>
+
+          <QuestionBankFilters
+            search={search}
+            tag={tag}
+            tags={tags}
+            onSearchChange={setSearch}
+            onTagChange={setTag}
+          />
+
+          <div className="max-h-[400px] overflow-y-auto">
+            {isLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            ) : entries.length === 0 ? (
+              <p className="py-4 text-sm text-gray-500">No matching questions in the bank.</p>
+            ) : (
+              <ul className="divide-y">
+                {entries.map(entry => (
+                  <li key={entry.id} className="flex items-start justify-between gap-4 py-3">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-sm font-medium">{entry.questionText}</p>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge variant="outline">{QUESTION_TYPE_LABELS[entry.questionType] ?? entry.questionType}</Badge>
+                        {entry.tags.map(t => (
+                          <Badge key={t} variant="secondary">{t}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => insertMutation.mutate(entry.id)}
+                      disabled={insertMutation.isPending}
+                    >
+                      Insert
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
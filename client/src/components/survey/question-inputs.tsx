@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, GripVertical } from "lucide-react";
+import { matrixOptionsSchema } from "@shared/schema";
+import type { CheckboxAnswer, MatrixAnswer, MatrixOptions, QuestionValidation } from "@shared/schema";
+
+interface RankingInputProps {
+  options: string[];
+  value?: string[];
+  onChange: (ranking: string[]) => void;
+}
+
+// Drag options into order, best first. The arrow buttons do the same for touch and keyboard users.
+export function RankingInput({ options, value, onChange }: RankingInputProps) {
+  const ranking = value && value.length === options.length ? value : options;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= ranking.length || from === to) return;
+    const next = [...ranking];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <ol className="space-y-2 py-2">
+      {ranking.map((option, index) => (
+        <li
+          key={option}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) move(dragIndex, index);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-center gap-3 rounded-md border bg-white px-3 py-2 ${
+            dragIndex === index ? "opacity-50" : ""
+          }`}
+        >
+          <GripVertical className="h-4 w-4 cursor-grab text-gray-400" />
+          <span className="w-6 text-sm font-semibold text-gray-500">{index + 1}</span>
+          <span className="flex-1 text-sm">{option}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => move(index, index - 1)}
+            disabled={index === 0}
+            aria-label={`Move ${option} up`}
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => move(index, index + 1)}
+            disabled={index === ranking.length - 1}
+            aria-label={`Move ${option} down`}
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface CheckboxInputProps {
+  options: string[];
+  allowOther?: boolean;
+  value?: CheckboxAnswer;
+  onChange: (answer: CheckboxAnswer) => void;
+}
+
+// Tick any number of options. "Other" keeps its text while ticked and drops it when unticked.
+export function CheckboxInput({ options, allowOther, value, onChange }: CheckboxInputProps) {
+  const selected = value?.selected ?? [];
+  const other = value?.other;
+
+  const toggle = (option: string, checked: boolean) => {
+    const next = checked
+      ? options.filter(o => o === option || selected.includes(o))
+      : selected.filter(o => o !== option);
+    onChange({ selected: next, other });
+  };
+
+  return (
+    <div className="space-y-3 py-2">
+      {options.map(option => (
+        <label key={option} className="flex items-center gap-3 rounded-md border px-4 py-3 text-sm cursor-pointer">
+          <Checkbox
+            checked={selected.includes(option)}
+            onCheckedChange={(checked) => toggle(option, checked === true)}
+          />
+          {option}
+        </label>
+      ))}
+      {allowOther && (
+        <div className="space-y-2 rounded-md border px-4 py-3">
+          <label className="flex items-center gap-3 text-sm cursor-pointer">
+            <Checkbox
+              checked={other !== undefined}
+              onCheckedChange={(checked) => onChange({ selected, other: checked === true ? "" : undefined })}
+            />
+            Other (please specify)
+          </label>
+          {other !== undefined && (
+            <Input
+              autoFocus
+              placeholder="Your answer"
+              value={other}
+              onChange={(e) => onChange({ selected, other: e.target.value })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The grid of a matrix question, or null if its options don't describe one
+export function parseMatrixOptions(options: string | null): MatrixOptions | null {
+  try {
+    const parsed = matrixOptionsSchema.safeParse(JSON.parse(options ?? ""));
+    return parsed.success ? parsed.data : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+interface MatrixInputProps {
+  matrix: MatrixOptions;
+  value?: MatrixAnswer;
+  onChange: (answer: MatrixAnswer) => void;
+}
+
+// A table of rows against columns on wider screens; on phones each row becomes its own
+// list of column buttons, since a wide grid can't fit.
+export function MatrixInput({ matrix, value, onChange }: MatrixInputProps) {
+  const answer = value ?? {};
+  const isChosen = (row: string, column: string) => (answer[row] ?? []).includes(column);
+
+  const choose = (row: string, column: string) => {
+    const current = answer[row] ?? [];
+    const next = !matrix.multiple
+      ? [column]
+      : current.includes(column)
+        ? current.filter(c => c !== column)
+        : matrix.columns.filter(c => c === column || current.includes(c));
+    onChange({ ...answer, [row]: next });
+  };
+
+  return (
+    <div className="py-2">
+      <div className="hidden md:block overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th />
+              {matrix.columns.map(column => (
+                <th key={column} className="px-2 pb-2 text-center font-medium text-gray-600">{column}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map(row => (
+              <tr key={row} className="border-t">
+                <td className="py-3 pr-4 font-medium">{row}</td>
+                {matrix.columns.map(column => (
+                  <td key={column} className="px-2 py-3 text-center">
+                    <input
+                      type={matrix.multiple ? "checkbox" : "radio"}
+                      name={`matrix-${row}`}
+                      checked={isChosen(row, column)}
+                      onChange={() => choose(row, column)}
+                      className="h-4 w-4 text-primary"
+                      aria-label={`${row}: ${column}`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-4 md:hidden">
+        {matrix.rows.map(row => (
+          <div key={row} className="space-y-2">
+            <p className="text-sm font-medium">{row}</p>
+            <div className="flex flex-wrap gap-2">
+              {matrix.columns.map(column => (
+                <Button
+                  key={column}
+                  type="button"
+                  size="sm"
+                  variant={isChosen(row, column) ? "default" : "outline"}
+                  onClick={() => choose(row, column)}
+                >
+                  {column}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface NumericInputProps {
+  rules: QuestionValidation;
+  value?: number;
+  onChange: (value: number | undefined) => void;
+}
+
+// A number box with the question's unit beside it. The bounds are hints here; the Next
+// button and the server enforce them.
+export function NumericInput({ rules, value, onChange }: NumericInputProps) {
+  const hint = rules.min !== undefined && rules.max !== undefined
+    ? `Between ${rules.min} and ${rules.max}`
+    : rules.min !== undefined
+      ? `At least ${rules.min}`
+      : rules.max !== undefined
+        ? `At most ${rules.max}`
+        : null;
+
+  return (
+    <div className="space-y-2 py-2">
+      <div className="flex items-center gap-3">
+        <Input
+          type="number"
+          inputMode={rules.integer ? "numeric" : "decimal"}
+          step={rules.integer ? 1 : "any"}
+          min={rules.min}
+          max={rules.max}
+          className="max-w-[200px]"
+          value={value ?? ""}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+        />
+        {rules.unit && <span className="text-sm text-gray-600">{rules.unit}</span>}
+      </div>
+      {(hint || rules.integer) && (
+        <p className="text-xs text-gray-500">
+          {[hint, rules.integer ? "Whole numbers only" : null].filter(Boolean).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface NpsInputProps {
+  value?: number;
+  onChange: (score: number) => void;
+}
+
+// The standard 0-10 "how likely are you to recommend" scale
+export function NpsInput({ value, onChange }: NpsInputProps) {
+  return (
+    <div className="space-y-2 py-4">
+      <div className="flex flex-wrap gap-2 justify-between">
+        {Array.from({ length: 11 }, (_, score) => (
+          <Button
+            key={score}
+            type="button"
+            variant={value === score ? "default" : "outline"}
+            className="w-11 h-11"
+            onClick={() => onChange(score)}
+          >
+            {score}
+          </Button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Not at all likely</span>
+        <span>Extremely likely</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { MatrixOptions, QuestionValidation } from "@shared/schema";
+
+const optionalCount = z.string().regex(/^\d*$/, { message: "Enter a whole number" });
+const optionalNumber = z.string().regex(/^(-?\d+(\.\d+)?)?$/, { message: "Enter a number" });
+
+// Form fields for a question's answer rules, kept as strings while editing
+export const questionRuleShape = {
+  minLength: optionalCount,
+  maxLength: optionalCount,
+  minSelections: optionalCount,
+  maxSelections: optionalCount,
+  allowOther: z.boolean(),
+  minValue: optionalNumber,
+  maxValue: optionalNumber,
+  integer: z.boolean(),
+  unit: z.string(),
+};
+
+export type QuestionRuleValues = {
+  minLength: string;
+  maxLength: string;
+  minSelections: string;
+  maxSelections: string;
+  allowOther: boolean;
+  minValue: string;
+  maxValue: string;
+  integer: boolean;
+  unit: string;
+};
+
+export const emptyQuestionRules: QuestionRuleValues = {
+  minLength: "",
+  maxLength: "",
+  minSelections: "",
+  maxSelections: "",
+  allowOther: false,
+  minValue: "",
+  maxValue: "",
+  integer: false,
+  unit: "",
+};
+
+export const toQuestionRuleValues = (validation: QuestionValidation | null | undefined): QuestionRuleValues => ({
+  minLength: validation?.minLength?.toString() ?? "",
+  maxLength: validation?.maxLength?.toString() ?? "",
+  minSelections: validation?.minSelections?.toString() ?? "",
+  maxSelections: validation?.maxSelections?.toString() ?? "",
+  allowOther: validation?.allowOther ?? false,
+  minValue: validation?.min?.toString() ?? "",
+  maxValue: validation?.max?.toString() ?? "",
+  integer: validation?.integer ?? false,
+  unit: validation?.unit ?? "",
+});
+
+// The rules that apply to the question type, or null when none are set
+export const toQuestionValidation = (questionType: string, values: QuestionRuleValues): QuestionValidation | null => {
+  const count = (value: string) => (value ? parseInt(value) : undefined);
+
+  if (questionType === "text" && (values.minLength || values.maxLength)) {
+    return { minLength: count(values.minLength), maxLength: count(values.maxLength) };
+  }
+  if (questionType === "checkbox" && (values.minSelections || values.maxSelections || values.allowOther)) {
+    return {
+      minSelections: count(values.minSelections),
+      maxSelections: count(values.maxSelections),
+      allowOther: values.allowOther || undefined,
+    };
+  }
+  if (questionType === "numeric" && (values.minValue || values.maxValue || values.integer || values.unit.trim())) {
+    return {
+      min: values.minValue ? parseFloat(values.minValue) : undefined,
+      max: values.maxValue ? parseFloat(values.maxValue) : undefined,
+      integer: values.integer || undefined,
+      unit: values.unit.trim() || undefined,
+    };
+  }
+  return null;
+};
+
+// Rule fields for the selected question type; renders nothing for types without rules
+export function QuestionRuleFields({ questionType }: { questionType: string }) {
+  const form = useFormContext<QuestionRuleValues>();
+
+  if (questionType === "text") {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="minLength"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Minimum length</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="No minimum" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="maxLength"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Maximum length</FormLabel>
+              <FormControl>
+                <Input inputMode="numeric" placeholder="No maximum" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    );
+  }
+
+  if (questionType === "checkbox") {
+    return (
+      <>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="minSelections"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum selections</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" placeholder="No minimum" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxSelections"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Maximum selections</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" placeholder="No maximum" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="allowOther"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <input
+                  type="checkbox"
+                  checked={field.value}
+                  onChange={field.onChange}
+                  className="form-checkbox h-4 w-4 text-primary rounded"
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Add an "Other (specify)" option</FormLabel>
+                <FormDescription>
+                  Doctors can type their own answer. It counts as one selection.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+      </>
+    );
+  }
+
+  if (questionType === "numeric") {
+    return (
+      <>
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="minValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum value</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="No minimum" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Maximum value</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="No maximum" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="unit"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Unit</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. patients per week" {...field} />
+              </FormControl>
+              <FormDescription>Shown next to the answer box.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="integer"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+              <FormControl>
+                <input
+                  type="checkbox"
+                  checked={field.value}
+                  onChange={field.onChange}
+                  className="form-checkbox h-4 w-4 text-primary rounded"
+                />
+              </FormControl>
+              <div className="space-y-1 leading-none">
+                <FormLabel>Whole numbers only</FormLabel>
+                <FormDescription>
+                  Otherwise decimals such as 2.5 are accepted.
+                </FormDescription>
+              </div>
+            </FormItem>
+          )}
+        />
+      </>
+    );
+  }
+
+  return null;
+}
+
+// Form-level check that a minimum doesn't exceed its maximum
+export function refineQuestionRules(values: QuestionRuleValues, ctx: z.RefinementCtx) {
+  const exceeds = (min: string, max: string) => min !== "" && max !== "" && parseInt(min) > parseInt(max);
+  if (exceeds(values.minLength, values.maxLength)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be at least the minimum", path: ["maxLength"] });
+  }
+  if (exceeds(values.minSelections, values.maxSelections)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be at least the minimum", path: ["maxSelections"] });
+  }
+  if (values.minValue !== "" && values.maxValue !== "" && parseFloat(values.minValue) > parseFloat(values.maxValue)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Must be at least the minimum", path: ["maxValue"] });
+  }
+}
+
+// Form fields for a matrix question's grid, one row or column per line while editing
+export const matrixFieldShape = {
+  matrixRows: z.string(),
+  matrixColumns: z.string(),
+  matrixMultiple: z.boolean(),
+};
+
+export type MatrixFieldValues = {
+  matrixRows: string;
+  matrixColumns: string;
+  matrixMultiple: boolean;
+};
+
+export const emptyMatrixFields: MatrixFieldValues = {
+  matrixRows: "",
+  matrixColumns: "",
+  matrixMultiple: false,
+};
+
+export const toMatrixFieldValues = (matrix: MatrixOptions | null): MatrixFieldValues => ({
+  matrixRows: matrix?.rows.join("\n") ?? "",
+  matrixColumns: matrix?.columns.join("\n") ?? "",
+  matrixMultiple: matrix?.multiple ?? false,
+});
+
+const lines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean);
+
+// The grid as stored in the question's options
+export const toMatrixOptions = (values: MatrixFieldValues): string => JSON.stringify({
+  rows: lines(values.matrixRows),
+  columns: lines(values.matrixColumns),
+  multiple: values.matrixMultiple,
+});
+
+// Form-level check that a matrix question has rows and columns
+export function refineMatrixFields(values: MatrixFieldValues & { questionType: string }, ctx: z.RefinementCtx) {
+  if (values.questionType !== "matrix") return;
+  if (lines(values.matrixRows).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter at least one row", path: ["matrixRows"] });
+  }
+  if (lines(values.matrixColumns).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter at least one column", path: ["matrixColumns"] });
+  }
+}
+
+export function MatrixFields() {
+  const form = useFormContext<MatrixFieldValues>();
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="matrixRows"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rows</FormLabel>
+              <FormControl>
+                <Textarea placeholder="e.g. one drug per line" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="matrixColumns"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Columns</FormLabel>
+              <FormControl>
+                <Textarea placeholder="e.g. one rating per line" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={form.control}
+        name="matrixMultiple"
+        render={({ field }) => (
+          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+            <FormControl>
+              <input
+                type="checkbox"
+                checked={field.value}
+                onChange={field.onChange}
+                className="form-checkbox h-4 w-4 text-primary rounded"
+              />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel>Allow several columns per row</FormLabel>
+              <FormDescription>
+                Otherwise doctors choose one column for each row.
+              </FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { SurveyQuotaCell } from "@shared/schema";
+
+interface QuotaCellsCardProps {
+  surveyId: number;
+  className?: string;
+}
+
+interface CellDraft {
+  specialty: string;
+  target: string;
+}
+
+export function QuotaCellsCard({ surveyId, className }: QuotaCellsCardProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [drafts, setDrafts] = useState<CellDraft[]>([]);
+
+  const { data: cells = [], isLoading } = useQuery<SurveyQuotaCell[]>({
+    queryKey: [`/api/surveys/${surveyId}/quota-cells`],
+  });
+
+  const saveCellsMutation = useMutation({
+    mutationFn: async (cells: { specialty: string; target: number }[]) => {
+      const res = await apiRequest("PUT", `/api/surveys/${surveyId}/quota-cells`, { cells });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Quota cells saved",
+        description: "Doctors in full cells will no longer see this survey",
+      });
+      setIsDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${surveyId}/quota-cells`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save quota cells",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = () => {
+    setDrafts(cells.length > 0
+      ? cells.map(cell => ({ specialty: cell.specialty, target: String(cell.target) }))
+      : [{ specialty: "", target: "" }]);
+    setIsDialogOpen(true);
+  };
+
+  const updateDraft = (index: number, changes: Partial<CellDraft>) => {
+    setDrafts(current => current.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const parsedDrafts = drafts
+    .filter(draft => draft.specialty.trim() !== "" || draft.target.trim() !== "")
+    .map(draft => ({ specialty: draft.specialty.trim(), target: parseInt(draft.target) }));
+  const isValid = parsedDrafts.every(draft => draft.specialty !== "" && draft.target > 0);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Specialty Quotas</CardTitle>
+          <CardDescription>Completed responses per specialty against each cell's target</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={openEditor}>
+          Edit Cells
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : cells.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            No quota cells. Any doctor can respond until the survey's overall limits are reached.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {cells.map(cell => {
+              const percentage = Math.min(Math.round((cell.filledCount / cell.target) * 100), 100);
+              return (
+                <div key={cell.id} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm font-medium">{cell.specialty}</p>
+                    <div className="flex items-center space-x-2">
+                      {cell.filledCount >= cell.target && (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Full</Badge>
+                      )}
+                      <p className="text-sm text-gray-500">
+                        {cell.filledCount} / {cell.target} ({percentage}%)
+                      </p>
+                    </div>
+                  </div>
+                  <Progress value={percentage} className="h-2 w-full" />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Specialty Quota Cells</DialogTitle>
+            <DialogDescription>
+              Set how many completed responses you need from each specialty. Doctors whose
+              specialty has no cell are not limited.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {drafts.map((draft, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  placeholder="Specialty, e.g. Cardiology"
+                  value={draft.specialty}
+                  onChange={(e) => updateDraft(index, { specialty: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Target"
+                  className="w-28"
+                  value={draft.target}
+                  onChange={(e) => updateDraft(index, { target: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDrafts(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setDrafts(current => [...current, { specialty: "", target: "" }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Cell
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveCellsMutation.mutate(parsedDrafts)}
+              disabled={!isValid || saveCellsMutation.isPending}
+            >
+              {saveCellsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Cells
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { formatPaise } from "@/lib/utils";
+
+export interface RedemptionSettingsValue {
+  pointValuePaise: number | null;
+  minRedemptionPaise: number | null;
+}
+
+interface RedemptionSettingsCardProps {
+  title: string;
+  description: string;
+  value: RedemptionSettingsValue;
+  // When set, blank fields are allowed and fall back to these values (survey overrides)
+  inherited?: { pointValuePaise: number; minRedemptionPaise: number };
+  isSaving: boolean;
+  onSave: (value: RedemptionSettingsValue) => void;
+}
+
+const toRupees = (paise: number | null) => (paise === null ? "" : String(paise / 100));
+
+const toPaise = (rupees: string) => (rupees.trim() === "" ? null : Math.round(parseFloat(rupees) * 100));
+
+export function RedemptionSettingsCard({ title, description, value, inherited, isSaving, onSave }: RedemptionSettingsCardProps) {
+  const [pointValue, setPointValue] = useState(toRupees(value.pointValuePaise));
+  const [minRedemption, setMinRedemption] = useState(toRupees(value.minRedemptionPaise));
+
+  useEffect(() => {
+    setPointValue(toRupees(value.pointValuePaise));
+    setMinRedemption(toRupees(value.minRedemptionPaise));
+  }, [value.pointValuePaise, value.minRedemptionPaise]);
+
+  const pointValuePaise = toPaise(pointValue);
+  const minRedemptionPaise = toPaise(minRedemption);
+  const isValid =
+    (pointValuePaise === null ? !!inherited : pointValuePaise >= 1) &&
+    (minRedemptionPaise === null ? !!inherited : minRedemptionPaise >= 0);
+
+  const effectivePointValue = pointValuePaise ?? inherited?.pointValuePaise;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="point-value">Value per point (₹)</Label>
+            <Input
+              id="point-value"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={pointValue}
+              placeholder={inherited ? `${toRupees(inherited.pointValuePaise)} (client default)` : undefined}
+              onChange={(e) => setPointValue(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-redemption">Minimum redemption (₹)</Label>
+            <Input
+              id="min-redemption"
+              type="number"
+              min="0"
+              step="0.01"
+              value={minRedemption}
+              placeholder={inherited ? `${toRupees(inherited.minRedemptionPaise)} (client default)` : undefined}
+              onChange={(e) => setMinRedemption(e.target.value)}
+            />
+          </div>
+        </div>
+        {effectivePointValue !== undefined && effectivePointValue >= 1 && (
+          <p className="mt-3 text-sm text-gray-500">
+            100 points = {formatPaise(effectivePointValue * 100)}. Changes apply to redemptions requested from now on.
+          </p>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => onSave({ pointValuePaise, minRedemptionPaise })}
+          disabled={!isValid || isSaving}
+        >
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -17,7 +17,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { SurveyQuestion, Survey } from "@shared/schema";
+import { BranchRule, SurveyQuestion, Survey } from "@shared/schema";
+import { parseMatrixOptions } from "./question-inputs";
+
+const RULE_EDGE_STYLE = { stroke: '#7c3aed', strokeWidth: 2 };
+
+const ruleLabel = (rule: Pick<BranchRule, 'match' | 'options'>) =>
+  `${rule.match === 'all' ? 'All of' : 'Any of'}: ${rule.options.join(', ')}`;
 
 // Custom node component for questions that includes handles
 function QuestionNode({ data, selected }) {
@@ -33,7 +39,13 @@ function QuestionNode({ data, selected }) {
           <div className="flex justify-between items-start">
             <CardTitle className="text-sm font-medium">
               {data.questionType === 'mcq' ? '🔘' : 
-               data.questionType === 'scale' ? '📊' : '📝'} {data.questionText}
+               data.questionType === 'scale' ? '📊' :
+               data.questionType === 'ranking' ? '🔢' :
+               data.questionType === 'checkbox' ? '☑️' :
+               data.questionType === 'matrix' ? '🔲' :
+               data.questionType === 'numeric' ? '#️⃣' :
+               data.questionType === 'date' ? '📅' :
+               data.questionType === 'nps' ? '📣' : '📝'} {data.questionText}
             </CardTitle>
             <Badge variant="outline" className="text-xs">
               {data.questionType.toUpperCase()}
@@ -41,13 +53,18 @@ function QuestionNode({ data, selected }) {
           </div>
         </CardHeader>
         <CardContent className="p-3 pt-0">
-          {data.questionType === 'mcq' && data.options && (
+          {['mcq', 'checkbox', 'ranking'].includes(data.questionType) && data.options && (
             <div className="text-xs">
               {data.options.split('\n').map((option, i) => (
                 <div key={i} className="mb-1">{option}</div>
               ))}
             </div>
           )}
+          {data.questionType === 'matrix' && parseMatrixOptions(data.options) && (
+            <div className="text-xs">
+              {parseMatrixOptions(data.options)!.rows.length} rows × {parseMatrixOptions(data.options)!.columns.length} columns
+            </div>
+          )}
         </CardContent>
       </Card>
       <Handle 
@@ -69,6 +86,15 @@ function QuestionNode({ data, selected }) {
           />
         ))
       }
+      {/* Checkbox branches are rules over several options, so they share one handle */}
+      {data.questionType === 'checkbox' && (
+        <Handle
+          type="source"
+          position={Position.Right}
+          id="rules"
+          className="w-3 h-3 bg-violet-600"
+        />
+      )}
     </div>
   );
 }
@@ -140,6 +166,21 @@ export function SurveyBuilder({ survey, questions, onSave }: SurveyBuilderProps)
               }
             });
           }
+
+          // Add rule edges for checkbox questions, keeping the rules in order
+          if (question.questionType === 'checkbox' && logic.rules) {
+            (logic.rules as BranchRule[]).forEach((rule, index) => {
+              edges.push({
+                id: `e-${question.id}-rule-${index}-${rule.nextQuestionId}`,
+                source: question.id.toString(),
+                target: rule.nextQuestionId.toString(),
+                sourceHandle: 'rules',
+                label: ruleLabel(rule),
+                data: { match: rule.match, options: rule.options },
+                style: RULE_EDGE_STYLE
+              });
+            });
+          }
         } catch (e) {
           console.error('Error parsing conditional logic', e);
           setError(`Error parsing logic for question ${question.id}: ${e.message}`);
@@ -239,6 +280,16 @@ export function SurveyBuilder({ survey, questions, onSave }: SurveyBuilderProps)
             }
           }
           
+          // Rule edges for checkbox questions. Edges drawn by hand have no rule yet and are skipped.
+          if (q.questionType === 'checkbox') {
+            const rules = nodeEdges
+              .filter(e => e.sourceHandle === 'rules' && e.data)
+              .map(e => ({ match: e.data.match, options: e.data.options, nextQuestionId: parseInt(e.target) }));
+            if (rules.length > 0) {
+              conditionalLogic.rules = rules;
+            }
+          }
+
           return {
             ...q,
             conditionalLogic: JSON.stringify(conditionalLogic)
@@ -336,6 +387,8 @@ interface EditQuestionDialogProps {
 function EditQuestionDialog({ open, onOpenChange, node, nodes, edges, onSave }: EditQuestionDialogProps) {
   const [questionData, setQuestionData] = useState(node.data);
   const [connections, setConnections] = useState<{[key: string]: string}>({});
+  // Checkbox rules being edited; the target is a node id
+  const [rules, setRules] = useState<(Omit<BranchRule, 'nextQuestionId'> & { target: string })[]>([]);
   
   // Initialize connections based on existing edges
   useEffect(() => {
@@ -374,7 +427,14 @@ function EditQuestionDialog({ open, onOpenChange, node, nodes, edges, onSave }:
     }
     
     setConnections(newConnections);
+    setRules(nodeEdges
+      .filter(e => e.sourceHandle === 'rules' && e.data)
+      .map(e => ({ match: e.data.match, options: e.data.options, target: e.target })));
   }, [node, edges, questionData]);
+
+  const updateRule = (index: number, changes: Partial<(typeof rules)[number]>) => {
+    setRules(rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
   
   // Handle saving the updated question and connections
   const handleSave = () => {
@@ -416,6 +476,23 @@ function EditQuestionDialog({ open, onOpenChange, node, nodes, edges, onSave }:
       });
     }
     
+    // Add rule connections for checkboxes, skipping unfinished rules
+    if (questionData.questionType === 'checkbox') {
+      rules
+        .filter(rule => rule.target && rule.options.length > 0)
+        .forEach((rule, index) => {
+          updatedEdges.push({
+            id: `e-${node.id}-rule-${index}-${rule.target}`,
+            source: node.id,
+            target: rule.target,
+            sourceHandle: 'rules',
+            label: ruleLabel(rule),
+            data: { match: rule.match, options: rule.options },
+            style: RULE_EDGE_STYLE
+          });
+        });
+    }
+
     onSave(updatedNode, updatedEdges);
   };
   
@@ -464,6 +541,74 @@ function EditQuestionDialog({ open, onOpenChange, node, nodes, edges, onSave }:
             </div>
           )}
           
+          {questionData.questionType === 'checkbox' && questionData.options && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium">Branching Rules</h3>
+              <p className="mb-3 text-xs text-gray-500">
+                The first rule the ticked options match decides the next question.
+              </p>
+              <div className="space-y-3">
+                {rules.map((rule, i) => (
+                  <div key={i} className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center space-x-2">
+                      <select
+                        className="p-2 border rounded-md"
+                        value={rule.match}
+                        onChange={(e) => updateRule(i, { match: e.target.value as BranchRule['match'] })}
+                      >
+                        <option value="any">If any of</option>
+                        <option value="all">If all of</option>
+                      </select>
+                      <span className="text-sm">are ticked, go to</span>
+                      <select
+                        className="p-2 border rounded-md flex-grow"
+                        value={rule.target}
+                        onChange={(e) => updateRule(i, { target: e.target.value })}
+                      >
+                        <option value="">Choose a question</option>
+                        {nodes.filter(n => n.id !== node.id).map(n => (
+                          <option key={n.id} value={n.id}>
+                            {n.data.questionText}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRules(rules.filter((_, j) => j !== i))}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      {questionData.options.split('\n').map((option: string) => (
+                        <label key={option} className="flex items-center space-x-1 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={rule.options.includes(option)}
+                            onChange={(e) => updateRule(i, {
+                              options: e.target.checked
+                                ? [...rule.options, option]
+                                : rule.options.filter(o => o !== option)
+                            })}
+                          />
+                          <span>{option}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRules([...rules, { match: 'any', options: [], target: '' }])}
+                >
+                  Add Rule
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div>
             <h3 className="mb-2 text-sm font-medium">Default Next Question</h3>
             <select 
@@ -2,8 +2,8 @@ import { Survey, SurveyWithTags } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Clock, Award, Users, ArrowRight, Bookmark, CheckCircle } from "lucide-react";
-import { format } from "date-fns";
+import { FileText, Clock, Award, Users, ArrowRight, Bookmark, CheckCircle, CalendarClock, Download } from "lucide-react";
+import { format, differenceInCalendarDays } from "date-fns";
 import { Link } from "wouter";
 
 // Extended survey type with analytics data
@@ -30,13 +30,39 @@ export function SurveyCard({ survey, userRole, partialResponse = false, complete
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>;
       case "draft":
         return <Badge variant="outline" className="text-gray-800">Draft</Badge>;
+      case "in_review":
+        return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">In Review</Badge>;
+      case "paused":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Paused</Badge>;
       case "closed":
         return <Badge variant="destructive">Closed</Badge>;
+      case "archived":
+        return <Badge variant="secondary">Archived</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
   };
 
+  // Countdown to the survey's scheduled end date, shown to doctors who haven't finished it
+  const getClosingBadge = () => {
+    if (userRole !== "doctor" || completed || !survey.endsAt) return null;
+    const endsAt = new Date(survey.endsAt);
+    if (endsAt <= new Date()) return null;
+
+    const days = differenceInCalendarDays(endsAt, new Date());
+    const label = days === 0 ? "Closes today" : days === 1 ? "Closes tomorrow" : `Closes in ${days} days`;
+    return (
+      <Badge
+        variant="outline"
+        className={`ml-2 ${days <= 3 ? "bg-red-50 text-red-700 border-red-200" : "bg-blue-50 text-blue-700 border-blue-200"}`}
+        title={format(endsAt, "MMM d, yyyy h:mm a")}
+      >
+        <CalendarClock className="h-3 w-3 mr-1" />
+        {label}
+      </Badge>
+    );
+  };
+
   // Format minutes to a readable time
   const formatTime = (minutes: number) => {
     if (minutes < 60) {
@@ -81,6 +107,7 @@ export function SurveyCard({ survey, userRole, partialResponse = false, complete
                   In Progress
                 </Badge>
               )}
+              {getClosingBadge()}
             </div>
             <div className="flex items-center space-x-2 text-sm text-gray-500">
               {getStatusBadge(survey.status)}
@@ -142,7 +169,14 @@ export function SurveyCard({ survey, userRole, partialResponse = false, complete
             )}
           </div>
 
-          <div className="mt-2 sm:mt-0">
+          <div className="mt-2 sm:mt-0 flex items-center gap-2">
+            {userRole === "client" && (
+              <Button variant="ghost" size="icon" asChild title="Download survey file">
+                <a href={`/api/surveys/${survey.id}/export`} download>
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+            )}
             {completed ? (
               <Button variant="outline" disabled className="space-x-2">
                 <CheckCircle className="h-4 w-4" />
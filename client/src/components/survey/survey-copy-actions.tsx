@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, LayoutTemplate, Loader2 } from "lucide-react";
+import type { Survey, SurveyTemplate } from "@shared/schema";
+
+interface SurveyCopyActionsProps {
+  survey: Survey;
+}
+
+export function SurveyCopyActions({ survey }: SurveyCopyActionsProps) {
+  const [, setLocation] = useLocation();
+  const [dialog, setDialog] = useState<"duplicate" | "template" | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+
+  const openDialog = (kind: "duplicate" | "template") => {
+    setTitle(kind === "duplicate" ? `Copy of ${survey.title}` : survey.title);
+    setDescription("");
+    setDialog(kind);
+  };
+
+  const duplicateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/surveys/${survey.id}/duplicate`, { title: title.trim() });
+      return await res.json();
+    },
+    onSuccess: (copy: Survey) => {
+      toast({
+        title: "Survey duplicated",
+        description: `"${copy.title}" has been created as a draft`,
+      });
+      setDialog(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
+      setLocation(`/client/surveys/${copy.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to duplicate survey",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/survey-templates", {
+        surveyId: survey.id,
+        name: title.trim(),
+        description: description.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (template: SurveyTemplate) => {
+      toast({
+        title: "Template saved",
+        description: `"${template.name}" is now in your template library`,
+      });
+      setDialog(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/survey-templates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = duplicateMutation.isPending || saveTemplateMutation.isPending;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => openDialog("duplicate")}>
+        <Copy className="mr-2 h-4 w-4" />
+        Duplicate
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => openDialog("template")}>
+        <LayoutTemplate className="mr-2 h-4 w-4" />
+        Save as Template
+      </Button>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{dialog === "duplicate" ? "Duplicate Survey" : "Save as Template"}</DialogTitle>
+            <DialogDescription>
+              {dialog === "duplicate"
+                ? "Copies the questions, flow, tags, redemption options and targeting into a new draft."
+                : "Saves the questions, flow, tags and redemption options so new surveys can start from them."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="survey-copy-title">{dialog === "duplicate" ? "Title" : "Template name"}</Label>
+              <Input id="survey-copy-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            {dialog === "template" && (
+              <div className="space-y-2">
+                <Label htmlFor="survey-template-description">Description (optional)</Label>
+                <Textarea
+                  id="survey-template-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => dialog === "duplicate" ? duplicateMutation.mutate() : saveTemplateMutation.mutate()}
+              disabled={isPending || title.trim() === ""}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {dialog === "duplicate" ? "Duplicate" : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Loader2, Upload } from "lucide-react";
+import type { Survey } from "@shared/schema";
+
+interface SurveyImportConflict {
+  path: string;
+  message: string;
+}
+
+interface SurveyImportResult {
+  survey: Survey;
+  conflicts: SurveyImportConflict[];
+}
+
+// A rejected import, with the conflicts the server found in the file
+class SurveyImportFailure extends Error {
+  constructor(message: string, public conflicts: SurveyImportConflict[]) {
+    super(message);
+  }
+}
+
+export function SurveyImportButton() {
+  const [, setLocation] = useLocation();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<{ title: string; survey?: Survey; conflicts: SurveyImportConflict[] } | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      // Read the body on failure too, since it lists the conflicts to fix
+      const res = await fetch("/api/surveys/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new SurveyImportFailure(body?.message ?? res.statusText, body?.conflicts ?? []);
+      }
+      return body as SurveyImportResult;
+    },
+    onSuccess: (result: SurveyImportResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
+      if (result.conflicts.length > 0) {
+        setReport({ title: "Survey imported with changes", survey: result.survey, conflicts: result.conflicts });
+        return;
+      }
+      toast({
+        title: "Survey imported",
+        description: `"${result.survey.title}" has been created as a draft`,
+      });
+      setLocation(`/client/surveys/${result.survey.id}`);
+    },
+    onError: (error: Error) => {
+      if (error instanceof SurveyImportFailure && error.conflicts.length > 0) {
+        setReport({ title: error.message, conflicts: error.conflicts });
+        return;
+      }
+      toast({
+        title: "Failed to import survey",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      importMutation.mutate(JSON.parse(await file.text()));
+    } catch (e) {
+      toast({
+        title: "Failed to import survey",
+        description: "The file isn't valid JSON",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+        {importMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        Import Survey
+      </Button>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>{report?.title}</DialogTitle>
+            <DialogDescription>
+              {report?.survey
+                ? "The survey was created as a draft. Review these changes before submitting it."
+                : "Nothing was imported. Fix these entries in the file and try again."}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-[320px] space-y-2 overflow-y-auto text-sm">
+            {report?.conflicts.map((conflict, index) => (
+              <li key={index}>
+                <code className="text-xs text-gray-500">{conflict.path}</code>
+                <p>{conflict.message}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReport(null)}>
+              Close
+            </Button>
+            {report?.survey && (
+              <Button onClick={() => setLocation(`/client/surveys/${report.survey!.id}`)}>
+                Open Survey
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { SURVEY_STATUS_TRANSITIONS } from "@shared/schema";
+import type { Survey, SurveyStatus, SurveyStatusTransition } from "@shared/schema";
+
+interface SurveyLifecycleCardProps {
+  survey: Survey;
+}
+
+type StatusHistoryEntry = SurveyStatusTransition & { actorName: string | null };
+
+// Button label for moving from the current status to each target
+const actionLabel = (from: string, to: SurveyStatus) => {
+  switch (to) {
+    case "in_review":
+      return "Submit for Review";
+    case "draft":
+      return "Back to Draft";
+    case "active":
+      if (from === "paused") return "Resume";
+      if (from === "closed") return "Reopen";
+      return "Publish";
+    case "paused":
+      return "Pause";
+    case "closed":
+      return "Close";
+    case "archived":
+      return "Archive";
+  }
+};
+
+const statusLabel = (status: string) => status.replace("_", " ");
+
+export function SurveyLifecycleCard({ survey }: SurveyLifecycleCardProps) {
+  const [pendingStatus, setPendingStatus] = useState<SurveyStatus | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: history = [], isLoading } = useQuery<StatusHistoryEntry[]>({
+    queryKey: [`/api/surveys/${survey.id}/status-history`],
+  });
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async (data: { status: SurveyStatus; reason?: string }) => {
+      // Submitting opens a new MLR review round rather than a plain status change
+      const res = data.status === "in_review"
+        ? await apiRequest("POST", `/api/surveys/${survey.id}/review`)
+        : await apiRequest("POST", `/api/surveys/${survey.id}/status`, data);
+      return await res.json();
+    },
+    onSuccess: (_, data) => {
+      toast({
+        title: "Status updated",
+        description: `The survey is now ${statusLabel(data.status)}`,
+      });
+      setPendingStatus(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys", survey.id] });
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${survey.id}/status-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${survey.id}/review`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${survey.id}/versions`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nextStatuses = SURVEY_STATUS_TRANSITIONS[survey.status as SurveyStatus] ?? [];
+
+  const openConfirm = (status: SurveyStatus) => {
+    setReason("");
+    setPendingStatus(status);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lifecycle</CardTitle>
+        <CardDescription>
+          Surveys move from draft through review to active, and can be paused, closed and archived.
+          To publish changes to a live survey, pause or close it and move it back to draft.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {nextStatuses.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => (
+              <Button
+                key={status}
+                variant={status === "archived" || status === "closed" ? "outline" : "default"}
+                onClick={() => openConfirm(status)}
+              >
+                {actionLabel(survey.status, status)}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">This survey is archived and can no longer change.</p>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">History</h3>
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500">No status changes yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {history.map(entry => (
+                <li key={entry.id} className="text-sm">
+                  <span className="capitalize">{statusLabel(entry.fromStatus)}</span>
+                  {" → "}
+                  <span className="capitalize font-medium">{statusLabel(entry.toStatus)}</span>
+                  <span className="text-gray-500">
+                    {" "}by {entry.actorName ?? "System"}
+                    {entry.createdAt && ` on ${format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}`}
+                  </span>
+                  {entry.reason && <p className="text-gray-500">{entry.reason}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={pendingStatus !== null} onOpenChange={(open) => !open && setPendingStatus(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{pendingStatus && actionLabel(survey.status, pendingStatus)}</DialogTitle>
+            <DialogDescription>
+              Move this survey from {statusLabel(survey.status)} to {pendingStatus && statusLabel(pendingStatus)}.
+              You can add a note for the history.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Note (optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setPendingStatus(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => pendingStatus && changeStatusMutation.mutate({
+                status: pendingStatus,
+                reason: reason.trim() || undefined,
+              })}
+              disabled={changeStatusMutation.isPending}
+            >
+              {changeStatusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
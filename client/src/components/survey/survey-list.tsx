@@ -126,8 +126,11 @@ export function SurveyList({ userRole, onCreateSurvey }: SurveyListProps) {
                 <SelectGroup>
                   <SelectItem value="all">All</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="in_review">In Review</SelectItem>
                   <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="paused">Paused</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
                 </SelectGroup>
               </SelectContent>
             </Select>
@@ -198,8 +201,11 @@ export function SurveyList({ userRole, onCreateSurvey }: SurveyListProps) {
                       <SelectGroup>
                         <SelectItem value="all">All</SelectItem>
                         <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="in_review">In Review</SelectItem>
                         <SelectItem value="active">Active</SelectItem>
+                        <SelectItem value="paused">Paused</SelectItem>
                         <SelectItem value="closed">Closed</SelectItem>
+                        <SelectItem value="archived">Archived</SelectItem>
                       </SelectGroup>
                     </SelectContent>
                   </Select>
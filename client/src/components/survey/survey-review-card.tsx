@@ -0,0 +1,359 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle, Loader2, MessageSquare } from "lucide-react";
+import { format } from "date-fns";
+import type {
+  Survey, SurveyContentSnapshot, SurveyReview, SurveyReviewComment, SurveyReviewDecision, ReviewRole
+} from "@shared/schema";
+import { CHOICE_QUESTION_TYPES } from "@shared/schema";
+import { parseMatrixOptions } from "./question-inputs";
+
+interface SurveyReviewCardProps {
+  survey: Survey;
+  // Reviewers approve or request changes; clients submit and resolve comments
+  mode: "client" | "reviewer";
+}
+
+type ReviewComment = SurveyReviewComment & { authorName: string | null };
+
+interface SurveyReviewDetail {
+  review: SurveyReview | null;
+  snapshot: SurveyContentSnapshot | null;
+  requiredRoles: ReviewRole[];
+  decisions: (SurveyReviewDecision & { reviewerName: string | null })[];
+  comments: ReviewComment[];
+}
+
+const getReviewStatusBadge = (status: string) => {
+  switch (status) {
+    case "approved":
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Approved</Badge>;
+    case "changes_requested":
+      return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Changes requested</Badge>;
+    case "withdrawn":
+      return <Badge variant="outline" className="text-gray-500">Withdrawn</Badge>;
+    default:
+      return <Badge variant="outline" className="text-blue-600 border-blue-400">Pending</Badge>;
+  }
+};
+
+function CommentThread({
+  comments,
+  canResolve,
+  onResolve,
+}: {
+  comments: ReviewComment[];
+  canResolve: boolean;
+  onResolve: (comment: ReviewComment) => void;
+}) {
+  if (comments.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-2">
+      {comments.map(comment => (
+        <li
+          key={comment.id}
+          className={`rounded-md border p-2 text-sm ${comment.resolved ? "bg-gray-50 text-gray-500" : "bg-amber-50"}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{comment.authorName ?? "Unknown"}</span>
+            {canResolve ? (
+              <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onResolve(comment)}>
+                {comment.resolved ? "Reopen" : "Resolve"}
+              </Button>
+            ) : comment.resolved && (
+              <span className="text-xs">Resolved</span>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap">{comment.body}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function CommentForm({ isPending, onSubmit }: { isPending: boolean; onSubmit: (body: string) => void }) {
+  const [body, setBody] = useState("");
+
+  return (
+    <div className="mt-2 flex gap-2">
+      <Textarea
+        rows={1}
+        placeholder="Add a comment"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <Button
+        variant="outline"
+        disabled={isPending || body.trim() === ""}
+        onClick={() => {
+          onSubmit(body.trim());
+          setBody("");
+        }}
+      >
+        Comment
+      </Button>
+    </div>
+  );
+}
+
+export function SurveyReviewCard({ survey, mode }: SurveyReviewCardProps) {
+  const [decisionComment, setDecisionComment] = useState("");
+  const reviewKey = [`/api/surveys/${survey.id}/review`];
+
+  const { data: detail, isLoading } = useQuery<SurveyReviewDetail>({
+    queryKey: reviewKey,
+  });
+
+  const invalidateReview = () => {
+    queryClient.invalidateQueries({ queryKey: reviewKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/surveys", survey.id] });
+    queryClient.invalidateQueries({ queryKey: [`/api/surveys/${survey.id}/status-history`] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/surveys/${survey.id}/review`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Submitted for review",
+        description: "Your reviewers have been asked to sign off",
+      });
+      invalidateReview();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit for review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (data: { decision: "approved" | "changes_requested"; comment?: string }) => {
+      const res = await apiRequest("POST", `/api/surveys/${survey.id}/review/decision`, data);
+      return await res.json();
+    },
+    onSuccess: (_, data) => {
+      toast({
+        title: data.decision === "approved" ? "Survey approved" : "Changes requested",
+        description: "Your decision has been recorded",
+      });
+      setDecisionComment("");
+      invalidateReview();
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/queue"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to record decision",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (data: { questionId: number | null; body: string }) => {
+      const res = await apiRequest("POST", `/api/surveys/${survey.id}/review/comments`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (comment: ReviewComment) => {
+      const res = await apiRequest("PUT", `/api/surveys/${survey.id}/review/comments/${comment.id}`, {
+        resolved: !comment.resolved,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const review = detail?.review ?? null;
+  const comments = detail?.comments ?? [];
+  const isPending = review?.status === "pending";
+  const canSubmit = mode === "client" && survey.status === "draft";
+  const commentsFor = (questionId: number | null) => comments.filter(c => c.questionId === questionId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>
+            MLR Review{review && ` — Round ${review.round}`}
+          </CardTitle>
+          {review && getReviewStatusBadge(review.status)}
+        </div>
+        <CardDescription>
+          {review
+            ? `Submitted ${review.submittedAt ? format(new Date(review.submittedAt), "MMM d, yyyy h:mm a") : ""}. ` +
+              "Doctors receive the content exactly as it was approved."
+            : "This survey hasn't been submitted for medical, legal and regulatory review yet."}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {detail && detail.requiredRoles.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Sign-off</h3>
+            <div className="flex flex-wrap gap-2">
+              {detail.requiredRoles.map(role => {
+                const decision = detail.decisions.find(d => d.reviewRole === role && d.decision === "approved");
+                return (
+                  <Badge key={role} variant="outline" className={decision ? "border-green-400 text-green-700" : ""}>
+                    {decision && <CheckCircle className="mr-1 h-3 w-3" />}
+                    <span className="capitalize">{role}</span>
+                  </Badge>
+                );
+              })}
+            </div>
+            {detail.decisions.map(decision => (
+              <p key={decision.id} className="text-sm text-gray-600">
+                <span className="font-medium">{decision.reviewerName ?? "Reviewer"}</span>
+                {" "}({decision.reviewRole}){" "}
+                {decision.decision === "approved" ? "approved" : "requested changes"}
+                {decision.comment && `: ${decision.comment}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {detail?.snapshot && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium flex items-center">
+                <MessageSquare className="mr-2 h-4 w-4" />
+                General comments
+              </h3>
+              <CommentThread
+                comments={commentsFor(null)}
+                canResolve={mode === "client"}
+                onResolve={(comment) => resolveMutation.mutate(comment)}
+              />
+              {isPending && (
+                <CommentForm
+                  isPending={commentMutation.isPending}
+                  onSubmit={(body) => commentMutation.mutate({ questionId: null, body })}
+                />
+              )}
+            </div>
+
+            {detail.snapshot.questions.map((question, index) => (
+              <div key={question.id} className="rounded-md border p-3">
+                <p className="text-sm font-medium">
+                  {index + 1}. {question.questionText}
+                  {question.required && <span className="text-red-500"> *</span>}
+                </p>
+                <p className="text-xs text-gray-500 capitalize">{question.questionType}</p>
+                {question.options && CHOICE_QUESTION_TYPES.includes(question.questionType) && (
+                  <ul className="mt-1 list-disc pl-5 text-sm text-gray-600">
+                    {question.options.split("\n").map(option => (
+                      <li key={option}>{option}</li>
+                    ))}
+                  </ul>
+                )}
+                {question.questionType === "matrix" && parseMatrixOptions(question.options) && (
+                  <p className="mt-1 text-sm text-gray-600">
+                    Rows: {parseMatrixOptions(question.options)!.rows.join(", ")}
+                    <br />
+                    Columns: {parseMatrixOptions(question.options)!.columns.join(", ")}
+                  </p>
+                )}
+                <CommentThread
+                  comments={commentsFor(question.id)}
+                  canResolve={mode === "client"}
+                  onResolve={(comment) => resolveMutation.mutate(comment)}
+                />
+                {isPending && (
+                  <CommentForm
+                    isPending={commentMutation.isPending}
+                    onSubmit={(body) => commentMutation.mutate({ questionId: question.id, body })}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {canSubmit && (
+        <CardFooter>
+          <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending}>
+            {submitMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {review ? "Resubmit for Review" : "Submit for Review"}
+          </Button>
+        </CardFooter>
+      )}
+
+      {mode === "reviewer" && isPending && (
+        <CardFooter className="flex flex-col items-stretch gap-2">
+          <Textarea
+            placeholder="Decision note (required when requesting changes)"
+            value={decisionComment}
+            onChange={(e) => setDecisionComment(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={decisionMutation.isPending || decisionComment.trim() === ""}
+              onClick={() => decisionMutation.mutate({
+                decision: "changes_requested",
+                comment: decisionComment.trim(),
+              })}
+            >
+              Request Changes
+            </Button>
+            <Button
+              disabled={decisionMutation.isPending}
+              onClick={() => decisionMutation.mutate({
+                decision: "approved",
+                comment: decisionComment.trim() || undefined,
+              })}
+            >
+              {decisionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Approve
+            </Button>
+          </div>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { Survey } from "@shared/schema";
+
+export interface SurveyScheduleValue {
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+interface SurveyScheduleCardProps {
+  survey: Survey;
+  isSaving: boolean;
+  onSave: (value: SurveyScheduleValue) => void;
+}
+
+// datetime-local inputs work in the browser's local time without a timezone suffix
+const toInput = (value: Date | string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "");
+
+const toDate = (value: string) => (value.trim() === "" ? null : new Date(value));
+
+export function SurveyScheduleCard({ survey, isSaving, onSave }: SurveyScheduleCardProps) {
+  const [startsAt, setStartsAt] = useState(toInput(survey.startsAt));
+  const [endsAt, setEndsAt] = useState(toInput(survey.endsAt));
+
+  useEffect(() => {
+    setStartsAt(toInput(survey.startsAt));
+    setEndsAt(toInput(survey.endsAt));
+  }, [survey.startsAt, survey.endsAt]);
+
+  const startDate = toDate(startsAt);
+  const endDate = toDate(endsAt);
+  const isValid = !startDate || !endDate || endDate > startDate;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Schedule</CardTitle>
+        <CardDescription>
+          Once approved, the survey is published automatically at its opening date and
+          closes at its end date; it only takes responses in between. Leave either blank
+          to leave that side open.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="survey-starts-at">Opens</Label>
+            <Input
+              id="survey-starts-at"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="survey-ends-at">Closes</Label>
+            <Input
+              id="survey-ends-at"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+          </div>
+        </div>
+        {!isValid && (
+          <p className="mt-3 text-sm text-red-600">The closing date must be after the opening date.</p>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => onSave({ startsAt: startDate, endsAt: endDate })}
+          disabled={!isValid || isSaving}
+        >
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Schedule
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -1,10 +1,12 @@
 // client/src/components/survey/survey-taking-flow.tsx
 import React, { useState, useEffect } from 'react';
-import { SurveyQuestion } from '@shared/schema';
+import { BranchRule, CheckboxAnswer, MatrixAnswer, QuestionValidation, SurveyQuestion } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { CheckboxInput, MatrixInput, NpsInput, NumericInput, RankingInput, parseMatrixOptions } from './question-inputs';
 
 interface SurveyTakingFlowProps {
   questions: SurveyQuestion[];
@@ -32,6 +34,66 @@ export function SurveyTakingFlow({ questions, onSubmit, onSave }: SurveyTakingFl
   
   // Get the current question object
   const currentQuestion = questions.find(q => q.id === currentQuestionId);
+
+  // The answer the Next button submits. Rankings start in the listed order, so leaving
+  // them untouched is an answer too.
+  const pendingAnswer = (question: SurveyQuestion) => {
+    const answer = responses[question.id];
+    if (question.questionType === 'ranking' && !answer) {
+      return question.options ? question.options.split('\n') : [];
+    }
+    if (question.questionType === 'checkbox') {
+      return answer || { selected: [] };
+    }
+    if (question.questionType === 'matrix') {
+      return answer || {};
+    }
+    // Zero is a valid number and score
+    if (question.questionType === 'numeric' || question.questionType === 'nps') {
+      return answer ?? '';
+    }
+    return answer || '';
+  };
+
+  const rulesOf = (question: SurveyQuestion): QuestionValidation => {
+    try {
+      return question.validation ? JSON.parse(question.validation) : {};
+    } catch (e) {
+      return {};
+    }
+  };
+
+  // Whether Next can be pressed. Checkbox answers must respect the selection limits, and a
+  // ticked "Other" needs its text. A started matrix needs every row answered, and numbers
+  // must fit the question's bounds.
+  const canContinue = (question: SurveyQuestion) => {
+    const answer = pendingAnswer(question);
+    if (question.questionType === 'numeric') {
+      if (answer === '') return !question.required;
+      const rules = rulesOf(question);
+      return Number.isFinite(answer) &&
+        (!rules.integer || Number.isInteger(answer)) &&
+        (rules.min === undefined || answer >= rules.min) &&
+        (rules.max === undefined || answer <= rules.max);
+    }
+    if (question.questionType === 'matrix') {
+      const rows = parseMatrixOptions(question.options)?.rows ?? [];
+      const answered = rows.filter(row => ((answer as MatrixAnswer)[row] ?? []).length > 0).length;
+      return answered === 0 ? !question.required : answered === rows.length;
+    }
+    if (question.questionType !== 'checkbox') {
+      return !question.required || !!answer;
+    }
+
+    const { selected, other } = answer as CheckboxAnswer;
+    if (other !== undefined && !other.trim()) return false;
+    const count = selected.length + (other !== undefined ? 1 : 0);
+    if (count === 0) return !question.required;
+
+    const rules = rulesOf(question);
+    return (rules.minSelections === undefined || count >= rules.minSelections) &&
+      (rules.maxSelections === undefined || count <= rules.maxSelections);
+  };
   
   // Find the next question based on conditional logic
   // Lines to modify in client/src/components/survey/survey-taking-flow.tsx
@@ -50,6 +112,15 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
     if (currentQ.questionType === 'mcq' && logic.branches && logic.branches[answer]) {
       return parseInt(logic.branches[answer]);
     }
+
+    // For checkbox questions, the first rule the ticked options satisfy wins
+    if (currentQ.questionType === 'checkbox' && logic.rules) {
+      const selected: string[] = answer?.selected ?? [];
+      const rule = (logic.rules as BranchRule[]).find(r => r.match === 'all'
+        ? r.options.every(option => selected.includes(option))
+        : r.options.some(option => selected.includes(option)));
+      if (rule) return rule.nextQuestionId;
+    }
     
     // Otherwise, use the default next question
     return logic.nextQuestionId ? parseInt(logic.nextQuestionId) : null;
@@ -62,10 +133,8 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
   // Handle question answer
   const handleAnswer = (answer: any) => {
     // Save the response
-    setResponses(prev => ({
-      ...prev,
-      [currentQuestionId!]: answer
-    }));
+    const answeredResponses = { ...responses, [currentQuestionId!]: answer };
+    setResponses(answeredResponses);
     
     // Auto-save progress
     const updatedResponses = [
@@ -86,7 +155,7 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
         setQuestionPath(prev => [...prev, nextQuestionId]);
       } else {
         // If no next question, we've reached the end
-        handleSubmit();
+        handleSubmit(answeredResponses);
       }
     }
   };
@@ -102,12 +171,15 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
     }
   };
   
-  // Handle survey submission
-  const handleSubmit = () => {
-    const formattedResponses = Object.entries(responses).map(([qId, response]) => ({
-      questionId: parseInt(qId),
-      response
-    }));
+  // Handle survey submission. Only questions on the path taken are submitted; answers left
+  // behind after going back and choosing another branch would be rejected by the server.
+  const handleSubmit = (answeredResponses: {[key: number]: any}) => {
+    const formattedResponses = questionPath
+      .filter(qId => qId in answeredResponses)
+      .map(qId => ({
+        questionId: qId,
+        response: answeredResponses[qId]
+      }));
     
     onSubmit(formattedResponses);
   };
@@ -166,6 +238,70 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
           </div>
         )}
         
+        {currentQuestion.questionType === 'ranking' && currentQuestion.options && (
+          <RankingInput
+            options={currentQuestion.options.split('\n')}
+            value={responses[currentQuestion.id]}
+            onChange={(ranking) => setResponses(prev => ({
+              ...prev,
+              [currentQuestion.id]: ranking
+            }))}
+          />
+        )}
+
+        {currentQuestion.questionType === 'checkbox' && currentQuestion.options && (
+          <CheckboxInput
+            options={currentQuestion.options.split('\n')}
+            allowOther={rulesOf(currentQuestion).allowOther}
+            value={responses[currentQuestion.id]}
+            onChange={(answer) => setResponses(prev => ({
+              ...prev,
+              [currentQuestion.id]: answer
+            }))}
+          />
+        )}
+
+        {currentQuestion.questionType === 'matrix' && parseMatrixOptions(currentQuestion.options) && (
+          <MatrixInput
+            matrix={parseMatrixOptions(currentQuestion.options)!}
+            value={responses[currentQuestion.id]}
+            onChange={(answer) => setResponses(prev => ({
+              ...prev,
+              [currentQuestion.id]: answer
+            }))}
+          />
+        )}
+
+        {currentQuestion.questionType === 'numeric' && (
+          <NumericInput
+            rules={rulesOf(currentQuestion)}
+            value={responses[currentQuestion.id]}
+            onChange={(value) => setResponses(prev => ({
+              ...prev,
+              [currentQuestion.id]: value
+            }))}
+          />
+        )}
+
+        {currentQuestion.questionType === 'date' && (
+          <Input
+            type="date"
+            className="max-w-[220px]"
+            value={responses[currentQuestion.id] || ''}
+            onChange={(e) => setResponses(prev => ({
+              ...prev,
+              [currentQuestion.id]: e.target.value
+            }))}
+          />
+        )}
+
+        {currentQuestion.questionType === 'nps' && (
+          <NpsInput
+            value={responses[currentQuestion.id]}
+            onChange={(score) => handleAnswer(score)}
+          />
+        )}
+
         {currentQuestion.questionType === 'mcq' && currentQuestion.options && (
           <div className="space-y-3 py-2">
             {currentQuestion.options.split('\n').map((option, index) => (
@@ -191,10 +327,10 @@ const findNextQuestion = (currentQ: SurveyQuestion, answer: any): number | null
           Back
         </Button>
         
-        {currentQuestion.questionType !== 'scale' && currentQuestion.questionType !== 'mcq' && (
+        {!['scale', 'mcq', 'nps'].includes(currentQuestion.questionType) && (
           <Button 
-            onClick={() => handleAnswer(responses[currentQuestion.id] || '')}
-            disabled={currentQuestion.required && !responses[currentQuestion.id]}
+            onClick={() => handleAnswer(pendingAnswer(currentQuestion))}
+            disabled={!canContinue(currentQuestion)}
           >
             Next
           </Button>
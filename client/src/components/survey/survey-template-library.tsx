@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Trash2 } from "lucide-react";
+import type { Survey, SurveyBlueprint, SurveyTemplate } from "@shared/schema";
+
+const questionCount = (template: SurveyTemplate) => {
+  try {
+    return (JSON.parse(template.content) as SurveyBlueprint).questions.length;
+  } catch (e) {
+    return 0;
+  }
+};
+
+export function SurveyTemplateLibrary() {
+  const [, setLocation] = useLocation();
+  const [selected, setSelected] = useState<SurveyTemplate | null>(null);
+  const [title, setTitle] = useState("");
+
+  const { data: templates, isLoading } = useQuery<SurveyTemplate[]>({
+    queryKey: ["/api/survey-templates"],
+  });
+
+  const createSurveyMutation = useMutation({
+    mutationFn: async (template: SurveyTemplate) => {
+      const res = await apiRequest("POST", `/api/survey-templates/${template.id}/surveys`, { title: title.trim() });
+      return await res.json();
+    },
+    onSuccess: (survey: Survey) => {
+      toast({
+        title: "Survey created",
+        description: `"${survey.title}" has been created from the template`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
+      setLocation(`/client/surveys/${survey.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create survey",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: number) => {
+      const res = await apiRequest("DELETE", `/api/survey-templates/${templateId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Template deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/survey-templates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openTemplate = (template: SurveyTemplate) => {
+    try {
+      setTitle((JSON.parse(template.content) as SurveyBlueprint).title);
+    } catch (e) {
+      setTitle(template.name);
+    }
+    setSelected(template);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Template Library</CardTitle>
+        <CardDescription>
+          Start a new survey from saved content. Save any survey as a template from its details page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : !templates || templates.length === 0 ? (
+          <p className="text-sm text-gray-500">No templates yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {templates.map(template => (
+              <li key={template.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{template.name}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {questionCount(template)} questions
+                    {template.description && ` · ${template.description}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={() => openTemplate(template)}>
+                    Use Template
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteTemplateMutation.mutate(template.id)}
+                    disabled={deleteTemplateMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>New Survey from Template</DialogTitle>
+            <DialogDescription>
+              The new draft starts with the template's questions, flow, tags and redemption options.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="template-survey-title">Survey title</Label>
+            <Input id="template-survey-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSelected(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => selected && createSurveyMutation.mutate(selected)}
+              disabled={createSurveyMutation.isPending || title.trim() === ""}
+            >
+              {createSurveyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Survey
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { SurveyContentSnapshot, SurveyQuestion, SurveyVersion } from "@shared/schema";
+
+export type SurveyVersionSummary = Omit<SurveyVersion, "snapshot"> & {
+  content: SurveyContentSnapshot;
+  publishedByName: string | null;
+  responseCount: number;
+  isCurrent: boolean;
+};
+
+export interface SurveyVersionHistory {
+  versions: SurveyVersionSummary[];
+  hasUnpublishedChanges: boolean;
+  unversionedResponseCount: number;
+}
+
+interface SurveyVersionsCardProps {
+  surveyId: number;
+}
+
+// Questions to chart across every version: each question as it was last published, with
+// the options of all versions so older answers still count. Surveys never published fall
+// back to their editable questions.
+export function mergeVersionQuestions(versions: SurveyVersionSummary[], fallback: SurveyQuestion[]): SurveyQuestion[] {
+  if (versions.length === 0) return fallback;
+
+  const merged = new Map<number, SurveyQuestion>();
+  // Versions come newest first, so the first definition seen wins
+  for (const version of versions) {
+    for (const question of version.content.questions) {
+      const existing = merged.get(question.id);
+      if (!existing) {
+        merged.set(question.id, question);
+      } else if (existing.options && question.options && existing.questionType === question.questionType) {
+        const options = existing.options.split("\n");
+        const extra = question.options.split("\n").filter(option => !options.includes(option));
+        merged.set(question.id, { ...existing, options: [...options, ...extra].join("\n") });
+      }
+    }
+  }
+  return Array.from(merged.values()).sort((a, b) => a.orderIndex - b.orderIndex);
+}
+
+export function SurveyVersionsCard({ surveyId }: SurveyVersionsCardProps) {
+  const { data: history, isLoading } = useQuery<SurveyVersionHistory>({
+    queryKey: [`/api/surveys/${surveyId}/versions`],
+  });
+
+  const versions = history?.versions ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Versions</CardTitle>
+        <CardDescription>
+          Publishing freezes the questions and flow. Edits after that become the next version,
+          which doctors see once it has been reviewed and published; every response records
+          the version it answered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        ) : (
+          <>
+            {history?.hasUnpublishedChanges && versions.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                <p>
+                  This survey has unpublished changes. Move it back to draft and submit it for
+                  review to publish them as version {versions[0].version + 1}.
+                </p>
+              </div>
+            )}
+
+            {versions.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing has been published yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {versions.map(version => (
+                  <li key={version.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <span className="font-medium">Version {version.version}</span>
+                      {version.isCurrent && (
+                        <Badge className="ml-2 bg-green-100 text-green-800 hover:bg-green-100">Live</Badge>
+                      )}
+                      <p className="text-gray-500">
+                        {version.content.questions.length} questions · published
+                        {version.publishedAt && ` ${format(new Date(version.publishedAt), "MMM d, yyyy")}`}
+                        {version.publishedByName && ` by ${version.publishedByName}`}
+                      </p>
+                    </div>
+                    <span className="text-gray-500">
+                      {version.responseCount} {version.responseCount === 1 ? "response" : "responses"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {!!history?.unversionedResponseCount && (
+              <p className="text-xs text-gray-500">
+                {history.unversionedResponseCount} earlier responses were recorded before versioning.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Users } from "lucide-react";
+import type { SurveyTargeting } from "@shared/schema";
+
+interface TargetingCardProps {
+  surveyId: number;
+}
+
+interface TargetingResponse {
+  targeting: SurveyTargeting | null;
+  options: {
+    specialties: string[];
+    representatives: { id: number; name: string }[];
+    doctors: { id: number; name: string; specialty: string | null }[];
+    tags: string[];
+  };
+}
+
+interface TargetingPreview {
+  matchingDoctors: number;
+  totalDoctors: number;
+}
+
+const emptyTargeting: SurveyTargeting = { specialties: [], representativeIds: [], doctorIds: [], doctorTags: [] };
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter(v => v !== value);
+}
+
+interface OptionListProps<T> {
+  title: string;
+  emptyText: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+function OptionList<T extends string | number>({ title, emptyText, options, selected, onChange }: OptionListProps<T>) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      {options.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <ScrollArea className="max-h-48 rounded-md border p-3">
+          <div className="space-y-2">
+            {options.map(option => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${title}-${option.value}`}
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) => onChange(toggle(selected, option.value, checked === true))}
+                />
+                <Label htmlFor={`${title}-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
+
+export function TargetingCard({ surveyId }: TargetingCardProps) {
+  const [draft, setDraft] = useState<SurveyTargeting>(emptyTargeting);
+
+  const { data, isLoading } = useQuery<TargetingResponse>({
+    queryKey: [`/api/surveys/${surveyId}/targeting`],
+  });
+
+  useEffect(() => {
+    setDraft(data?.targeting ?? emptyTargeting);
+  }, [data]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (targeting: SurveyTargeting): Promise<TargetingPreview> => {
+      const res = await apiRequest("POST", `/api/surveys/${surveyId}/targeting/preview`, targeting);
+      return await res.json();
+    },
+  });
+
+  // Refresh the match count shortly after the rules stop changing
+  const { mutate: preview } = previewMutation;
+  useEffect(() => {
+    if (!data) return;
+    const timer = setTimeout(() => preview(draft), 300);
+    return () => clearTimeout(timer);
+  }, [draft, data, preview]);
+
+  const saveTargetingMutation = useMutation({
+    mutationFn: async (targeting: SurveyTargeting) => {
+      const res = await apiRequest("PUT", `/api/surveys/${surveyId}/targeting`, targeting);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Targeting saved",
+        description: "Only matching doctors will see this survey",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/surveys/${surveyId}/targeting`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/surveys", surveyId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save targeting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (changes: Partial<SurveyTargeting>) => setDraft(current => ({ ...current, ...changes }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Targeting</CardTitle>
+        <CardDescription>
+          Choose which of your doctors see this survey. A doctor must match every section
+          you pick values in; leave everything unticked to show it to all your doctors.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <OptionList
+                title="Specialties"
+                emptyText="None of your doctors have a specialty set."
+                options={data.options.specialties.map(specialty => ({ value: specialty, label: specialty }))}
+                selected={draft.specialties}
+                onChange={(specialties) => update({ specialties })}
+              />
+              <OptionList
+                title="Doctor tags"
+                emptyText="Tag doctors from their profile page to target them here."
+                options={data.options.tags.map(tag => ({ value: tag, label: tag }))}
+                selected={draft.doctorTags}
+                onChange={(doctorTags) => update({ doctorTags })}
+              />
+              <OptionList
+                title="Representatives' doctors"
+                emptyText="You have no representatives."
+                options={data.options.representatives.map(rep => ({ value: rep.id, label: rep.name }))}
+                selected={draft.representativeIds}
+                onChange={(representativeIds) => update({ representativeIds })}
+              />
+              <OptionList
+                title="Specific doctors"
+                emptyText="You have no doctors yet."
+                options={data.options.doctors.map(doctor => ({
+                  value: doctor.id,
+                  label: doctor.specialty ? `${doctor.name} (${doctor.specialty})` : doctor.name,
+                }))}
+                selected={draft.doctorIds}
+                onChange={(doctorIds) => update({ doctorIds })}
+              />
+            </div>
+
+            <div className="flex items-center space-x-2 text-sm">
+              <Users className="h-4 w-4 text-gray-500" />
+              {previewMutation.data ? (
+                <span>
+                  <span className="font-medium">{previewMutation.data.matchingDoctors}</span> of{" "}
+                  {previewMutation.data.totalDoctors} doctors match these rules
+                </span>
+              ) : (
+                <span className="text-gray-500">Counting matching doctors...</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          onClick={() => saveTargetingMutation.mutate(draft)}
+          disabled={!data || saveTargetingMutation.isPending}
+        >
+          {saveTargetingMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Targeting
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
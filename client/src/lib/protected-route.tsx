@@ -33,12 +33,15 @@ export function ProtectedRoute({
   // Admin users can access client routes
   if (
     (path.startsWith("/client") && user.role !== "client" && user.role !== "admin") ||
-    (path.startsWith("/rep") && user.role !== "rep" && user.role !== "admin") ||
-    (path.startsWith("/doctor") && user.role !== "doctor" && user.role !== "admin")
+    (path.startsWith("/rep/") && user.role !== "rep" && user.role !== "admin") ||
+    (path.startsWith("/reviewer") && user.role !== "reviewer") ||
+    (path.startsWith("/doctor") && user.role !== "doctor" && user.role !== "admin") ||
+    (path.startsWith("/admin") && user.role !== "admin")
   ) {
     const redirectPath = 
       user.role === "client" ? "/client/dashboard" : 
       user.role === "rep" ? "/rep/dashboard" :
+      user.role === "reviewer" ? "/reviewer/dashboard" :
       user.role === "doctor" ? "/doctor/dashboard" : "/";
       
     return (
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { rankingStats } from "./ranking";
+
+test("averages each option's position and counts first choices", () => {
+  const stats = rankingStats(["A", "B", "C"], [
+    ["A", "B", "C"],
+    ["B", "A", "C"],
+    ["A", "C", "B"],
+    ["A", "B", "C"],
+  ]);
+  assert.deepEqual(stats, [
+    { option: "A", averageRank: 1.25, firstChoices: 3, firstChoiceShare: 75 },
+    { option: "B", averageRank: 2, firstChoices: 1, firstChoiceShare: 25 },
+    { option: "C", averageRank: 2.75, firstChoices: 0, firstChoiceShare: 0 },
+  ]);
+});
+
+test("lists options best average rank first and unranked options last", () => {
+  const stats = rankingStats(["Unranked", "Last", "First"], [
+    ["First", "Last"],
+    ["First", "Last"],
+  ]);
+  assert.deepEqual(stats.map(stat => stat.option), ["First", "Last", "Unranked"]);
+  assert.equal(stats[2].averageRank, null);
+});
+
+test("reports no first choices when nobody has ranked yet", () => {
+  assert.deepEqual(rankingStats(["A", "B"], []), [
+    { option: "A", averageRank: null, firstChoices: 0, firstChoiceShare: 0 },
+    { option: "B", averageRank: null, firstChoices: 0, firstChoiceShare: 0 },
+  ]);
+});
@@ -0,0 +1,29 @@
+export interface RankingStat {
+  option: string;
+  // Mean position across the rankings that include the option, 1 being best
+  averageRank: number | null;
+  firstChoices: number;
+  // Percentage of rankings that put the option first
+  firstChoiceShare: number;
+}
+
+// Average position of each option and how often it was ranked first, best average rank
+// first. Options nobody ranked come last.
+export function rankingStats(options: string[], rankings: string[][]): RankingStat[] {
+  return options
+    .map(option => {
+      const positions = rankings
+        .map(ranking => ranking.indexOf(option))
+        .filter(position => position >= 0);
+      const firstChoices = rankings.filter(ranking => ranking[0] === option).length;
+      return {
+        option,
+        averageRank: positions.length > 0
+          ? positions.reduce((sum, position) => sum + position + 1, 0) / positions.length
+          : null,
+        firstChoices,
+        firstChoiceShare: rankings.length > 0 ? Math.round((firstChoices / rankings.length) * 100) : 0,
+      };
+    })
+    .sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity));
+}
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Format an amount in paise as rupees, e.g. 12550 -> "₹125.50"
+export function formatPaise(paise: number) {
+  return `₹${(paise / 100).toLocaleString("en-IN", {
+    minimumFractionDigits: paise % 100 === 0 ? 0 : 2,
+    maximumFractionDigits: 2,
+  })}`
+}
@@ -0,0 +1,354 @@
+import { MainLayout } from "@/components/layout/main-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { Loader2, Check, X, RotateCcw, Eye, CreditCard } from "lucide-react";
+import { format } from "date-fns";
+import { formatPaise } from "@/lib/utils";
+import type { Redemption } from "@shared/schema";
+
+type AdminRedemption = Redemption & {
+  doctorName: string | null;
+  doctorEmail: string | null;
+  surveyTitle: string | null;
+};
+
+type ReviewAction = "approve" | "reject" | "requeue";
+
+interface BulkResult {
+  succeeded: number;
+  failed: number;
+  results: { id: number; success: boolean; status?: string; message?: string }[];
+}
+
+const STATUS_TABS = [
+  { value: "pending", label: "Awaiting Review" },
+  { value: "approved", label: "Approved" },
+  { value: "dead_letter", label: "Dead Letter" },
+  { value: "failed", label: "Failed" },
+  { value: "reversed", label: "Reversed" },
+  { value: "processed", label: "Processing" },
+  { value: "completed", label: "Completed" },
+  { value: "rejected", label: "Rejected" },
+];
+
+// Actions an admin can take on redemptions in each status (mirrors redemptionReviewService)
+const ACTIONS_BY_STATUS: Record<string, ReviewAction[]> = {
+  pending: ["approve", "reject"],
+  dead_letter: ["requeue", "reject"],
+  failed: ["requeue"],
+  reversed: ["requeue"],
+};
+
+export default function AdminRedemptions() {
+  const [status, setStatus] = useState("pending");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [rejectIds, setRejectIds] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [viewing, setViewing] = useState<AdminRedemption | null>(null);
+
+  const { data: redemptions, isLoading } = useQuery<AdminRedemption[]>({
+    queryKey: [`/api/admin/redemptions?status=${status}`],
+  });
+
+  const { data: counts } = useQuery<Record<string, number>>({
+    queryKey: ["/api/admin/redemptions/counts"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ action, ids, reason }: { action: ReviewAction; ids: number[]; reason?: string }) => {
+      const res = await apiRequest("POST", "/api/admin/redemptions/bulk", { action, ids, reason });
+      return (await res.json()) as BulkResult;
+    },
+    onSuccess: (result, { action }) => {
+      const failures = result.results.filter(r => !r.success);
+      toast({
+        title: `${result.succeeded} ${result.succeeded === 1 ? "redemption" : "redemptions"} ${
+          action === "approve" ? "approved" : action === "reject" ? "rejected" : "requeued"
+        }`,
+        description: failures.length > 0
+          ? failures.map(f => `#${f.id}: ${f.message}`).join("; ")
+          : undefined,
+        variant: failures.length > 0 ? "destructive" : "default",
+      });
+      setSelectedIds([]);
+      setRejectIds(null);
+      setRejectReason("");
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith("/api/admin/redemptions"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update redemptions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actions = ACTIONS_BY_STATUS[status] || [];
+  const rows = redemptions || [];
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  const changeStatus = (value: string) => {
+    setStatus(value);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(selected => selected !== id));
+  };
+
+  const runAction = (action: ReviewAction, ids: number[]) => {
+    if (action === "reject") {
+      setRejectIds(ids);
+      return;
+    }
+    reviewMutation.mutate({ action, ids });
+  };
+
+  const formatDate = (date: string | Date | null) => {
+    if (!date) return "—";
+    try {
+      return format(new Date(date), "MMM d, yyyy HH:mm");
+    } catch (e) {
+      return "—";
+    }
+  };
+
+  const formatPayoutResponse = (response: string | null) => {
+    if (!response) return "No payout response recorded";
+    try {
+      return JSON.stringify(JSON.parse(response), null, 2);
+    } catch (e) {
+      return response;
+    }
+  };
+
+  const actionButton = (action: ReviewAction, ids: number[], size: "sm" | "default" = "sm") => {
+    const disabled = ids.length === 0 || reviewMutation.isPending;
+    switch (action) {
+      case "approve":
+        return (
+          <Button key={action} size={size} onClick={() => runAction(action, ids)} disabled={disabled}>
+            <Check className="mr-1 h-4 w-4" />
+            Approve
+          </Button>
+        );
+      case "reject":
+        return (
+          <Button key={action} size={size} variant="outline" className="text-red-600" onClick={() => runAction(action, ids)} disabled={disabled}>
+            <X className="mr-1 h-4 w-4" />
+            Reject
+          </Button>
+        );
+      case "requeue":
+        return (
+          <Button key={action} size={size} variant="outline" onClick={() => runAction(action, ids)} disabled={disabled}>
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Requeue
+          </Button>
+        );
+    }
+  };
+
+  return (
+    <MainLayout pageTitle="Redemptions" pageDescription="Review doctor redemption requests before they are paid out">
+      <div className="space-y-6">
+        <Tabs value={status} onValueChange={changeStatus}>
+          <TabsList className="flex-wrap h-auto">
+            {STATUS_TABS.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+                {counts && counts[tab.value] > 0 && (
+                  <Badge variant="secondary" className="ml-2">{counts[tab.value]}</Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {actions.length > 0 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {selectedIds.length} of {rows.length} selected
+            </p>
+            <div className="flex space-x-2">
+              {actions.map(action => actionButton(action, selectedIds, "default"))}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              {rows.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {actions.length > 0 && (
+                        <TableHead className="w-[40px]">
+                          <Checkbox
+                            checked={allSelected}
+                            onCheckedChange={checked => setSelectedIds(checked ? rows.map(r => r.id) : [])}
+                          />
+                        </TableHead>
+                      )}
+                      <TableHead>Doctor</TableHead>
+                      <TableHead>Survey</TableHead>
+                      <TableHead>Points</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Details</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map(redemption => (
+                      <TableRow key={redemption.id}>
+                        {actions.length > 0 && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(redemption.id)}
+                              onCheckedChange={checked => toggleSelected(redemption.id, !!checked)}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell>
+                          <div className="font-medium">{redemption.doctorName || "Unknown doctor"}</div>
+                          <div className="text-sm text-gray-500">{redemption.doctorEmail}</div>
+                        </TableCell>
+                        <TableCell>{redemption.surveyTitle || `Survey #${redemption.surveyId}`}</TableCell>
+                        <TableCell>
+                          <div>{redemption.points}</div>
+                          {redemption.amountPaise !== null && (
+                            <div className="text-xs text-gray-500">{formatPaise(redemption.amountPaise)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div>{redemption.redemptionType === "amazon" ? "Amazon Pay" : "UPI"}</div>
+                          <div className="text-xs text-gray-500">{redemption.redemptionDetails}</div>
+                        </TableCell>
+                        <TableCell>{formatDate(redemption.createdAt)}</TableCell>
+                        <TableCell className="max-w-[220px]">
+                          {redemption.rejectionReason || redemption.failureReason ? (
+                            <span className="text-sm text-red-600">
+                              {redemption.rejectionReason || redemption.failureReason}
+                            </span>
+                          ) : (
+                            <span className="text-sm text-gray-500">
+                              {redemption.attemptCount > 0 ? `${redemption.attemptCount} payout attempts` : "—"}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            <Button size="sm" variant="ghost" onClick={() => setViewing(redemption)}>
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {actions.map(action => actionButton(action, [redemption.id]))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-12">
+                  <CreditCard className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No redemptions here</h3>
+                  <p className="text-gray-500">There are no redemptions with this status.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={rejectIds !== null} onOpenChange={open => !open && setRejectIds(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                Reject {rejectIds?.length === 1 ? "redemption" : `${rejectIds?.length} redemptions`}
+              </DialogTitle>
+              <DialogDescription>
+                The points will be returned to the doctor. The reason is recorded on the redemption.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              placeholder="Reason for rejection"
+              value={rejectReason}
+              onChange={e => setRejectReason(e.target.value)}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejectIds(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={!rejectReason.trim() || reviewMutation.isPending}
+                onClick={() => rejectIds && reviewMutation.mutate({ action: "reject", ids: rejectIds, reason: rejectReason.trim() })}
+              >
+                {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reject
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={viewing !== null} onOpenChange={open => !open && setViewing(null)}>
+          <DialogContent className="sm:max-w-[640px]">
+            <DialogHeader>
+              <DialogTitle>Redemption #{viewing?.id}</DialogTitle>
+              <DialogDescription>
+                {viewing?.doctorName} • {viewing?.points} points • {viewing?.status}
+              </DialogDescription>
+            </DialogHeader>
+            {viewing && (
+              <div className="space-y-3 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                  <div><span className="text-gray-500">Payout ID:</span> {viewing.payoutId || "—"}</div>
+                  <div><span className="text-gray-500">Payout status:</span> {viewing.payoutStatus || "—"}</div>
+                  <div><span className="text-gray-500">Attempts:</span> {viewing.attemptCount}</div>
+                  <div><span className="text-gray-500">Last attempt:</span> {formatDate(viewing.lastAttemptAt)}</div>
+                  <div><span className="text-gray-500">Requeued:</span> {viewing.requeueCount} times</div>
+                  <div><span className="text-gray-500">Reviewed:</span> {formatDate(viewing.reviewedAt)}</div>
+                </div>
+                <pre className="max-h-80 overflow-auto rounded-md bg-gray-100 p-3 text-xs">
+                  {formatPayoutResponse(viewing.payoutResponse)}
+                </pre>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
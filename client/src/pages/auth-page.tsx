@@ -8,9 +8,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Loader2, ArrowLeft, Check, Bell, BellOff } from "lucide-react";
+import { Loader2, ArrowLeft, Check, Bell, BellOff, Mail } from "lucide-react";
 import { Logo } from "@/components/common/logo";
 import { toast } from "@/hooks/use-toast";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 
 // Schemas
 const emailSchema = z.object({
@@ -29,10 +31,20 @@ const registerSchema = z.object({
   specialty: z.string().optional(),
 });
 
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  confirmPassword: z.string().min(1, { message: "Please confirm your password" }),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
 // Main Auth Flow Controller
 export default function NewAuthPage() {
-  const [step, setStep] = useState('welcome');
-  const [authType, setAuthType] = useState(null);
+  // Password reset links land here as /auth?resetToken=...
+  const [resetToken] = useState(() => new URLSearchParams(window.location.search).get('resetToken'));
+  const [step, setStep] = useState(resetToken ? 'reset' : 'welcome');
+  const [authType, setAuthType] = useState<string | null>(null);
   const [email, setEmail] = useState('');
   const [userData, setUserData] = useState(null);
   
@@ -80,6 +92,47 @@ export default function NewAuthPage() {
     });
   };
 
+  const requestResetMutation = useMutation({
+    mutationFn: async (emailValue: string) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", { email: emailValue });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setStep('reset-sent');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmResetMutation = useMutation({
+    mutationFn: async (password: string) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", { token: resetToken, password });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password updated",
+        description: "You can now sign in with your new password.",
+      });
+      // Drop the used token from the URL
+      window.history.replaceState(null, "", "/auth");
+      setAuthType('login');
+      setStep('email');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleNotificationConsent = (allowNotifications) => {
     toast({
       title: "Welcome!",
@@ -372,7 +425,11 @@ export default function NewAuthPage() {
               <PasswordForm />
               
               <div className="text-center mt-4">
-                <Button variant="link" className="text-sm text-gray-600">
+                <Button
+                  variant="link"
+                  className="text-sm text-gray-600"
+                  onClick={() => setStep('forgot')}
+                >
                   Forgot your password?
                 </Button>
               </div>
@@ -395,6 +452,247 @@ export default function NewAuthPage() {
     );
   }
 
+  // Step 3c: Forgot Password - request a reset link
+  if (step === 'forgot') {
+    const ForgotPasswordForm = () => {
+      const form = useForm({
+        resolver: zodResolver(emailSchema),
+        defaultValues: { email },
+      });
+
+      const handleSubmit = (values: z.infer<typeof emailSchema>) => {
+        setEmail(values.email);
+        requestResetMutation.mutate(values.email);
+      };
+
+      return (
+        <Form {...form}>
+          <div className="space-y-6">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-medium">Email Address</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="email"
+                      placeholder="doctor@example.com"
+                      className="py-3 px-4 text-base"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              onClick={form.handleSubmit(handleSubmit)}
+              className="w-full py-3 text-base font-semibold"
+              disabled={requestResetMutation.isPending}
+            >
+              {requestResetMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending link...
+                </>
+              ) : (
+                "Send Reset Link"
+              )}
+            </Button>
+          </div>
+        </Form>
+      );
+    };
+
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+        <div className="w-full max-w-md">
+          <Card className="shadow-xl border-0">
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <Logo />
+              </div>
+              <CardTitle className="text-2xl font-bold text-gray-900">
+                Reset your password
+              </CardTitle>
+              <p className="text-gray-600">
+                We'll email you a link to choose a new password
+              </p>
+            </CardHeader>
+
+            <CardContent>
+              <ForgotPasswordForm />
+            </CardContent>
+          </Card>
+
+          <div className="text-center mt-6">
+            <Button
+              onClick={() => setStep('password')}
+              variant="ghost"
+              className="text-gray-500 hover:text-gray-700"
+              disabled={requestResetMutation.isPending}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to sign in
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Step 3d: Reset link sent
+  if (step === 'reset-sent') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+        <div className="w-full max-w-md">
+          <Card className="shadow-xl border-0">
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center">
+                  <Mail className="w-8 h-8 text-blue-600" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold text-gray-900">
+                Check your email
+              </CardTitle>
+              <p className="text-gray-600 mt-2">
+                If an account exists for <span className="font-medium text-gray-900">{email}</span>,
+                you'll receive a link to reset your password. The link expires in 1 hour.
+              </p>
+            </CardHeader>
+
+            <CardContent>
+              <Button
+                onClick={() => {
+                  setAuthType('login');
+                  setStep('email');
+                }}
+                className="w-full py-3 text-base font-semibold"
+              >
+                Back to Sign In
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  // Step 3e: Choose a new password (from reset link)
+  if (step === 'reset') {
+    const ResetPasswordForm = () => {
+      const form = useForm({
+        resolver: zodResolver(resetPasswordSchema),
+        defaultValues: { password: "", confirmPassword: "" },
+      });
+
+      const handleSubmit = (values: z.infer<typeof resetPasswordSchema>) => {
+        confirmResetMutation.mutate(values.password);
+      };
+
+      return (
+        <Form {...form}>
+          <div className="space-y-6">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-medium">New Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Min. 6 characters"
+                      className="py-3 px-4 text-base"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-medium">Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Re-enter your new password"
+                      className="py-3 px-4 text-base"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              onClick={form.handleSubmit(handleSubmit)}
+              className="w-full py-3 text-base font-semibold"
+              disabled={confirmResetMutation.isPending}
+            >
+              {confirmResetMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Updating password...
+                </>
+              ) : (
+                "Update Password"
+              )}
+            </Button>
+          </div>
+        </Form>
+      );
+    };
+
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+        <div className="w-full max-w-md">
+          <Card className="shadow-xl border-0">
+            <CardHeader className="text-center">
+              <div className="flex justify-center mb-4">
+                <Logo />
+              </div>
+              <CardTitle className="text-2xl font-bold text-gray-900">
+                Choose a new password
+              </CardTitle>
+              <p className="text-gray-600">
+                Enter a new password for your account
+              </p>
+            </CardHeader>
+
+            <CardContent>
+              <ResetPasswordForm />
+            </CardContent>
+          </Card>
+
+          <div className="text-center mt-6">
+            <Button
+              onClick={() => {
+                window.history.replaceState(null, "", "/auth");
+                setStep('welcome');
+              }}
+              variant="ghost"
+              className="text-gray-500 hover:text-gray-700"
+              disabled={confirmResetMutation.isPending}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to home
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Step 4: Registration Form
   if (step === 'register') {
     const RegisterForm = () => {
@@ -2,14 +2,20 @@ import { MainLayout } from "@/components/layout/main-layout";
 import { StatisticsCards } from "@/components/analytics/statistics-cards";
 import { RecentActivity } from "@/components/analytics/recent-activity";
 import { SurveyCompletionChart } from "@/components/analytics/survey-completion-chart";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { RedemptionSettingsCard, RedemptionSettingsValue } from "@/components/survey/redemption-settings-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
-import { Survey, Doctor } from "@shared/schema";
+import { Survey, Doctor, Client } from "@shared/schema";
 import { Loader2, FileText, Plus } from "lucide-react";
 
 export default function ClientDashboard() {
+  const { user } = useAuth();
+
   // Fetch surveys
   const { data: surveys, isLoading: surveysLoading } = useQuery<Survey[]>({
     queryKey: ["/api/surveys"],
@@ -25,6 +31,32 @@ export default function ClientDashboard() {
     // Add this endpoint if not available yet
   });
 
+  const { data: client } = useQuery<Client>({
+    queryKey: ["/api/client/current"],
+    enabled: user?.role === "client",
+  });
+
+  const updateRedemptionSettingsMutation = useMutation({
+    mutationFn: async (settings: RedemptionSettingsValue) => {
+      const res = await apiRequest("PUT", `/api/clients/${client!.id}/redemption-settings`, settings);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Redemption settings saved",
+        description: "New redemptions will use the updated conversion rate",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/client/current"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save redemption settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mock data for the chart
   const completionChartData = [
     { name: "Jan", total: 40, completed: 30 },
@@ -150,6 +182,16 @@ export default function ClientDashboard() {
             </div> */}
           </div>
 
+          {client && (
+            <RedemptionSettingsCard
+              title="Reward Conversion"
+              description="How much doctors receive per point when they redeem, unless a survey overrides it"
+              value={{ pointValuePaise: client.pointValuePaise, minRedemptionPaise: client.minRedemptionPaise }}
+              isSaving={updateRedemptionSettingsMutation.isPending}
+              onSave={(settings) => updateRedemptionSettingsMutation.mutate(settings)}
+            />
+          )}
+
           {/* Recent Surveys Section */}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
@@ -13,6 +13,8 @@ import { Loader2, Mail, Phone, Award, Calendar, FileText } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { Progress } from "@/components/ui/progress";
 import { Doctor, User, DoctorSurveyResponse, Survey } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { DoctorTagsCard } from "@/components/doctors/doctor-tags-card";
 
 // Define the types for API responses
 interface DoctorWithUser extends Doctor {
@@ -38,6 +40,7 @@ export default function DoctorDetails() {
   const { id } = useParams();
   const doctorId = parseInt(id as string);
   const [activeTab, setActiveTab] = useState("overview");
+  const { user } = useAuth();
 
   // Fetch doctor details
   const { data: doctor, isLoading: doctorLoading } = useQuery<DoctorWithUser>({
@@ -243,6 +246,9 @@ export default function DoctorDetails() {
               </CardContent>
             </Card>
 
+            {/* Client-specific tags used for survey targeting */}
+            {user?.role === "client" && <DoctorTagsCard doctorId={doctorId} />}
+
             {/* Points summary card */}
             <Card>
               <CardHeader>
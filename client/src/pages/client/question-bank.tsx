@@ -0,0 +1,458 @@
+import { MainLayout } from "@/components/layout/main-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BarChart2, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { QUESTION_TYPES, CHOICE_QUESTION_TYPES } from "@shared/schema";
+import {
+  ALL_TAGS, QuestionBankEntry, QuestionBankFilters, QUESTION_TYPE_LABELS, useQuestionBank
+} from "@/components/survey/question-bank-picker";
+import {
+  MatrixFields, QuestionRuleFields, emptyMatrixFields, emptyQuestionRules, matrixFieldShape, questionRuleShape,
+  refineMatrixFields, refineQuestionRules, toMatrixFieldValues, toMatrixOptions, toQuestionRuleValues, toQuestionValidation
+} from "@/components/survey/question-rule-fields";
+import { parseMatrixOptions } from "@/components/survey/question-inputs";
+
+interface BankQuestionUsage {
+  item: QuestionBankEntry;
+  surveys: {
+    surveyId: number;
+    surveyTitle: string;
+    surveyStatus: string;
+    questionId: number;
+    answerCount: number;
+    distribution: { answer: string; count: number }[];
+    average: number | null;
+  }[];
+}
+
+const bankQuestionFormSchema = z.object({
+  questionText: z.string().min(1, { message: "Question text is required" }),
+  questionType: z.enum(QUESTION_TYPES),
+  options: z.string().optional(),
+  required: z.boolean().default(false),
+  ...questionRuleShape,
+  ...matrixFieldShape,
+  tags: z.string(),
+}).refine(data => !CHOICE_QUESTION_TYPES.includes(data.questionType) || !!data.options?.trim(), {
+  message: "Enter at least one option",
+  path: ["options"],
+}).superRefine(refineQuestionRules).superRefine(refineMatrixFields);
+
+type BankQuestionFormData = z.infer<typeof bankQuestionFormSchema>;
+
+const emptyForm: BankQuestionFormData = {
+  questionText: "",
+  questionType: "text",
+  options: "",
+  required: false,
+  ...emptyQuestionRules,
+  ...emptyMatrixFields,
+  tags: "",
+};
+
+const toFormData = (entry: QuestionBankEntry): BankQuestionFormData => ({
+  questionText: entry.questionText,
+  questionType: entry.questionType as BankQuestionFormData["questionType"],
+  options: entry.options ?? "",
+  required: entry.required,
+  ...toQuestionRuleValues(entry.validation),
+  ...toMatrixFieldValues(entry.questionType === "matrix" ? parseMatrixOptions(entry.options) : null),
+  tags: entry.tags.join(", "),
+});
+
+const toPayload = (data: BankQuestionFormData) => ({
+  questionText: data.questionText,
+  questionType: data.questionType,
+  options: data.questionType === "matrix"
+    ? toMatrixOptions(data)
+    : CHOICE_QUESTION_TYPES.includes(data.questionType) ? data.options?.trim() ?? null : null,
+  required: data.required,
+  validation: toQuestionValidation(data.questionType, data),
+  tags: data.tags.split(",").map(tag => tag.trim()).filter(Boolean),
+});
+
+function UsageComparison({ entryId }: { entryId: number }) {
+  const { data: usage, isLoading } = useQuery<BankQuestionUsage>({
+    queryKey: [`/api/question-bank/${entryId}/usage`],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-primary" />;
+  }
+  if (!usage || usage.surveys.length === 0) {
+    return <p className="text-sm text-gray-500">This question hasn't been added to any surveys yet.</p>;
+  }
+
+  const answers = Array.from(new Set(usage.surveys.flatMap(survey => survey.distribution.map(d => d.answer))));
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Answer</TableHead>
+            {usage.surveys.map(survey => (
+              <TableHead key={survey.questionId}>
+                <div className="font-medium text-gray-900">{survey.surveyTitle}</div>
+                <div className="text-xs capitalize">
+                  {survey.surveyStatus.replace("_", " ")} · {survey.answerCount} answers
+                </div>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {answers.map(answer => (
+            <TableRow key={answer}>
+              <TableCell className="font-medium">{answer}</TableCell>
+              {usage.surveys.map(survey => {
+                const count = survey.distribution.find(d => d.answer === answer)?.count ?? 0;
+                const percentage = survey.answerCount > 0 ? Math.round((count / survey.answerCount) * 100) : 0;
+                return (
+                  <TableCell key={survey.questionId}>
+                    {percentage}% <span className="text-gray-500">({count})</span>
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+          {usage.item.questionType === "scale" && (
+            <TableRow>
+              <TableCell className="font-medium">Average</TableCell>
+              {usage.surveys.map(survey => (
+                <TableCell key={survey.questionId}>{survey.average ?? "—"}</TableCell>
+              ))}
+            </TableRow>
+          )}
+          {answers.length === 0 && (
+            <TableRow>
+              <TableCell className="text-gray-500">Completed answers</TableCell>
+              {usage.surveys.map(survey => (
+                <TableCell key={survey.questionId}>{survey.answerCount}</TableCell>
+              ))}
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function ClientQuestionBank() {
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState(ALL_TAGS);
+  const [editing, setEditing] = useState<QuestionBankEntry | "new" | null>(null);
+  const [comparing, setComparing] = useState<QuestionBankEntry | null>(null);
+  const { entries, tags, isLoading } = useQuestionBank(search, tag);
+
+  const form = useForm<BankQuestionFormData>({
+    resolver: zodResolver(bankQuestionFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const openEditor = (entry: QuestionBankEntry | "new") => {
+    form.reset(entry === "new" ? emptyForm : toFormData(entry));
+    setEditing(entry);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BankQuestionFormData) => {
+      const res = editing === "new" || editing === null
+        ? await apiRequest("POST", "/api/question-bank", toPayload(data))
+        : await apiRequest("PUT", `/api/question-bank/${editing.id}`, toPayload(data));
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing === "new" ? "Question added" : "Question updated",
+        description: editing === "new"
+          ? "The question is now in your question bank"
+          : "Surveys that already use this question keep their copy",
+      });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/question-bank"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      const res = await apiRequest("DELETE", `/api/question-bank/${entryId}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Question deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/question-bank"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete question",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const questionType = form.watch("questionType");
+
+  return (
+    <MainLayout pageTitle="Question Bank" pageDescription="Standardized questions shared across your surveys">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Question Bank</h2>
+            <p className="text-sm text-gray-500">
+              Insert these questions from a survey's Questions tab and compare their answers across surveys
+            </p>
+          </div>
+          <Button onClick={() => openEditor("new")}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Question
+          </Button>
+        </div>
+
+        <QuestionBankFilters search={search} tag={tag} tags={tags} onSearchChange={setSearch} onTagChange={setTag} />
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              {entries.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[400px]">Question</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Tags</TableHead>
+                      <TableHead>Used In</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell>
+                          <div className="font-medium">{entry.questionText}</div>
+                          {entry.required && <div className="text-xs text-gray-500">Required</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{QUESTION_TYPE_LABELS[entry.questionType] ?? entry.questionType}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {entry.tags.map(t => (
+                              <Badge key={t} variant="secondary">{t}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {entry.usageCount} {entry.usageCount === 1 ? "survey" : "surveys"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setComparing(entry)}>
+                            <BarChart2 className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(entry)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(entry.id)}
+                            disabled={deleteMutation.isPending || entry.usageCount > 0}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-12">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No questions found</h3>
+                  <p className="text-sm text-gray-500 mb-6">
+                    Add standardized questions to reuse them across surveys
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="sm:max-w-[600px]">
+            <DialogHeader>
+              <DialogTitle>{editing === "new" ? "New Bank Question" : "Edit Bank Question"}</DialogTitle>
+              <DialogDescription>
+                Changes apply to future insertions; surveys already using the question keep their copy.
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="questionText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Question Text</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="Enter your question" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="questionType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Question Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select question type" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {QUESTION_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {CHOICE_QUESTION_TYPES.includes(questionType) && (
+                  <FormField
+                    control={form.control}
+                    name="options"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Options</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Enter options, one per line" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {questionType === "matrix" && <MatrixFields />}
+
+                <QuestionRuleFields questionType={questionType} />
+
+                <FormField
+                  control={form.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. efficacy, prescribing" {...field} />
+                      </FormControl>
+                      <FormDescription>Separate tags with commas.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="required"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value}
+                          onChange={field.onChange}
+                          className="form-checkbox h-4 w-4 text-primary rounded"
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>Required</FormLabel>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saveMutation.isPending}>
+                    {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Question
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={comparing !== null} onOpenChange={(open) => !open && setComparing(null)}>
+          <DialogContent className="sm:max-w-[800px]">
+            <DialogHeader>
+              <DialogTitle>{comparing?.questionText}</DialogTitle>
+              <DialogDescription>
+                Completed answers in each survey that uses this question.
+              </DialogDescription>
+            </DialogHeader>
+            {comparing && <UsageComparison entryId={comparing.id} />}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </MainLayout>
+  );
+}
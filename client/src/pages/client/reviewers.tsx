@@ -0,0 +1,287 @@
+import { MainLayout } from "@/components/layout/main-layout";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { REVIEW_ROLES } from "@shared/schema";
+import type { Reviewer } from "@shared/schema";
+
+interface ReviewerWithUser extends Reviewer {
+  user?: {
+    id: number;
+    name: string;
+    email: string;
+    username: string;
+    status: string;
+  };
+}
+
+const addReviewerSchema = z.object({
+  name: z.string().min(1, { message: "Name is required" }),
+  email: z.string().email({ message: "Invalid email address" }),
+  username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  reviewRole: z.enum(REVIEW_ROLES),
+});
+
+type AddReviewerData = z.infer<typeof addReviewerSchema>;
+
+export default function ClientReviewers() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: reviewers, isLoading } = useQuery<ReviewerWithUser[]>({
+    queryKey: ["/api/reviewers"],
+  });
+
+  const form = useForm<AddReviewerData>({
+    resolver: zodResolver(addReviewerSchema),
+    defaultValues: {
+      name: "",
+      email: "",
+      username: "",
+      password: "",
+      reviewRole: "medical",
+    },
+  });
+
+  const addReviewerMutation = useMutation({
+    mutationFn: async (data: AddReviewerData) => {
+      const res = await apiRequest("POST", "/api/reviewers", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reviewer added",
+        description: "Reviewer has been added successfully",
+      });
+      setIsDialogOpen(false);
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/reviewers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add reviewer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: AddReviewerData) => {
+    addReviewerMutation.mutate(data);
+  };
+
+  return (
+    <MainLayout pageTitle="Reviewers" pageDescription="Manage your medical, legal and regulatory reviewers">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">MLR Reviewers</h2>
+            <p className="text-sm text-gray-500">
+              Every review role with a reviewer must approve a survey before it can be published
+            </p>
+          </div>
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Add Reviewer
+          </Button>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="sm:max-w-[600px]">
+            <DialogHeader>
+              <DialogTitle>Add Reviewer</DialogTitle>
+              <DialogDescription>
+                Reviewers sign off on survey content before doctors see it.
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Full Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter reviewer's full name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="reviewRole"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Review Role</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select a review role" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {REVIEW_ROLES.map(role => (
+                              <SelectItem key={role} value={role} className="capitalize">
+                                {role}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="Enter email address" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Create a username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Create a password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsDialogOpen(false)}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={addReviewerMutation.isPending}>
+                    {addReviewerMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Adding...
+                      </>
+                    ) : (
+                      "Add Reviewer"
+                    )}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              {reviewers && reviewers.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[300px]">Reviewer</TableHead>
+                      <TableHead>Review Role</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reviewers.map((reviewer) => (
+                      <TableRow key={reviewer.id}>
+                        <TableCell>
+                          <div className="font-medium">{reviewer.user?.name}</div>
+                          <div className="text-sm text-gray-500">{reviewer.user?.email}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{reviewer.reviewRole}</Badge>
+                        </TableCell>
+                        <TableCell className="capitalize">{reviewer.user?.status ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-12">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No reviewers yet</h3>
+                  <p className="text-sm text-gray-500 mb-6">
+                    Add at least one reviewer before submitting surveys for review
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
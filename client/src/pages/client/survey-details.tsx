@@ -14,26 +14,64 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Survey, SurveyQuestion } from "@shared/schema";
+import {
+  Survey, SurveyQuestion, Client, DoctorSurveyResponse, QUESTION_TYPES, CHOICE_QUESTION_TYPES
+} from "@shared/schema";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loader2, Plus, Clock, Award, FileText, BarChart2, Users, PieChart } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { format } from "date-fns";
 import { SurveyBuilder } from "@/components/survey/survey-builder";
+import { RedemptionSettingsCard } from "@/components/survey/redemption-settings-card";
+import { BudgetBurnDownCard } from "@/components/survey/budget-burn-down-card";
+import { QuotaCellsCard } from "@/components/survey/quota-cells-card";
+import { TargetingCard } from "@/components/survey/targeting-card";
+import { SurveyScheduleCard } from "@/components/survey/survey-schedule-card";
+import { SurveyLifecycleCard } from "@/components/survey/survey-lifecycle-card";
+import { SurveyReviewCard } from "@/components/survey/survey-review-card";
+import { SurveyCopyActions } from "@/components/survey/survey-copy-actions";
+import { QuestionBankPicker, QUESTION_TYPE_LABELS } from "@/components/survey/question-bank-picker";
+import {
+  MatrixFields, QuestionRuleFields, emptyMatrixFields, emptyQuestionRules, matrixFieldShape, questionRuleShape,
+  refineMatrixFields, refineQuestionRules, toMatrixFieldValues, toMatrixOptions, toQuestionRuleValues, toQuestionValidation
+} from "@/components/survey/question-rule-fields";
+import { parseMatrixOptions } from "@/components/survey/question-inputs";
+import {
+  CheckboxAnalytics, DateAnalytics, MatrixAnalytics, NpsAnalytics, NumericAnalytics, RankingAnalytics
+} from "@/components/survey/question-analytics";
+import {
+  SurveyVersionsCard, SurveyVersionHistory, mergeVersionQuestions
+} from "@/components/survey/survey-versions-card";
 import { useEffect } from "react";
 
 // Create question schema
 const createQuestionSchema = z.object({
   questionText: z.string().min(1, { message: "Question text is required" }),
-  questionType: z.enum(["text", "scale", "mcq"], { message: "Question type is required" }),
-  // "ranking" type removed temporarily
+  questionType: z.enum(QUESTION_TYPES, { message: "Question type is required" }),
   options: z.string().optional(),
   required: z.boolean().default(false),
-});
+  ...questionRuleShape,
+  ...matrixFieldShape,
+}).refine(data => !CHOICE_QUESTION_TYPES.includes(data.questionType) || !!data.options?.trim(), {
+  message: "Enter at least one option",
+  path: ["options"],
+}).superRefine(refineQuestionRules).superRefine(refineMatrixFields);
 
 type CreateQuestionData = z.infer<typeof createQuestionSchema>;
 
+// The question as the API stores it, with the answer rules as a JSON string
+const toQuestionPayload = (data: CreateQuestionData) => {
+  const validation = toQuestionValidation(data.questionType, data);
+  return {
+    questionText: data.questionText,
+    questionType: data.questionType,
+    options: data.questionType === "matrix" ? toMatrixOptions(data) : data.options,
+    required: data.required,
+    validation: validation ? JSON.stringify(validation) : null,
+  };
+};
+
 export default function SurveyDetails() {
   const { id } = useParams();
   const surveyId = parseInt(id as string);
@@ -75,6 +113,21 @@ export default function SurveyDetails() {
     enabled: !!surveyId && !isNaN(surveyId) && activeTab === "analytics",
   });
 
+  // Published versions, to split or merge analytics by the version doctors answered
+  const [analyticsVersion, setAnalyticsVersion] = useState("all");
+  const { data: versionHistory } = useQuery<SurveyVersionHistory>({
+    queryKey: [`/api/surveys/${surveyId}/versions`],
+    enabled: !!surveyId && !isNaN(surveyId),
+  });
+  const versions = versionHistory?.versions ?? [];
+  const selectedVersion = versions.find(version => version.id.toString() === analyticsVersion);
+  const analyticsQuestions = selectedVersion
+    ? selectedVersion.content.questions
+    : mergeVersionQuestions(versions, questions);
+  const analyticsResponses = selectedVersion
+    ? responses.filter((response: DoctorSurveyResponse) => response.surveyVersionId === selectedVersion.id)
+    : responses;
+
   const [isQuestionEditDialogOpen, setIsQuestionEditDialogOpen] = useState(false);
   const [questionToEdit, setQuestionToEdit] = useState<SurveyQuestion | null>(null);
   // Create question form
@@ -85,12 +138,14 @@ export default function SurveyDetails() {
       questionType: "text",
       options: "",
       required: false,
+      ...emptyQuestionRules,
+      ...emptyMatrixFields,
     },
   });
 
   // Create question mutation
   const createQuestionMutation = useMutation({
-    mutationFn: async (data: CreateQuestionData & { surveyId: number; orderIndex: number }) => {
+    mutationFn: async (data: ReturnType<typeof toQuestionPayload> & { surveyId: number; orderIndex: number }) => {
       const res = await apiRequest("POST", `/api/surveys/${surveyId}/questions`, data);
       return await res.json();
     },
@@ -164,6 +219,8 @@ export default function SurveyDetails() {
       questionType: question.questionType as any,
       options: question.options || "",
       required: question.required,
+      ...toQuestionRuleValues(question.validation ? JSON.parse(question.validation) : null),
+      ...toMatrixFieldValues(question.questionType === "matrix" ? parseMatrixOptions(question.options) : null),
     });
     setIsQuestionEditDialogOpen(true);
   };
@@ -235,6 +292,12 @@ export default function SurveyDetails() {
     },
   });
 
+  // The client's conversion settings, which apply where the survey doesn't override them
+  const { data: client } = useQuery<Client>({
+    queryKey: [`/api/clients/${survey?.clientId}`],
+    enabled: !!survey,
+  });
+
   // Add this handler function
   const handleSaveFlowQuestions = (updatedQuestions: SurveyQuestion[]) => {
     updateQuestionsMutation.mutate(updatedQuestions);
@@ -242,7 +305,7 @@ export default function SurveyDetails() {
 
   const onSubmit = (data: CreateQuestionData) => {
     createQuestionMutation.mutate({
-      ...data,
+      ...toQuestionPayload(data),
       surveyId,
       orderIndex: questions.length, // Add to the end of the list
     });
@@ -271,8 +334,14 @@ export default function SurveyDetails() {
         return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>;
       case "draft":
         return <Badge variant="outline" className="text-gray-800">Draft</Badge>;
+      case "in_review":
+        return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">In Review</Badge>;
+      case "paused":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Paused</Badge>;
       case "closed":
         return <Badge variant="destructive">Closed</Badge>;
+      case "archived":
+        return <Badge variant="secondary">Archived</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -333,6 +402,7 @@ export default function SurveyDetails() {
               </div>
               <div className="flex items-center space-x-3 mt-4 md:mt-0">
                 {getStatusBadge(survey.status)}
+                <SurveyCopyActions survey={survey} />
               </div>
             </div>
           </CardHeader>
@@ -397,141 +467,172 @@ export default function SurveyDetails() {
                 {/* <Button variant="outline" onClick={() => setIsEditDialogOpen(true)}>Edit Survey</Button> */}
               </CardFooter>
             </Card>
+
+            <SurveyLifecycleCard survey={survey} />
+
+            <SurveyReviewCard survey={survey} mode="client" />
+
+            <SurveyVersionsCard surveyId={surveyId} />
+
+            <SurveyScheduleCard
+              survey={survey}
+              isSaving={updateSurveyMutation.isPending}
+              onSave={(schedule) => updateSurveyMutation.mutate(schedule)}
+            />
+
+            <TargetingCard surveyId={surveyId} />
+
+            <BudgetBurnDownCard survey={survey} />
+
+            {client && (
+              <RedemptionSettingsCard
+                title="Reward Conversion"
+                description="Leave blank to use your account's default conversion rate and minimum"
+                value={{ pointValuePaise: survey.pointValuePaise, minRedemptionPaise: survey.minRedemptionPaise }}
+                inherited={{ pointValuePaise: client.pointValuePaise, minRedemptionPaise: client.minRedemptionPaise }}
+                isSaving={updateSurveyMutation.isPending}
+                onSave={(settings) => updateSurveyMutation.mutate(settings)}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="questions" className="space-y-4">
             <div className="flex justify-between items-center">
               <h2 className="text-lg font-semibold">Survey Questions</h2>
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="space-x-2">
-                    <Plus className="h-4 w-4" />
-                    <span>Add Question</span>
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-[600px]">
-                  <DialogHeader>
-                    <DialogTitle>Add New Question</DialogTitle>
-                    <DialogDescription>
-                      Create a question for this survey.
-                    </DialogDescription>
-                  </DialogHeader>
-                  <Form {...form}>
-                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                      <FormField
-                        control={form.control}
-                        name="questionText"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Question Text</FormLabel>
-                            <FormControl>
-                              <Textarea placeholder="Enter your question" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={form.control}
-                        name="questionType"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Question Type</FormLabel>
-                            <Select
-                              onValueChange={field.onChange}
-                              defaultValue={field.value}
-                            >
+              <div className="flex items-center gap-2">
+                <QuestionBankPicker surveyId={surveyId} />
+                <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="space-x-2">
+                      <Plus className="h-4 w-4" />
+                      <span>Add Question</span>
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[600px]">
+                    <DialogHeader>
+                      <DialogTitle>Add New Question</DialogTitle>
+                      <DialogDescription>
+                        Create a question for this survey.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        <FormField
+                          control={form.control}
+                          name="questionText"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Question Text</FormLabel>
                               <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select question type" />
-                                </SelectTrigger>
+                                <Textarea placeholder="Enter your question" {...field} />
                               </FormControl>
-                              <SelectContent>
-                                <SelectItem value="text">Text</SelectItem>
-                                <SelectItem value="scale">Scale</SelectItem>
-                                <SelectItem value="mcq">Multiple Choice</SelectItem>
-                                {/* Ranking temporarily removed
-                                <SelectItem value="ranking">Ranking</SelectItem> 
-                                */}
-                              </SelectContent>
-                            </Select>
-                            <FormDescription>
-                              The type of response for this question.
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
 
-                      {(form.watch("questionType") === "mcq") && (
                         <FormField
                           control={form.control}
-                          name="options"
+                          name="questionType"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Options</FormLabel>
-                              <FormControl>
-                                <Textarea
-                                  placeholder="Enter options, one per line"
-                                  {...field}
-                                />
-                              </FormControl>
+                              <FormLabel>Question Type</FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                defaultValue={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select question type" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {QUESTION_TYPES.map(type => (
+                                    <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <FormDescription>
-                                Enter one option per line.
+                                The type of response for this question.
                               </FormDescription>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                      )}
 
-                      <FormField
-                        control={form.control}
-                        name="required"
-                        render={({ field }) => (
-                          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
-                            <FormControl>
-                              <input
-                                type="checkbox"
-                                checked={field.value}
-                                onChange={field.onChange}
-                                className="form-checkbox h-4 w-4 text-primary rounded"
-                              />
-                            </FormControl>
-                            <div className="space-y-1 leading-none">
-                              <FormLabel>Required</FormLabel>
-                              <FormDescription>
-                                Make this question mandatory for submission.
-                              </FormDescription>
-                            </div>
-                          </FormItem>
+                        {CHOICE_QUESTION_TYPES.includes(form.watch("questionType")) && (
+                          <FormField
+                            control={form.control}
+                            name="options"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Options</FormLabel>
+                                <FormControl>
+                                  <Textarea
+                                    placeholder="Enter options, one per line"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormDescription>
+                                  Enter one option per line.
+                                </FormDescription>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                         )}
-                      />
 
-                      <DialogFooter>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          onClick={() => setIsDialogOpen(false)}
-                        >
-                          Cancel
-                        </Button>
-                        <Button type="submit" disabled={createQuestionMutation.isPending}>
-                          {createQuestionMutation.isPending ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Adding...
-                            </>
-                          ) : (
-                            "Add Question"
+                        {form.watch("questionType") === "matrix" && <MatrixFields />}
+
+                        <QuestionRuleFields questionType={form.watch("questionType")} />
+
+                        <FormField
+                          control={form.control}
+                          name="required"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                              <FormControl>
+                                <input
+                                  type="checkbox"
+                                  checked={field.value}
+                                  onChange={field.onChange}
+                                  className="form-checkbox h-4 w-4 text-primary rounded"
+                                />
+                              </FormControl>
+                              <div className="space-y-1 leading-none">
+                                <FormLabel>Required</FormLabel>
+                                <FormDescription>
+                                  Make this question mandatory for submission.
+                                </FormDescription>
+                              </div>
+                            </FormItem>
                           )}
-                        </Button>
-                      </DialogFooter>
-                    </form>
-                  </Form>
-                </DialogContent>
-              </Dialog>
+                        />
+
+                        <DialogFooter>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setIsDialogOpen(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={createQuestionMutation.isPending}>
+                            {createQuestionMutation.isPending ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Adding...
+                              </>
+                            ) : (
+                              "Add Question"
+                            )}
+                          </Button>
+                        </DialogFooter>
+                      </form>
+                    </Form>
+                  </DialogContent>
+                </Dialog>
+              </div>
               <Dialog open={isQuestionEditDialogOpen} onOpenChange={setIsQuestionEditDialogOpen}>
                 <DialogContent className="sm:max-w-[600px]">
                   <DialogHeader>
@@ -545,7 +646,7 @@ export default function SurveyDetails() {
                       if (questionToEdit) {
                         updateQuestionMutation.mutate({
                           id: questionToEdit.id,
-                          ...data,
+                          ...toQuestionPayload(data),
                         });
                       }
                     })} className="space-y-4">
@@ -579,9 +680,9 @@ export default function SurveyDetails() {
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                <SelectItem value="text">Text</SelectItem>
-                                <SelectItem value="scale">Scale</SelectItem>
-                                <SelectItem value="mcq">Multiple Choice</SelectItem>
+                                {QUESTION_TYPES.map(type => (
+                                  <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                             <FormDescription>
@@ -592,7 +693,7 @@ export default function SurveyDetails() {
                         )}
                       />
 
-                      {(form.watch("questionType") === "mcq") && (
+                      {CHOICE_QUESTION_TYPES.includes(form.watch("questionType")) && (
                         <FormField
                           control={form.control}
                           name="options"
@@ -614,6 +715,10 @@ export default function SurveyDetails() {
                         />
                       )}
 
+                      {form.watch("questionType") === "matrix" && <MatrixFields />}
+
+                      <QuestionRuleFields questionType={form.watch("questionType")} />
+
                       <FormField
                         control={form.control}
                         name="required"
@@ -690,6 +795,9 @@ export default function SurveyDetails() {
                           <Badge variant="outline" className="mb-2">
                             {question.questionType.charAt(0).toUpperCase() + question.questionType.slice(1)}
                           </Badge>
+                          {question.bankQuestionId && (
+                            <Badge variant="secondary" className="mb-2 ml-2">Question bank</Badge>
+                          )}
                           <CardTitle className="text-lg">
                             {index + 1}. {question.questionText}
                           </CardTitle>
@@ -702,15 +810,31 @@ export default function SurveyDetails() {
                       </div>
                     </CardHeader>
                     <CardContent>
-                      {question.questionType === "mcq" ? (
+                      {CHOICE_QUESTION_TYPES.includes(question.questionType) ? (
                         <div className="space-y-2">
-                          <p className="text-sm font-medium">Options:</p>
+                          <p className="text-sm font-medium">
+                            {question.questionType === "ranking" ? "Options to rank:" : "Options:"}
+                          </p>
                           <ul className="list-disc list-inside">
                             {question.options?.split("\n").map((option, i) => (
                               <li key={i} className="text-sm">{option}</li>
                             ))}
                           </ul>
                         </div>
+                      ) : question.questionType === "matrix" ? (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">
+                            Rows, each rated on {parseMatrixOptions(question.options)?.multiple ? "one or more columns" : "one column"}:
+                          </p>
+                          <ul className="list-disc list-inside">
+                            {parseMatrixOptions(question.options)?.rows.map((row, i) => (
+                              <li key={i} className="text-sm">{row}</li>
+                            ))}
+                          </ul>
+                          <p className="text-sm text-gray-500">
+                            Columns: {parseMatrixOptions(question.options)?.columns.join(", ")}
+                          </p>
+                        </div>
                       ) : null}
                     </CardContent>
                     <CardFooter className="flex justify-end space-x-2">
@@ -733,6 +857,21 @@ export default function SurveyDetails() {
           <TabsContent value="analytics" className="space-y-4">
             <div className="flex justify-between items-center">
               <h2 className="text-lg font-semibold">Survey Analytics</h2>
+              {versions.length > 0 && (
+                <Select value={analyticsVersion} onValueChange={setAnalyticsVersion}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All versions</SelectItem>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id.toString()}>
+                        Version {version.version}{version.isCurrent ? " (live)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
 
             {responsesLoading ? (
@@ -752,7 +891,7 @@ export default function SurveyDetails() {
                       <Users className="h-10 w-10 text-primary p-2 bg-primary/10 rounded-full" />
                       <div>
                         <p className="text-sm font-medium text-gray-500">Total Responses</p>
-                        <p className="text-2xl font-bold">{responses.length}</p>
+                        <p className="text-2xl font-bold">{analyticsResponses.length}</p>
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
@@ -760,7 +899,7 @@ export default function SurveyDetails() {
                       <div>
                         <p className="text-sm font-medium text-gray-500">Completion Rate</p>
                         <p className="text-2xl font-bold">
-                          {responses.length ? Math.round((responses.filter(r => r.completed).length / responses.length) * 100) : "0"}%
+                          {analyticsResponses.length ? Math.round((analyticsResponses.filter(r => r.completed).length / analyticsResponses.length) * 100) : "0"}%
                         </p>
                       </div>
                     </div>
@@ -776,11 +915,11 @@ export default function SurveyDetails() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    {questions.length === 0 ? (
+                    {analyticsQuestions.length === 0 ? (
                       <div className="text-center py-6 text-gray-500">
                         No questions available to analyze.
                       </div>
-                    ) : responses.length === 0 ? (
+                    ) : analyticsResponses.length === 0 ? (
                       <div className="text-center py-6 text-gray-500">
                         No responses received yet.
                       </div>
@@ -788,21 +927,23 @@ export default function SurveyDetails() {
                       <div className="space-y-4">
                         <p className="text-sm font-medium">Response Distribution</p>
                         <Progress
-                          value={responses.length ? (responses.filter(r => r.completed).length / responses.length) * 100 : 0}
+                          value={analyticsResponses.length ? (analyticsResponses.filter(r => r.completed).length / analyticsResponses.length) * 100 : 0}
                           className="h-2 w-full"
                         />
                         <p className="text-xs text-gray-500 text-right">
-                          {responses.filter(r => r.completed).length} completed out of {responses.length} total responses
+                          {analyticsResponses.filter(r => r.completed).length} completed out of {analyticsResponses.length} total responses
                         </p>
                       </div>
                     )}
                   </CardContent>
                 </Card>
 
+                <QuotaCellsCard surveyId={surveyId} className="col-span-1 md:col-span-2" />
+
                 {/* Response details */}
-                {responses.length > 0 && questions.map(question => {
+                {analyticsResponses.length > 0 && analyticsQuestions.map(question => {
                   // Get all responses for this question
-                  const questionResponses = responses.flatMap(response =>
+                  const questionResponses = analyticsResponses.flatMap(response =>
                     response.questionResponses?.filter(qr => qr.questionId === question.id) || []
                   );
 
@@ -820,6 +961,7 @@ export default function SurveyDetails() {
                       };
                     }
                   });
+                  const answers: unknown[] = parsedResponses.map((qr: { parsedResponse: unknown }) => qr.parsedResponse);
 
                   // Calculate option statistics for MCQ questions
                   if (question.questionType === "mcq" && question.options) {
@@ -907,6 +1049,66 @@ export default function SurveyDetails() {
                     );
                   }
 
+                  else if (question.questionType === "checkbox") {
+                    return (
+                      <CheckboxAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
+                  else if (question.questionType === "ranking") {
+                    return (
+                      <RankingAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
+                  else if (question.questionType === "matrix") {
+                    return (
+                      <MatrixAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
+                  else if (question.questionType === "numeric") {
+                    return (
+                      <NumericAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
+                  else if (question.questionType === "date") {
+                    return (
+                      <DateAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
+                  else if (question.questionType === "nps") {
+                    return (
+                      <NpsAnalytics
+                        key={question.id}
+                        question={question}
+                        answers={answers}
+                      />
+                    );
+                  }
+
                   // For text questions, show a list of responses
                   else if (question.questionType === "text" && parsedResponses.length > 0) {
                     const textResponses = parsedResponses
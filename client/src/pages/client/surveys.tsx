@@ -1,5 +1,7 @@
 import { MainLayout } from "@/components/layout/main-layout";
 import { SurveyList } from "@/components/survey/survey-list";
+import { SurveyTemplateLibrary } from "@/components/survey/survey-template-library";
+import { SurveyImportButton } from "@/components/survey/survey-import-button";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -26,7 +28,6 @@ const createSurveySchema = z.object({
   description: z.string().optional(),
   points: z.number().min(1, { message: "Points must be at least 1" }),
   estimatedTime: z.number().min(1, { message: "Estimated time must be at least 1 minute" }),
-  status: z.enum(["draft", "active"], { message: "Status is required" }),
   tags: z.array(z.string()).optional(),
   redemptionTypes: z.array(z.string()).min(1, { message: "At least one redemption type is required" }),
   clientId: z.number().optional(), // For admin users
@@ -52,7 +53,6 @@ export default function ClientSurveys() {
       description: "",
       points: 100,
       estimatedTime: 10,
-      status: "draft",
       tags: [],
       redemptionTypes: ["upi"],
     },
@@ -308,34 +308,6 @@ export default function ClientSurveys() {
                   />
                 </div>
 
-                <FormField
-                  control={form.control}
-                  name="status"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Status</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select status" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="draft">Draft</SelectItem>
-                          <SelectItem value="active">Active</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormDescription>
-                        Set as Draft to continue editing or Active to publish the survey.
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
                 <DialogFooter>
                   <Button
                     type="button"
@@ -360,10 +332,18 @@ export default function ClientSurveys() {
           </DialogContent>
         </Dialog>
 
+        {user?.role === "client" && (
+          <div className="flex justify-end">
+            <SurveyImportButton />
+          </div>
+        )}
+
         <SurveyList
           userRole="client"
           onCreateSurvey={() => setIsDialogOpen(true)}
         />
+
+        {user?.role === "client" && <SurveyTemplateLibrary />}
       </div>
     </MainLayout>
   );
@@ -1,14 +1,15 @@
 import { MainLayout } from "@/components/layout/main-layout";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
-import { Loader2, Award, CreditCard, Wallet, CheckCircle, Clock, FileText } from "lucide-react";
+import { Loader2, Award, CreditCard, Wallet, CheckCircle, Clock, FileText, BookOpen } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { format } from "date-fns";
-import { Redemption } from "@shared/schema";
+import { Redemption, PointsLedger } from "@shared/schema";
 import { useState } from "react";
 import { Link } from "wouter";
 
@@ -63,6 +64,17 @@ export default function DoctorPoints() {
     enabled: !!doctorInfo?.id,
   });
 
+  // Fetch the points ledger; balances on this page come from it
+  const { data: ledger, isLoading: ledgerLoading } = useQuery<PointsLedger>({
+    queryKey: ["/api/doctors", doctorInfo?.id, "points", "ledger"],
+    queryFn: async () => {
+      const res = await fetch(`/api/doctors/${doctorInfo?.id}/points/ledger`);
+      if (!res.ok) throw new Error("Failed to fetch points ledger");
+      return res.json();
+    },
+    enabled: !!doctorInfo?.id,
+  });
+
   // Fetch completed survey responses with redemption info
   const { data: completedSurveys, isLoading: surveysLoading } = useQuery<CompletedSurveyResponse[]>({
     queryKey: ["/api/doctors/current/completed-surveys-with-redemption"],
@@ -91,7 +103,18 @@ export default function DoctorPoints() {
     return `${hours} hr${hours > 1 ? 's' : ''}${remainingMinutes > 0 ? ` ${remainingMinutes} min` : ''}`;
   };
 
-  if (isLoading || surveysLoading) {
+  const formatTransactionType = (type: string) => {
+    switch (type) {
+      case "earn": return "Earned";
+      case "redeem-hold": return "Redeemed";
+      case "redeem-release": return "Returned";
+      case "adjustment": return "Adjustment";
+      case "expiry": return "Expired";
+      default: return type;
+    }
+  };
+
+  if (isLoading || surveysLoading || ledgerLoading) {
     return (
       <MainLayout pageTitle="My Points" pageDescription="Manage and redeem your earned points">
         <div className="flex justify-center items-center h-64">
@@ -101,7 +124,7 @@ export default function DoctorPoints() {
     );
   }
 
-  if (!pointsInfo) {
+  if (!pointsInfo || !ledger) {
     return (
       <MainLayout pageTitle="My Points" pageDescription="Manage and redeem your earned points">
         <Card>
@@ -134,13 +157,19 @@ export default function DoctorPoints() {
         {/* Points Overview Card */}
         <Card>
           <CardContent className="p-6">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="flex flex-col items-center justify-center p-6 bg-primary-50 rounded-lg">
                 <Award className="h-10 w-10 text-primary mb-2" />
-                <h3 className="text-2xl font-bold text-primary">{pointsInfo.totalPoints}</h3>
+                <h3 className="text-2xl font-bold text-primary">{ledger.totalPoints}</h3>
                 <p className="text-sm text-gray-600">Total Points Earned</p>
               </div>
 
+              <div className="flex flex-col items-center justify-center p-6 bg-amber-50 rounded-lg">
+                <Wallet className="h-10 w-10 text-amber-600 mb-2" />
+                <h3 className="text-2xl font-bold text-amber-600">{ledger.availablePoints}</h3>
+                <p className="text-sm text-gray-600">Available Points</p>
+              </div>
+
               <div className="flex flex-col items-center justify-center p-6 bg-green-50 rounded-lg">
                 <CheckCircle className="h-10 w-10 text-green-600 mb-2" />
                 <h3 className="text-2xl font-bold text-green-600">{redeemableSurveys.length}</h3>
@@ -149,7 +178,7 @@ export default function DoctorPoints() {
 
               <div className="flex flex-col items-center justify-center p-6 bg-gray-50 rounded-lg">
                 <CreditCard className="h-10 w-10 text-gray-600 mb-2" />
-                <h3 className="text-2xl font-bold text-gray-600">{pointsInfo.redeemedPoints}</h3>
+                <h3 className="text-2xl font-bold text-gray-600">{ledger.redeemedPoints}</h3>
                 <p className="text-sm text-gray-600">Points Already Redeemed</p>
               </div>
             </div>
@@ -176,10 +205,11 @@ export default function DoctorPoints() {
 
         {/* Tabs for different sections */}
         <Tabs defaultValue={activeTab} value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="completed-surveys">Available Redemptions</TabsTrigger>
             <TabsTrigger value="redeemed-surveys">Redeemed Surveys</TabsTrigger>
             <TabsTrigger value="history">Redemption History</TabsTrigger>
+            <TabsTrigger value="ledger">Points Ledger</TabsTrigger>
           </TabsList>
 
           {/* Available Redemptions Tab */}
@@ -319,7 +349,7 @@ export default function DoctorPoints() {
                                   className={`text-xs ${
                                     survey.redemption.status === "completed"
                                       ? "border-green-300 text-green-700"
-                                      : survey.redemption.status === "pending"
+                                      : survey.redemption.status === "pending" || survey.redemption.status === "approved"
                                       ? "border-amber-300 text-amber-700"
                                       : "border-red-300 text-red-700"
                                   }`}
@@ -382,13 +412,16 @@ export default function DoctorPoints() {
                                 )}
                               </div>
                             )}
+                            {redemption.status === "rejected" && redemption.rejectionReason && (
+                              <p className="text-xs mt-2 text-red-600">Rejected: {redemption.rejectionReason}</p>
+                            )}
                           </div>
                         </div>
                         <div>
                           <span className={`px-2 py-1 text-xs font-medium rounded-full ${
                             redemption.status === "completed"
                               ? "bg-green-100 text-green-800"
-                              : redemption.status === "pending"
+                              : redemption.status === "pending" || redemption.status === "approved"
                                 ? "bg-amber-100 text-amber-800"
                                 : "bg-gray-100 text-gray-800"
                           }`}>
@@ -410,6 +443,55 @@ export default function DoctorPoints() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Points Ledger Tab */}
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader>
+                <CardTitle>Points Ledger</CardTitle>
+                <CardDescription>Every change to your points, with your available balance after each one</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {ledger.entries.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead className="text-right">Points</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {/* Newest first */}
+                      {[...ledger.entries].reverse().map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{formatTransactionType(entry.type)}</Badge>
+                          </TableCell>
+                          <TableCell className="text-gray-600">{entry.description || "-"}</TableCell>
+                          <TableCell className={`text-right font-medium ${entry.amount >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {entry.amount >= 0 ? `+${entry.amount}` : entry.amount}
+                          </TableCell>
+                          <TableCell className="text-right">{entry.balance}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8">
+                    <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No points activity yet</h3>
+                    <p className="text-gray-500">
+                      Points you earn and redeem will be recorded here.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </MainLayout>
@@ -6,14 +6,29 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Survey, SurveyQuestion } from "@shared/schema";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, Award, Clock, FileText, CheckCircle, ArrowRightCircle, Users, Download, ArrowLeft, Star } from "lucide-react";
+import {
+  Loader2, Award, Clock, FileText, CheckCircle, ArrowRightCircle, Users, Download, ArrowLeft, Star, AlertCircle
+} from "lucide-react";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
 import { SurveyTakingFlow } from "@/components/survey/survey-taking-flow";
 
+interface AnswerError {
+  questionId: number;
+  message: string;
+}
+
+// A submission the server rejected, with what's wrong with each answer
+class SurveyAnswerFailure extends Error {
+  constructor(message: string, public errors: AnswerError[]) {
+    super(message);
+  }
+}
+
 export default function DoctorSurveyDetails() {
   const { id } = useParams();
   const surveyId = parseInt(id as string);
@@ -21,6 +36,7 @@ export default function DoctorSurveyDetails() {
   const [questionResponses, setQuestionResponses] = useState<{ [key: number]: any }>({});
   const [autoSaving, setAutoSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [answerErrors, setAnswerErrors] = useState<AnswerError[]>([]);
   const { user } = useAuth();
 
   // Fetch survey details
@@ -76,20 +92,30 @@ export default function DoctorSurveyDetails() {
   // Take survey mutation
   const takeSurveyMutation = useMutation({
     mutationFn: async (responses: any[]) => {
-      const res = await apiRequest("POST", `/api/surveys/${surveyId}/responses`, {
-        responses
+      // Read the body on failure too, since it lists the answers to fix
+      const res = await fetch(`/api/surveys/${surveyId}/responses`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ responses }),
+        credentials: "include",
       });
-      return await res.json();
+      const body = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new SurveyAnswerFailure(body?.message ?? res.statusText, body?.errors ?? []);
+      }
+      return body;
     },
     onSuccess: () => {
+      setAnswerErrors([]);
       toast({
         title: "Survey completed",
         description: "Your responses have been submitted successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/surveys"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/doctors", "points"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
     },
     onError: (error: Error) => {
+      setAnswerErrors(error instanceof SurveyAnswerFailure ? error.errors : []);
       toast({
         title: "Failed to submit survey",
         description: error.message,
@@ -149,8 +175,14 @@ export default function DoctorSurveyDetails() {
         return <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">Active</Badge>;
       case "draft":
         return <Badge variant="outline" className="text-gray-800">Draft</Badge>;
+      case "in_review":
+        return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">In Review</Badge>;
+      case "paused":
+        return <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Paused</Badge>;
       case "closed":
         return <Badge variant="destructive">Closed</Badge>;
+      case "archived":
+        return <Badge variant="secondary">Archived</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -436,6 +468,24 @@ export default function DoctorSurveyDetails() {
                     Last saved: {format(lastSaved, "HH:mm:ss")}
                   </div>
                 )}
+                {answerErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Some answers need changing</AlertTitle>
+                    <AlertDescription>
+                      <ul className="mt-2 space-y-1">
+                        {answerErrors.map(error => (
+                          <li key={`${error.questionId}-${error.message}`}>
+                            <span className="font-medium">
+                              {questions.find(q => q.id === error.questionId)?.questionText ?? `Question ${error.questionId}`}:
+                            </span>{" "}
+                            {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 <SurveyTakingFlow
                   questions={questions}
                   onSave={handleSaveProgress}
@@ -18,6 +18,8 @@ import { format } from "date-fns";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { formatPaise } from "@/lib/utils";
+import type { RedemptionQuote } from "@shared/schema";
 
 // Validation schemas
 const upiRedemptionSchema = z.object({
@@ -62,6 +64,7 @@ interface SurveyResponse {
     canRedeem: boolean;
     alreadyRedeemed: boolean;
     redemption?: any;
+    redemptionQuote: RedemptionQuote | null;
 }
 
 export default function SurveyRedemption() {
@@ -112,7 +115,7 @@ export default function SurveyRedemption() {
                 description: "Your redemption request has been submitted and will be processed within 24-48 hours.",
             });
             queryClient.invalidateQueries({ queryKey: ["/api/doctors/current/completed-surveys-with-redemption"] });
-            queryClient.invalidateQueries({ queryKey: ["/api/doctors", "points"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
             setLocation("/doctor/points");
         },
         onError: (error: any) => {
@@ -206,6 +209,10 @@ export default function SurveyRedemption() {
         );
     }
 
+    const quote = surveyResponse.redemptionQuote;
+    const amount = formatPaise(quote ? quote.amountPaise : surveyResponse.pointsEarned * 100);
+    const belowMinimum = !!quote && !quote.meetsMinimum;
+
     return (
         <MainLayout
             pageTitle="Redeem Survey Rewards"
@@ -269,10 +276,35 @@ export default function SurveyRedemption() {
                             <span>Choose Redemption Method</span>
                         </CardTitle>
                         <CardDescription>
-                            Select how you'd like to receive your {surveyResponse.pointsEarned} points (₹{surveyResponse.pointsEarned})
+                            Select how you'd like to receive your {surveyResponse.pointsEarned} points ({amount})
                         </CardDescription>
                     </CardHeader>
                     <CardContent>
+                        {quote && (
+                            <div className="mb-6 rounded-lg border bg-gray-50 p-4">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-sm text-gray-500">
+                                        {quote.points} points × {formatPaise(quote.pointValuePaise)} per point
+                                    </span>
+                                    <span className="text-2xl font-bold text-green-700">{amount}</span>
+                                </div>
+                                {quote.minRedemptionPaise > 0 && (
+                                    <p className="mt-1 text-xs text-gray-500">
+                                        Minimum redemption: {formatPaise(quote.minRedemptionPaise)}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {belowMinimum && (
+                            <Alert variant="destructive" className="mb-6">
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription>
+                                    This survey's reward is below the minimum redemption of {formatPaise(quote!.minRedemptionPaise)}.
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
                         <Form {...form}>
                             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
                                 {/* Redemption Type Selection */}
@@ -386,7 +418,7 @@ export default function SurveyRedemption() {
                                     <AlertDescription>
                                         <strong>Important:</strong> Processing typically takes 24-48 hours.
                                         Please ensure your payment details are correct as they cannot be changed once submitted.
-                                        You will receive ₹{surveyResponse.pointsEarned} in your selected payment method.
+                                        You will receive {amount} in your selected payment method.
                                     </AlertDescription>
                                 </Alert>
 
@@ -402,7 +434,7 @@ export default function SurveyRedemption() {
                                     </Button>
                                     <Button
                                         type="submit"
-                                        disabled={isProcessing || redemptionMutation.isPending}
+                                        disabled={isProcessing || redemptionMutation.isPending || belowMinimum}
                                         className="min-w-[120px]"
                                     >
                                         {isProcessing || redemptionMutation.isPending ? (
@@ -413,7 +445,7 @@ export default function SurveyRedemption() {
                                         ) : (
                                             <>
                                                 <CheckCircle className="mr-2 h-4 w-4" />
-                                                Redeem ₹{surveyResponse.pointsEarned}
+                                                Redeem {amount}
                                             </>
                                         )}
                                     </Button>
@@ -18,6 +18,8 @@ export default function HomePage() {
       setLocation("/client/dashboard");
     } else if (user.role === "rep") {
       setLocation("/rep/dashboard");
+    } else if (user.role === "reviewer") {
+      setLocation("/reviewer/dashboard");
     } else if (user.role === "doctor") {
       setLocation("/doctor/dashboard");
     } else if (user.role === "admin") {
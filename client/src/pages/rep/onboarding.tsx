@@ -11,9 +11,12 @@ import { Button } from "@/components/ui/button";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
-import { Loader2, Download, Upload, QrCode } from "lucide-react";
-import { useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Download, Upload, FileText, Send } from "lucide-react";
+import { useState, ChangeEvent } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { UserWithRole } from "@shared/schema";
 
 // Individual onboarding schema
 const individualSchema = z.object({
@@ -34,15 +37,36 @@ const batchSchema = z.object({
 const otpSchema = z.object({
   doctorEmail: z.string().email({ message: "Invalid email address" }),
   otp: z.string().length(6, { message: "OTP must be 6 digits" }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
 });
 
 type IndividualFormData = z.infer<typeof individualSchema>;
 type BatchFormData = z.infer<typeof batchSchema>;
 type OtpFormData = z.infer<typeof otpSchema>;
 
+interface ImportRowResult {
+  row: number;
+  name: string;
+  email: string;
+  status: "created" | "skipped" | "error";
+  reason?: string;
+  doctorId?: number;
+}
+
+interface ImportReport {
+  total: number;
+  created: number;
+  skipped: number;
+  errors: number;
+  results: ImportRowResult[];
+}
+
 export default function RepOnboarding() {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("individual");
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [otpSentTo, setOtpSentTo] = useState<{ email: string; expiresAt: string } | null>(null);
+  const repId = (user as UserWithRole | null)?.roleDetails?.id;
 
   // Individual onboarding form
   const individualForm = useForm<IndividualFormData>({
@@ -71,6 +95,7 @@ export default function RepOnboarding() {
     defaultValues: {
       doctorEmail: "",
       otp: "",
+      password: "",
     },
   });
 
@@ -108,17 +133,22 @@ export default function RepOnboarding() {
   // Batch onboarding mutation
   const batchMutation = useMutation({
     mutationFn: async (data: BatchFormData) => {
-      // This would be an actual API call in a real application
-      // For now, we'll just simulate a successful import
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      return { success: true, count: 5 };
+      if (!repId) {
+        throw new Error("Representative account not found");
+      }
+      const res = await apiRequest("POST", `/api/representatives/${repId}/doctors/import`, data);
+      return (await res.json()) as ImportReport;
     },
-    onSuccess: () => {
+    onSuccess: (report: ImportReport) => {
+      setImportReport(report);
       toast({
-        title: "Doctors imported",
-        description: "Doctors have been imported successfully. Invitation emails have been sent.",
+        title: "Import finished",
+        description: `${report.created} created, ${report.skipped} skipped, ${report.errors} failed.`,
+        variant: report.errors > 0 ? "destructive" : "default",
       });
-      batchForm.reset();
+      if (report.errors === 0) {
+        batchForm.reset();
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
     },
     onError: (error: Error) => {
@@ -130,13 +160,37 @@ export default function RepOnboarding() {
     },
   });
 
+  // Send activation OTP mutation
+  const sendOtpMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const res = await apiRequest("POST", "/api/auth/activation/request", { email });
+      return (await res.json()) as { message: string; expiresAt: string };
+    },
+    onSuccess: (data, email) => {
+      setOtpSentTo({ email, expiresAt: data.expiresAt });
+      toast({
+        title: "Activation code sent",
+        description: `A 6-digit code has been sent to ${email}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send activation code",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // OTP activation mutation
   const otpMutation = useMutation({
     mutationFn: async (data: OtpFormData) => {
-      // This would be an actual API call in a real application
-      // For now, we'll just simulate a successful activation
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      return { success: true };
+      const res = await apiRequest("POST", "/api/auth/activation/verify", {
+        email: data.doctorEmail,
+        otp: data.otp,
+        password: data.password,
+      });
+      return await res.json();
     },
     onSuccess: () => {
       toast({
@@ -144,6 +198,7 @@ export default function RepOnboarding() {
         description: "Doctor account has been activated successfully.",
       });
       otpForm.reset();
+      setOtpSentTo(null);
       queryClient.invalidateQueries({ queryKey: ["/api/doctors"] });
     },
     onError: (error: Error) => {
@@ -177,13 +232,34 @@ export default function RepOnboarding() {
   };
 
   const onBatchSubmit = (data: BatchFormData) => {
+    setImportReport(null);
     batchMutation.mutate(data);
   };
 
+  // Load an uploaded CSV file into the textarea so it can be reviewed before import
+  const handleCsvFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      batchForm.setValue("csvData", String(reader.result ?? ""), { shouldValidate: true });
+    };
+    reader.readAsText(file);
+    event.target.value = "";
+  };
+
   const onOtpSubmit = (data: OtpFormData) => {
     otpMutation.mutate(data);
   };
 
+  const sendOtp = async () => {
+    const valid = await otpForm.trigger("doctorEmail");
+    if (valid) {
+      sendOtpMutation.mutate(otpForm.getValues("doctorEmail"));
+    }
+  };
+
   const assignDoctorToRep = (doctorId: number) => {
     assignDoctorMutation.mutate(doctorId);
   };
@@ -200,6 +276,41 @@ export default function RepOnboarding() {
     document.body.removeChild(link);
   };
 
+  const escapeCsvValue = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const downloadImportReport = () => {
+    if (!importReport) return;
+
+    const lines = [
+      "row,name,email,status,reason",
+      ...importReport.results.map(result =>
+        [String(result.row), result.name, result.email, result.status, result.reason || ""]
+          .map(escapeCsvValue)
+          .join(",")
+      ),
+    ];
+    const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.setAttribute("download", "doctor_import_report.csv");
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const getImportStatusBadge = (status: ImportRowResult["status"]) => {
+    switch (status) {
+      case "created":
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Created</Badge>;
+      case "skipped":
+        return <Badge variant="outline" className="text-amber-600 border-amber-400">Skipped</Badge>;
+      default:
+        return <Badge variant="outline" className="text-red-600 border-red-400">Error</Badge>;
+    }
+  };
+
   return (
     <MainLayout pageTitle="Doctor Onboarding" pageDescription="Add new doctors to the platform">
       <div className="max-w-3xl mx-auto">
@@ -326,7 +437,19 @@ export default function RepOnboarding() {
               <TabsContent value="batch">
                 <Form {...batchForm}>
                   <form onSubmit={batchForm.handleSubmit(onBatchSubmit)} className="space-y-4">
-                    <div className="flex justify-end mb-2">
+                    <div className="flex justify-end gap-2 mb-2">
+                      <Button type="button" variant="outline" size="sm" asChild>
+                        <label className="cursor-pointer">
+                          <FileText className="mr-2 h-4 w-4" />
+                          Upload CSV File
+                          <input
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="hidden"
+                            onChange={handleCsvFileChange}
+                          />
+                        </label>
+                      </Button>
                       <Button
                         type="button"
                         variant="outline"
@@ -374,12 +497,52 @@ export default function RepOnboarding() {
                     </Button>
                   </form>
                 </Form>
+
+                {importReport && (
+                  <div className="mt-6 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-gray-600">
+                        {importReport.created} created, {importReport.skipped} skipped, {importReport.errors} failed
+                        {" "}of {importReport.total} rows
+                      </p>
+                      <Button type="button" variant="outline" size="sm" onClick={downloadImportReport}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download Report
+                      </Button>
+                    </div>
+                    <div className="border rounded-md max-h-80 overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">Row</TableHead>
+                            <TableHead>Doctor</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Details</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {importReport.results.map((result) => (
+                            <TableRow key={result.row}>
+                              <TableCell>{result.row}</TableCell>
+                              <TableCell>
+                                <div className="font-medium">{result.name || "—"}</div>
+                                <div className="text-xs text-gray-500">{result.email}</div>
+                              </TableCell>
+                              <TableCell>{getImportStatusBadge(result.status)}</TableCell>
+                              <TableCell className="text-sm text-gray-600">{result.reason || ""}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
               </TabsContent>
               
               <TabsContent value="otp">
                 <div className="text-center mb-6">
                   <p className="text-sm text-gray-600 mb-4">
-                    Use this method when you're meeting a doctor in person. Generate an OTP and have them activate their account immediately.
+                    Use this method when you're meeting a doctor in person. Send an OTP to the doctor, then enter it here with the password they choose to activate their account immediately.
                   </p>
                 </div>
                 
@@ -399,15 +562,35 @@ export default function RepOnboarding() {
                       )}
                     />
                     
-                    <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 text-center">
-                      <QrCode className="h-32 w-32 mx-auto mb-4 text-gray-600" />
-                      <p className="text-sm text-gray-600 mb-4">
-                        Scan this QR code or enter the OTP below to complete activation
-                      </p>
-                      <div className="text-2xl font-bold tracking-widest text-primary">
-                        123456
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={sendOtp}
+                      disabled={sendOtpMutation.isPending}
+                    >
+                      {sendOtpMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Sending Code...
+                        </>
+                      ) : (
+                        <>
+                          <Send className="mr-2 h-4 w-4" />
+                          {otpSentTo ? "Resend Activation Code" : "Send Activation Code"}
+                        </>
+                      )}
+                    </Button>
+
+                    {otpSentTo && (
+                      <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 text-center">
+                        <p className="text-sm text-gray-600">
+                          A 6-digit code was sent to <span className="font-medium">{otpSentTo.email}</span>.
+                          Ask the doctor to read it out. It expires at{" "}
+                          {new Date(otpSentTo.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.
+                        </p>
                       </div>
-                    </div>
+                    )}
 
                     <FormField
                       control={otpForm.control}
@@ -423,7 +606,24 @@ export default function RepOnboarding() {
                       )}
                     />
 
-                    <Button type="submit" className="w-full" disabled={otpMutation.isPending}>
+                    <FormField
+                      control={otpForm.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Doctor's Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" placeholder="Ask the doctor to choose a password" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            The doctor signs in with this once the account is active.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button type="submit" className="w-full" disabled={otpMutation.isPending || !otpSentTo}>
                       {otpMutation.isPending ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
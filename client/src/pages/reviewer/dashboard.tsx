@@ -0,0 +1,78 @@
+import { MainLayout } from "@/components/layout/main-layout";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { Survey } from "@shared/schema";
+
+interface ReviewQueueItem {
+  survey: Survey;
+  review: { id: number; round: number; submittedAt: string | null };
+  myDecision: "approved" | "changes_requested" | null;
+}
+
+export default function ReviewerDashboard() {
+  const { data: queue, isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/reviews/queue"],
+  });
+
+  return (
+    <MainLayout pageTitle="Review Queue" pageDescription="Surveys waiting for medical, legal and regulatory sign-off">
+      {isLoading ? (
+        <div className="flex justify-center items-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            {queue && queue.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Survey</TableHead>
+                    <TableHead>Round</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Your Decision</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {queue.map(item => (
+                    <TableRow key={item.review.id}>
+                      <TableCell className="font-medium">{item.survey.title}</TableCell>
+                      <TableCell>{item.review.round}</TableCell>
+                      <TableCell>
+                        {item.review.submittedAt ? format(new Date(item.review.submittedAt), "MMM d, yyyy") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {item.myDecision === "approved" ? (
+                          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Approved</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-blue-600 border-blue-400">Awaiting you</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Link href={`/reviewer/surveys/${item.survey.id}`}>
+                          <Button variant="ghost" size="sm">Review</Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to review</h3>
+                <p className="text-sm text-gray-500">Surveys submitted for review will appear here</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
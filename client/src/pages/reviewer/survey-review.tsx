@@ -0,0 +1,48 @@
+import { MainLayout } from "@/components/layout/main-layout";
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { SurveyReviewCard } from "@/components/survey/survey-review-card";
+import type { Survey } from "@shared/schema";
+
+export default function ReviewerSurveyReview() {
+  const { id } = useParams();
+  const surveyId = parseInt(id as string);
+
+  const { data: survey, isLoading } = useQuery<Survey>({
+    queryKey: ["/api/surveys", surveyId],
+    queryFn: async () => {
+      const res = await fetch(`/api/surveys/${surveyId}`);
+      if (!res.ok) throw new Error("Failed to fetch survey");
+      return res.json();
+    },
+    enabled: !!surveyId && !isNaN(surveyId),
+  });
+
+  return (
+    <MainLayout
+      pageTitle={survey?.title ?? "Survey Review"}
+      pageDescription="Review the submitted content, comment on questions and record your decision"
+    >
+      <div className="space-y-4">
+        <Link href="/reviewer/dashboard">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to queue
+          </Button>
+        </Link>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : survey ? (
+          <SurveyReviewCard survey={survey} mode="reviewer" />
+        ) : (
+          <p className="text-sm text-gray-500">Survey not found.</p>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -5,9 +5,14 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User, InsertUser, LoginData, insertUserSchema, loginSchema } from "@shared/schema";
+import {
+  User, InsertUser, LoginData, insertUserSchema, loginSchema,
+  passwordResetRequestSchema, passwordResetConfirmSchema,
+  updateProfileSchema, changePasswordSchema, UpdateProfileData, ChangePasswordData
+} from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
+import { requestPasswordReset, resetPassword, PasswordResetError } from "./services/passwordResetService";
 
 declare global {
   namespace Express {
@@ -29,13 +34,13 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
@@ -74,6 +79,12 @@ export function setupAuth(app: Express) {
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false, { message: "Invalid credentials" });
         }
+        // Doctors sign in only once their account has been activated
+        if (user.role === "doctor" && user.status === "pending") {
+          return done(null, false, {
+            message: "Your account hasn't been activated yet. Ask your representative to send you an activation code."
+          });
+        }
         return done(null, user);
       } catch (error) {
         return done(error);
@@ -116,6 +127,11 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email already exists" });
       }
 
+      // Reviewers approve a client's surveys, so only the client can add them (POST /api/reviewers)
+      if (userData.role === "reviewer") {
+        return res.status(403).json({ message: "Reviewers are added by their client" });
+      }
+
       // Hash password
       const hashedPassword = await hashPassword(userData.password);
 
@@ -215,17 +231,6 @@ export function setupAuth(app: Express) {
       try {
         await loginPromise;
 
-        // Update user status to active if doctor role and not already active
-        if (user.role === 'doctor' && user.status !== 'active') {
-          try {
-            await storage.updateUser(user.id, { status: 'active' });
-            user.status = 'active';
-          } catch (updateError) {
-            console.error('Error updating doctor status:', updateError);
-            // Continue with login even if status update fails
-          }
-        }
-
         // Return user without password
         const { password, ...userWithoutPassword } = user;
         return res.status(200).json(userWithoutPassword);
@@ -241,6 +246,51 @@ export function setupAuth(app: Express) {
     });
   });
 
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    let email: string;
+    try {
+      ({ email } = passwordResetRequestSchema.parse(req.body));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      return next(error);
+    }
+
+    try {
+      await requestPasswordReset(email);
+      // Same response whether or not the account exists
+      res.status(200).json({ message: "If an account exists for this email, a reset link has been sent." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    let token: string;
+    let password: string;
+    try {
+      ({ token, password } = passwordResetConfirmSchema.parse(req.body));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      return next(error);
+    }
+
+    try {
+      await resetPassword(token, password);
+      res.status(200).json({ message: "Password has been reset. You can now sign in." });
+    } catch (error) {
+      if (error instanceof PasswordResetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
   app.get("/api/user", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Not authenticated" });
@@ -259,4 +309,98 @@ export function setupAuth(app: Express) {
       res.status(500).json({ message: "Server error fetching user details" });
     }
   });
+
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    let profile: UpdateProfileData;
+    try {
+      profile = updateProfileSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      return res.status(500).json({ message: "Server error updating profile" });
+    }
+
+    try {
+      const userId = req.user!.id;
+
+      if (profile.email !== req.user!.email) {
+        const existingEmail = await storage.getUserByEmail(profile.email);
+        if (existingEmail && existingEmail.id !== userId) {
+          return res.status(400).json({ message: "Email already exists" });
+        }
+      }
+
+      const updatedUser = await storage.updateUser(userId, {
+        name: profile.name,
+        email: profile.email,
+        phone: profile.phone || null,
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Specialty lives on the doctor record rather than the user
+      if (updatedUser.role === "doctor" && profile.specialty !== undefined) {
+        const doctor = await storage.getDoctorByUserId(userId);
+        if (doctor) {
+          await storage.updateDoctor(doctor.id, { specialty: profile.specialty || null });
+        }
+      }
+
+      const userWithRole = await storage.getUserWithRole(userId);
+      if (!userWithRole) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password, ...userWithoutPassword } = userWithRole;
+      res.status(200).json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Server error updating profile" });
+    }
+  });
+
+  app.post("/api/user/change-password", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    let passwords: ChangePasswordData;
+    try {
+      passwords = changePasswordSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      return res.status(500).json({ message: "Server error changing password" });
+    }
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await comparePasswords(passwords.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, {
+        password: await hashPassword(passwords.newPassword),
+      });
+
+      // Sign the user out everywhere except the device that made the change
+      await storage.destroyUserSessions(user.id, req.sessionID);
+
+      res.status(200).json({ message: "Password changed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Server error changing password" });
+    }
+  });
 }
@@ -3,9 +3,22 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { seedUsers } from "./seed";
 import { startCronJobs } from "./jobs/cron";
+import { getPayoutProvider } from "./services/payoutProvider";
+import { getNotifier } from "./services/notificationService";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the exact bytes for webhook signature checks
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // app.use((req, res, next) => {
@@ -39,6 +52,11 @@ app.use(express.urlencoded({ extended: false }));
 // });
 
 (async () => {
+  // Fail at startup rather than on the first payout or activation code if the payout
+  // gateway or notifier isn't configured
+  getPayoutProvider();
+  getNotifier();
+
   // Seed the database with initial data if needed
   await seedUsers();
   startCronJobs();
@@ -1,14 +1,16 @@
 import cron from 'node-cron';
-import { processPendingRedemptions } from '../services/redemptionService';
+import { processApprovedRedemptions } from '../services/redemptionService';
+import { applySurveySchedules } from '../services/surveyScheduleService';
 
 // Run every minute (* * * * *)
 export function startCronJobs() {
   console.log('Setting up cron jobs', 'cron');
 
-  cron.schedule('0 * * * *', async () => {
+  // Frequent enough for payout retries; processApprovedRedemptions skips anything not yet due
+  cron.schedule('*/5 * * * *', async () => {
     console.log('Running scheduled redemption processing', 'cron');
     try {
-      const result = await processPendingRedemptions();
+      const result = await processApprovedRedemptions();
       console.log(`Redemption processing completed: ${result.message}`, 'cron');
     } catch (error) {
       console.error(`Error processing redemptions: ${error}`, 'cron');
@@ -16,5 +18,27 @@ export function startCronJobs() {
     }
   });
 
+  // Publish approved surveys on their start dates and close surveys on their end dates.
+  // A run that overlaps a slow previous one is skipped rather than acting on the same surveys.
+  let applyingSchedules = false;
+  cron.schedule('* * * * *', async () => {
+    if (applyingSchedules) {
+      console.log('Previous survey schedule run still in progress, skipping', 'cron');
+      return;
+    }
+    applyingSchedules = true;
+    try {
+      const result = await applySurveySchedules();
+      if (result.activated > 0 || result.closed > 0) {
+        console.log(`Survey schedules applied: ${result.activated} published, ${result.closed} closed`, 'cron');
+      }
+    } catch (error) {
+      console.error(`Error applying survey schedules: ${error}`, 'cron');
+      console.error(error);
+    } finally {
+      applyingSchedules = false;
+    }
+  });
+
   console.log('Cron jobs initialized successfully', 'cron');
 }
\ No newline at end of file
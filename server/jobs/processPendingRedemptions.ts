@@ -1,4 +1,4 @@
-import { processPendingRedemptions } from '../services/redemptionService';
+import { processApprovedRedemptions } from '../services/redemptionService';
 import { log } from '../vite';
 
 // This script is designed to be run as a cron job
@@ -6,7 +6,7 @@ export default async function main() {
   log('Starting redemption processing job', 'cron');
   
   try {
-    const result = await processPendingRedemptions();
+    const result = await processApprovedRedemptions();
     log(`Redemption processing completed: ${result.message}`, 'cron');
   } catch (error) {
     log(`Error processing redemptions: ${error}`, 'cron');
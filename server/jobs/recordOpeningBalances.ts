@@ -0,0 +1,19 @@
+import { recordOpeningBalances } from '../services/pointsLedgerService';
+import { log } from '../vite';
+
+// One-off backfill for doctors who had points before the ledger existed; safe to rerun
+export default async function main() {
+  log('Recording opening points balances', 'backfill');
+
+  try {
+    const result = await recordOpeningBalances();
+    log(`Recorded ${result.recorded} opening balances`, 'backfill');
+  } catch (error) {
+    log(`Error recording opening balances: ${error}`, 'backfill');
+    console.error(error);
+    process.exitCode = 1;
+  }
+}
+
+// Run the job
+main().catch(console.error);
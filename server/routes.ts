@@ -1,14 +1,62 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, hashPassword } from "./auth";
 import {
-  LoginData, insertSurveySchema, insertSurveyQuestionSchema, insertRedemptionSchema,
-  insertSurveyTagSchema, insertSurveyRedemptionOptionSchema
+  LoginData, insertSurveySchema, insertSurveyQuestionSchema, surveyQuestionRulesSchema, insertRedemptionSchema,
+  insertSurveyTagSchema, insertSurveyRedemptionOptionSchema, pointsAdjustmentSchema,
+  redemptionRejectSchema, redemptionBulkActionSchema, clientRedemptionSettingsSchema,
+  surveyRedemptionSettingsSchema, surveyLimitsSchema, surveyQuotaCellsSchema,
+  surveyTargetingSchema, insertDoctorTagSchema, surveyScheduleSchema, surveyStatusChangeSchema,
+  surveyReviewDecisionSchema, surveyReviewCommentSchema, saveSurveyTemplateSchema, surveyCopySchema,
+  questionBankItemSchema, addReviewerSchema, insertBankQuestionSchema, surveyExportSchema, Survey,
+  DoctorSurveyResponse, InsertSurveyQuestion, QuestionBankItem, Redemption, INACTIVE_REDEMPTION_STATUSES
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { log } from './vite'
+import { importDoctorsFromCsv } from "./services/doctorImportService";
+import { issueActivationOtp, verifyActivationOtp, ActivationError } from "./services/activationService";
+import {
+  earnSurveyPoints, holdRedemptionPoints, adjustPoints, expirePoints, getPointsLedger, PointsLedgerError
+} from "./services/pointsLedgerService";
+import {
+  processApprovedRedemptions, checkPayoutStatus, applyPayoutStatus, getRedemptionQuote
+} from "./services/redemptionService";
+import {
+  reserveSurveyCompletion, releaseSurveyCompletion, getSurveyBudget, SurveyBudgetError,
+  isQuotaCellFull, setSurveyQuotaCells
+} from "./services/surveyBudgetService";
+import {
+  isDoctorTargeted, countTargetedDoctors, parseSurveyTargeting, hasTargetingCriteria
+} from "./services/surveyTargetingService";
+import {
+  isWithinSurveyWindow, assertSurveyWindowOpen, validateSurveyWindow, SurveyScheduleError
+} from "./services/surveyScheduleService";
+import {
+  changeSurveyStatus, assertQuestionsEditable, assertQuestionDeletable, assertContentEditable,
+  isStructuralQuestionChange, isSurveyStatus, getSurveyStatusHistory, SurveyLifecycleError
+} from "./services/surveyLifecycleService";
+import {
+  submitSurveyForReview, decideSurveyReview, addReviewComment, getSurveyReviewDetail, getLatestReview,
+  SurveyReviewError
+} from "./services/surveyReviewService";
+import { getDeliveredContent, getSurveyVersionHistory } from "./services/surveyVersionService";
+import {
+  duplicateSurvey, saveSurveyAsTemplate, createSurveyFromTemplate
+} from "./services/surveyTemplateService";
+import {
+  searchQuestionBank, createBankItem, updateBankItem, deleteBankItem, insertBankQuestion,
+  getBankQuestionUsage, QuestionBankError
+} from "./services/questionBankService";
+import { exportSurvey, importSurvey, SurveyImportError } from "./services/surveyTransferService";
+import { validateAnswers, AnswerValidationError } from "./services/answerValidationService";
+import {
+  approveRedemption, rejectRedemption, requeueRedemption, reviewRedemptions, RedemptionReviewError
+} from "./services/redemptionReviewService";
+import {
+  verifyRazorpaySignature, handleRazorpayPayoutWebhook, PayoutWebhookError
+} from "./services/payoutWebhookService";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
@@ -49,6 +97,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Issue an activation OTP to a pending doctor (sent via the configured notifier)
+  app.post("/api/auth/activation/request", hasRole(["rep", "client", "admin"]), async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Doctor email is required" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      const doctor = user ? await storage.getDoctorByUserId(user.id) : undefined;
+      if (!user || !doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      // Reps and clients can only activate their own doctors
+      if (req.user!.role === "rep") {
+        const rep = await storage.getRepresentativeByUserId(req.user!.id);
+        const repDoctors = rep ? await storage.getDoctorsByRepId(rep.id) : [];
+        if (!repDoctors.some(d => d.id === doctor.id)) {
+          return res.status(403).json({ message: "Forbidden: Not your doctor" });
+        }
+      } else if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        const clientDoctors = client ? await storage.getDoctorsByClientId(client.id) : [];
+        if (!clientDoctors.some(d => d.id === doctor.id)) {
+          return res.status(403).json({ message: "Forbidden: Not your doctor" });
+        }
+      }
+
+      const { expiresAt } = await issueActivationOtp(user);
+      res.status(200).json({ message: "Activation code sent", expiresAt });
+    } catch (error) {
+      if (error instanceof ActivationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error issuing activation OTP:", error);
+      res.status(500).json({ message: "Failed to send activation code" });
+    }
+  });
+
+  // Verify an activation OTP; on success the doctor's account becomes active with the password they chose
+  app.post("/api/auth/activation/verify", async (req, res) => {
+    try {
+      const { email, otp, password } = req.body;
+      if (!email || typeof email !== "string" || !/^\d{6}$/.test(String(otp ?? ""))) {
+        return res.status(400).json({ message: "Email and a 6-digit code are required" });
+      }
+      if (typeof password !== "string" || password.length < 6) {
+        return res.status(400).json({ message: "Password must be at least 6 characters" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      if (!user) {
+        return res.status(400).json({ message: "Invalid activation code" });
+      }
+
+      const activatedUser = await verifyActivationOtp(user, String(otp), password);
+      res.status(200).json({
+        message: "Account activated",
+        userId: activatedUser.id,
+        status: activatedUser.status
+      });
+    } catch (error) {
+      if (error instanceof ActivationError) {
+        return res.status(error.status).json({
+          message: error.message,
+          attemptsRemaining: error.attemptsRemaining
+        });
+      }
+      console.error("Error verifying activation OTP:", error);
+      res.status(500).json({ message: "Failed to verify activation code" });
+    }
+  });
+
   // Client Routes
   app.get("/api/clients", isAuthenticated, async (req, res) => {
     try {
@@ -71,6 +193,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Points-to-rupee conversion and minimum redemption for a client's surveys
+  app.put("/api/clients/:id/redemption-settings", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const clientId = parseInt(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      if (req.user!.role === "client" && client.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden: Not your account" });
+      }
+
+      const settings = clientRedemptionSettingsSchema.parse(req.body);
+      const updatedClient = await storage.updateClient(clientId, settings);
+      res.json(updatedClient);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to update redemption settings" });
+    }
+  });
+
   // Representative Routes
   app.get("/api/representatives", isAuthenticated, async (req, res) => {
     try {
@@ -107,6 +253,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The client's MLR reviewers
+  app.get("/api/reviewers", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      let clientId: number;
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        clientId = client.id;
+      } else {
+        clientId = parseInt(req.query.clientId as string) || 0;
+      }
+
+      const reviewers = await storage.getReviewersByClientId(clientId);
+      const enrichedReviewers = await Promise.all(reviewers.map(async reviewer => {
+        const user = await storage.getUser(reviewer.userId);
+        if (!user) return { ...reviewer, user: undefined };
+        const { password, ...userWithoutPassword } = user;
+        return { ...reviewer, user: userWithoutPassword };
+      }));
+      res.json(enrichedReviewers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviewers" });
+    }
+  });
+
+  // Adds a reviewer to the caller's client. Admins pass clientId in the body.
+  app.post("/api/reviewers", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      let clientId: number;
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        clientId = client.id;
+      } else {
+        const client = await storage.getClient(parseInt(req.body.clientId) || 0);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        clientId = client.id;
+      }
+
+      const { reviewRole, ...userData } = addReviewerSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      if (await storage.getUserByEmail(userData.email)) {
+        return res.status(400).json({ message: "Email already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+        role: "reviewer",
+      });
+      const reviewer = await storage.createReviewer({ userId: user.id, clientId, reviewRole });
+
+      const { password, ...userWithoutPassword } = user;
+      res.status(201).json({ ...reviewer, user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to add reviewer" });
+    }
+  });
+
   app.get("/api/representatives/:id", isAuthenticated, async (req, res) => {
     try {
       const representative = await storage.getRepresentative(parseInt(req.params.id));
@@ -237,6 +453,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Doctor tags are private to each client and used for survey targeting. Admins pass
+  // the client as ?clientId= (GET) or clientId in the body (POST).
+  const resolveDoctorTagClient = async (req: Request, res: Response, doctorId: number): Promise<number | undefined> => {
+    let clientId: number;
+    if (req.user!.role === "client") {
+      const client = await storage.getClientByUserId(req.user!.id);
+      if (!client) {
+        res.status(403).json({ message: "Forbidden: Client not found" });
+        return undefined;
+      }
+      clientId = client.id;
+    } else {
+      clientId = parseInt(req.query.clientId ?? req.body?.clientId);
+      if (isNaN(clientId)) {
+        res.status(400).json({ message: "clientId is required" });
+        return undefined;
+      }
+    }
+
+    const clientDoctors = await storage.getDoctorsByClientId(clientId);
+    if (!clientDoctors.some(doctor => doctor.id === doctorId)) {
+      res.status(403).json({ message: "Forbidden: Doctor is not mapped to this client" });
+      return undefined;
+    }
+    return clientId;
+  };
+
+  app.get("/api/doctors/:id/tags", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const doctorId = parseInt(req.params.id);
+      const clientId = await resolveDoctorTagClient(req, res, doctorId);
+      if (clientId === undefined) return;
+
+      const tags = await storage.getDoctorTags(doctorId, clientId);
+      res.json(tags.map(tag => tag.tag));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch doctor tags" });
+    }
+  });
+
+  app.post("/api/doctors/:id/tags", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const doctorId = parseInt(req.params.id);
+      const clientId = await resolveDoctorTagClient(req, res, doctorId);
+      if (clientId === undefined) return;
+
+      const { tags } = req.body;
+      if (!Array.isArray(tags)) {
+        return res.status(400).json({ message: "Tags must be an array" });
+      }
+
+      // Clear existing tags
+      const existingTags = await storage.getDoctorTags(doctorId, clientId);
+      for (const tag of existingTags) {
+        await storage.deleteDoctorTag(doctorId, clientId, tag.tag);
+      }
+
+      // Add new tags
+      const createdTags = [];
+      for (const tag of tags) {
+        if (typeof tag === "string" && tag.trim()) {
+          const createdTag = await storage.createDoctorTag(
+            insertDoctorTagSchema.parse({ doctorId, clientId, tag: tag.trim() })
+          );
+          createdTags.push(createdTag);
+        }
+      }
+
+      res.json(createdTags.map(tag => tag.tag));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to update doctor tags" });
+    }
+  });
+
   // Survey Routes
   // Update this section of code in server/routes.ts
   app.get("/api/surveys", isAuthenticated, async (req, res) => {
@@ -254,8 +547,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .map(response => response.surveyId);
 
           surveys = allSurveys.filter(survey =>
-            survey.status === "active" && !completedSurveyIds.includes(survey.id)
+            survey.status === "active" &&
+            isWithinSurveyWindow(survey) &&
+            !completedSurveyIds.includes(survey.id)
           );
+
+          // Hide surveys whose quota cell for this doctor's specialty is already full
+          const cellsFull = await Promise.all(surveys.map(async survey =>
+            isQuotaCellFull(await storage.getSurveyQuotaCells(survey.id), doctor.specialty)
+          ));
+          surveys = surveys.filter((survey, index) => !cellsFull[index]);
+
+          // Only show surveys whose targeting rules include this doctor
+          const targeted = await Promise.all(surveys.map(survey => isDoctorTargeted(survey, doctor)));
+          surveys = surveys.filter((survey, index) => targeted[index]);
+
+          // Show the title and description of the version the doctor answers
+          surveys = await Promise.all(surveys.map(async (survey): Promise<Survey> => {
+            const delivered = await getDeliveredContent(survey, doctor.id);
+            return { ...survey, title: delivered.title, description: delivered.description };
+          }));
         }
       } else if (req.user.role === "client") {
         const client = await storage.getClientByUserId(req.user.id);
@@ -335,6 +646,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw error;
       }
 
+      const windowError = validateSurveyWindow(surveyData.startsAt ?? null, surveyData.endsAt ?? null);
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
+      }
+
+      // Every survey starts as a draft and goes live through the review lifecycle
+      surveyData.status = "draft";
+
       // If client is creating, use their client ID
       if (req.user.role === "client") {
         const client = await storage.getClientByUserId(req.user.id);
@@ -358,6 +677,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           try {
             const validatedQuestion = insertSurveyQuestionSchema.parse(questionData);
+            surveyQuestionRulesSchema.parse(validatedQuestion);
             await storage.createSurveyQuestion(validatedQuestion);
           } catch (error) {
             if (error instanceof ZodError) {
@@ -417,15 +737,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      if (survey.status === "archived") {
+        return res.status(409).json({ message: "Archived surveys cannot be edited" });
+      }
+
+      // Conversion overrides only apply to redemptions requested after the change
+      const rateOverrides = surveyRedemptionSettingsSchema.safeParse({
+        pointValuePaise: req.body.pointValuePaise,
+        minRedemptionPaise: req.body.minRedemptionPaise
+      });
+      if (!rateOverrides.success) {
+        return res.status(400).json({ message: fromZodError(rateOverrides.error).message });
+      }
+
+      const limits = surveyLimitsSchema.safeParse({
+        pointsBudget: req.body.pointsBudget,
+        maxCompletions: req.body.maxCompletions
+      });
+      if (!limits.success) {
+        return res.status(400).json({ message: fromZodError(limits.error).message });
+      }
+
+      const schedule = surveyScheduleSchema.safeParse({
+        startsAt: req.body.startsAt,
+        endsAt: req.body.endsAt
+      });
+      if (!schedule.success) {
+        return res.status(400).json({ message: fromZodError(schedule.error).message });
+      }
+      const windowError = validateSurveyWindow(
+        schedule.data.startsAt !== undefined ? schedule.data.startsAt : survey.startsAt,
+        schedule.data.endsAt !== undefined ? schedule.data.endsAt : survey.endsAt
+      );
+      if (windowError) {
+        return res.status(400).json({ message: windowError });
+      }
+
+      // Only the survey's own settings are edited here. Spend counters, the published version
+      // and the approved review are kept by the server, targeting has its own validated
+      // endpoint, and status goes through the lifecycle below.
+      const surveyUpdates: Partial<Survey> = insertSurveySchema.pick({
+        title: true, description: true, points: true, estimatedTime: true,
+        pointValuePaise: true, minRedemptionPaise: true, pointsBudget: true, maxCompletions: true
+      }).partial().parse(req.body);
+      if (schedule.data.startsAt !== undefined) surveyUpdates.startsAt = schedule.data.startsAt;
+      if (schedule.data.endsAt !== undefined) surveyUpdates.endsAt = schedule.data.endsAt;
+      const { status } = req.body;
+
+      // Status changes go through the lifecycle so they're validated and recorded
+      if (status !== undefined && status !== survey.status) {
+        if (typeof status !== "string" || !isSurveyStatus(status)) {
+          return res.status(400).json({ message: `Unknown survey status: ${status}` });
+        }
+        if (status === "in_review") {
+          return res.status(400).json({ message: "Submit the survey for review instead" });
+        }
+        await changeSurveyStatus(survey, status, req.user!.id);
+      }
+
       // Update survey
-      const updatedSurvey = await storage.updateSurvey(surveyId, req.body);
+      const updatedSurvey = await storage.updateSurvey(surveyId, surveyUpdates);
       res.json(updatedSurvey);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SurveyLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update survey" });
     }
   });
 
-  app.get("/api/surveys/:id", isAuthenticated, async (req, res) => {
+  // Move a survey along its lifecycle (see SURVEY_STATUS_TRANSITIONS)
+  app.post("/api/surveys/:id/status", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
       const survey = await storage.getSurvey(surveyId);
@@ -433,50 +818,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Check permissions
-      if (req.user.role === "client") {
-        const client = await storage.getClientByUserId(req.user.id);
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
         if (!client || client.id !== survey.clientId) {
           return res.status(403).json({ message: "Forbidden: Not your survey" });
         }
-      } else if (req.user.role === "doctor") {
-        const doctor = await storage.getDoctorByUserId(req.user.id);
-        if (!doctor) {
-          return res.status(403).json({ message: "Forbidden: Doctor not found" });
-        }
-
-        // Check if doctor has access to this survey
-        const doctorSurveys = await storage.getSurveysForDoctor(doctor.id);
-        if (!doctorSurveys.some(s => s.id === surveyId)) {
-          return res.status(403).json({ message: "Forbidden: Survey not available" });
-        }
-      } else if (req.user.role === "rep") {
-        const rep = await storage.getRepresentativeByUserId(req.user.id);
-        if (!rep || rep.clientId !== survey.clientId) {
-          return res.status(403).json({ message: "Forbidden: Not your client's survey" });
-        }
       }
 
-      // Get response stats
-      const responses = await storage.getDoctorSurveyResponsesBySurveyId(surveyId);
-      const completedResponses = responses.filter(r => r.completed);
-
-      // Return survey with stats (not including questions anymore)
-      res.json({
-        ...survey,
-        responseCount: responses.length,
-        completedCount: completedResponses.length,
-        completionRate: responses.length > 0 ? (completedResponses.length / responses.length) * 100 : 0
-      });
+      const { status, reason } = surveyStatusChangeSchema.parse(req.body);
+      if (status === "in_review") {
+        return res.status(400).json({ message: "Submit the survey for review instead" });
+      }
+      res.json(await changeSurveyStatus(survey, status, req.user!.id, reason));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch survey" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SurveyLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to change survey status" });
     }
   });
 
-  // Survey Tags endpoints
-  // Get all available tags across surveys
-  // NEW: Survey-specific redemption endpoint (replaces the old points-based system)
-  app.post("/api/surveys/:id/redeem", hasRole(["doctor"]), async (req, res) => {
+  app.get("/api/surveys/:id/status-history", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
       const survey = await storage.getSurvey(surveyId);
@@ -484,80 +849,647 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      const doctor = await storage.getDoctorByUserId(req.user.id);
-      if (!doctor) {
-        return res.status(404).json({ message: "Doctor not found" });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
       }
 
-      // Check if doctor has completed this survey
-      const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
-      const completedResponse = responses.find(r => r.surveyId === surveyId && r.completed);
-      if (!completedResponse) {
-        return res.status(400).json({ message: "Survey not completed" });
+      res.json(await getSurveyStatusHistory(surveyId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch survey status history" });
+    }
+  });
+
+  // Published versions with their frozen content and response counts
+  app.get("/api/surveys/:id/versions", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Check if already redeemed
-      const existingRedemptions = await storage.getRedemptionsByDoctorId(doctor.id);
-      const alreadyRedeemed = existingRedemptions.find(r => r.surveyId === surveyId);
-      if (alreadyRedeemed) {
-        return res.status(400).json({ message: "Survey rewards already redeemed" });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
       }
 
-      // Validate redemption type is available for this survey
-      const availableOptions = await storage.getSurveyRedemptionOptions(surveyId);
-      const validTypes = availableOptions
-        .filter(option => option.isActive)
-        .map(option => option.redemptionType);
+      res.json(await getSurveyVersionHistory(survey));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch survey versions" });
+    }
+  });
 
-      if (!validTypes.includes(req.body.redemptionType)) {
-        return res.status(400).json({
-          message: "Invalid redemption type for this survey",
-          availableTypes: validTypes
-        });
+  // Copy a survey, with its questions, flow, tags and redemption options, as a new draft
+  app.post("/api/surveys/:id/duplicate", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Create redemption record
-      const redemption = await storage.createRedemption({
-        doctorId: doctor.id,
-        surveyId: surveyId,
-        points: survey.points,
-        redemptionType: req.body.redemptionType,
-        redemptionDetails: req.body.redemptionDetails,
-        status: 'pending'
-      });
-
-      // Update doctor's total redeemed points
-      await storage.updateDoctor(doctor.id, {
-        redeemedPoints: doctor.redeemedPoints + survey.points
-      });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
 
-      res.status(201).json(redemption);
+      const { title } = surveyCopySchema.parse(req.body);
+      res.status(201).json(await duplicateSurvey(survey, title));
     } catch (error) {
-      res.status(500).json({ message: "Failed to redeem survey rewards" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to duplicate survey" });
     }
   });
 
-  // NEW: Get completed surveys with redemption info for a doctor
-  app.get("/api/doctors/current/completed-surveys-with-redemption", hasRole(["doctor"]), async (req, res) => {
+  // Download the survey as a portable JSON file
+  app.get("/api/surveys/:id/export", hasRole(["client", "admin"]), async (req, res) => {
     try {
-      const doctor = await storage.getDoctorByUserId(req.user.id);
-      if (!doctor) {
-        return res.status(404).json({ message: "Doctor not found" });
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Get all completed responses
-      const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
-      const completedResponses = responses.filter(r => r.completed);
-
-      // Get all redemptions for this doctor
-      const redemptions = await storage.getRedemptionsByDoctorId(doctor.id);
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
+
+      const fileName = survey.title.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "survey";
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.survey.json"`);
+      res.json(await exportSurvey(survey));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export survey" });
+    }
+  });
+
+  // Create a draft survey from an exported file. Admins import into ?clientId.
+  app.post("/api/surveys/import", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      let clientId: number;
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        clientId = client.id;
+      } else {
+        clientId = parseInt(req.query.clientId as string);
+        if (isNaN(clientId) || !(await storage.getClient(clientId))) {
+          return res.status(400).json({ message: "A valid clientId is required" });
+        }
+      }
+
+      const data = surveyExportSchema.parse(req.body);
+      res.status(201).json(await importSurvey(data, clientId));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SurveyImportError) {
+        return res.status(error.status).json({ message: error.message, conflicts: error.conflicts });
+      }
+      res.status(500).json({ message: "Failed to import survey" });
+    }
+  });
+
+  // Survey template library. Clients see their own templates; admins pass ?clientId.
+  app.get("/api/survey-templates", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      let clientId: number;
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        clientId = client.id;
+      } else {
+        clientId = parseInt(req.query.clientId as string) || 0;
+      }
+
+      res.json(await storage.getSurveyTemplatesByClientId(clientId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch survey templates" });
+    }
+  });
+
+  app.post("/api/survey-templates", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const { surveyId, name, description } = saveSurveyTemplateSchema.parse(req.body);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
+
+      res.status(201).json(await saveSurveyAsTemplate(survey, name, description, req.user!.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to save survey template" });
+    }
+  });
+
+  // Start a new draft survey from a template
+  app.post("/api/survey-templates/:id/surveys", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const template = await storage.getSurveyTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== template.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your template" });
+        }
+      }
+
+      const { title } = surveyCopySchema.parse(req.body);
+      res.status(201).json(await createSurveyFromTemplate(template, title));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to create survey from template" });
+    }
+  });
+
+  app.delete("/api/survey-templates/:id", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const template = await storage.getSurveyTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== template.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your template" });
+        }
+      }
+
+      await storage.deleteSurveyTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete survey template" });
+    }
+  });
+
+  // Question bank. Clients manage their own standardized questions; admins pass clientId.
+  // Returns undefined after responding if the client can't be resolved.
+  const resolveQuestionBankClient = async (req: Request, res: Response): Promise<number | undefined> => {
+    if (req.user!.role === "client") {
+      const client = await storage.getClientByUserId(req.user!.id);
+      if (!client) {
+        res.status(404).json({ message: "Client not found" });
+        return undefined;
+      }
+      return client.id;
+    }
+
+    const clientId = parseInt(req.query.clientId ?? req.body?.clientId);
+    if (isNaN(clientId)) {
+      res.status(400).json({ message: "clientId is required" });
+      return undefined;
+    }
+    return clientId;
+  };
+
+  // Returns undefined after responding if the entry is missing or belongs to another client
+  const loadQuestionBankItem = async (req: Request, res: Response): Promise<QuestionBankItem | undefined> => {
+    const item = await storage.getQuestionBankItem(parseInt(req.params.id));
+    if (!item) {
+      res.status(404).json({ message: "Question not found" });
+      return undefined;
+    }
+
+    if (req.user!.role === "client") {
+      const client = await storage.getClientByUserId(req.user!.id);
+      if (!client || client.id !== item.clientId) {
+        res.status(403).json({ message: "Forbidden: Not your question" });
+        return undefined;
+      }
+    }
+    return item;
+  };
+
+  app.get("/api/question-bank", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const clientId = await resolveQuestionBankClient(req, res);
+      if (clientId === undefined) return;
+
+      res.json(await searchQuestionBank(clientId, {
+        q: req.query.q as string | undefined,
+        tag: req.query.tag as string | undefined
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch question bank" });
+    }
+  });
+
+  app.post("/api/question-bank", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const clientId = await resolveQuestionBankClient(req, res);
+      if (clientId === undefined) return;
+
+      const input = questionBankItemSchema.parse(req.body);
+      res.status(201).json(await createBankItem(clientId, input, req.user!.id));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to create question" });
+    }
+  });
+
+  app.put("/api/question-bank/:id", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const item = await loadQuestionBankItem(req, res);
+      if (!item) return;
+
+      const input = questionBankItemSchema.parse(req.body);
+      res.json(await updateBankItem(item, input));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
+  app.delete("/api/question-bank/:id", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const item = await loadQuestionBankItem(req, res);
+      if (!item) return;
+
+      await deleteBankItem(item);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof QuestionBankError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  // Answers to a bank question in each survey that uses it
+  app.get("/api/question-bank/:id/usage", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const item = await loadQuestionBankItem(req, res);
+      if (!item) return;
+
+      res.json(await getBankQuestionUsage(item));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch question usage" });
+    }
+  });
+
+  // MLR review. Clients and admins submit surveys and follow the review; the client's
+  // reviewers comment and decide. Returns false after responding if access is denied.
+  const checkSurveyReviewAccess = async (req: Request, res: Response, survey: Survey): Promise<boolean> => {
+    if (req.user!.role === "client") {
+      const client = await storage.getClientByUserId(req.user!.id);
+      if (!client || client.id !== survey.clientId) {
+        res.status(403).json({ message: "Forbidden: Not your survey" });
+        return false;
+      }
+    } else if (req.user!.role === "reviewer") {
+      const reviewer = await storage.getReviewerByUserId(req.user!.id);
+      if (!reviewer || reviewer.clientId !== survey.clientId) {
+        res.status(403).json({ message: "Forbidden: Not your client's survey" });
+        return false;
+      }
+    }
+    return true;
+  };
+
+  app.post("/api/surveys/:id/review", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      if (!(await checkSurveyReviewAccess(req, res, survey))) return;
+
+      res.status(201).json(await submitSurveyForReview(survey, req.user!.id));
+    } catch (error) {
+      if (error instanceof SurveyReviewError || error instanceof SurveyLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to submit survey for review" });
+    }
+  });
+
+  app.get("/api/surveys/:id/review", hasRole(["client", "admin", "reviewer"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      if (!(await checkSurveyReviewAccess(req, res, survey))) return;
+
+      res.json(await getSurveyReviewDetail(survey));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch survey review" });
+    }
+  });
+
+  app.post("/api/surveys/:id/review/decision", hasRole(["reviewer"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      const reviewer = await storage.getReviewerByUserId(req.user!.id);
+      if (!reviewer || reviewer.clientId !== survey.clientId) {
+        return res.status(403).json({ message: "Forbidden: Not your client's survey" });
+      }
+
+      const { decision, comment } = surveyReviewDecisionSchema.parse(req.body);
+      res.json(await decideSurveyReview(survey, reviewer, req.user!.id, decision, comment));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SurveyReviewError || error instanceof SurveyLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record review decision" });
+    }
+  });
+
+  app.post("/api/surveys/:id/review/comments", hasRole(["client", "admin", "reviewer"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      if (!(await checkSurveyReviewAccess(req, res, survey))) return;
+
+      const { questionId, body } = surveyReviewCommentSchema.parse(req.body);
+      res.status(201).json(await addReviewComment(survey, req.user!.id, questionId, body));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof SurveyReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to add review comment" });
+    }
+  });
+
+  app.put("/api/surveys/:id/review/comments/:commentId", hasRole(["client", "admin", "reviewer"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+      if (!(await checkSurveyReviewAccess(req, res, survey))) return;
+
+      const comment = await storage.getSurveyReviewComment(parseInt(req.params.commentId));
+      const review = comment ? await storage.getSurveyReview(comment.reviewId) : undefined;
+      if (!comment || !review || review.surveyId !== survey.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (typeof req.body.resolved !== "boolean") {
+        return res.status(400).json({ message: "resolved must be true or false" });
+      }
+
+      res.json(await storage.updateSurveyReviewComment(comment.id, { resolved: req.body.resolved }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update review comment" });
+    }
+  });
+
+  // Surveys waiting on the signed-in reviewer's client
+  app.get("/api/reviews/queue", hasRole(["reviewer"]), async (req, res) => {
+    try {
+      const reviewer = await storage.getReviewerByUserId(req.user!.id);
+      if (!reviewer) {
+        return res.status(404).json({ message: "Reviewer not found" });
+      }
+
+      const surveys = (await storage.getSurveysByClientId(reviewer.clientId))
+        .filter(survey => survey.status === "in_review");
+      const queue = await Promise.all(surveys.map(async survey => {
+        const review = await getLatestReview(survey.id);
+        if (!review || review.status !== "pending") return null;
+        const decisions = await storage.getSurveyReviewDecisions(review.id);
+        return {
+          survey,
+          review: { id: review.id, round: review.round, submittedAt: review.submittedAt },
+          myDecision: decisions.find(d => d.reviewerId === reviewer.id)?.decision ?? null
+        };
+      }));
+
+      res.json(queue.filter(item => item !== null));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  app.get("/api/surveys/:id", isAuthenticated, async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      // Check permissions
+      let viewingDoctorId: number | undefined;
+      if (req.user.role === "client") {
+        const client = await storage.getClientByUserId(req.user.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      } else if (req.user.role === "doctor") {
+        const doctor = await storage.getDoctorByUserId(req.user.id);
+        if (!doctor) {
+          return res.status(403).json({ message: "Forbidden: Doctor not found" });
+        }
+        viewingDoctorId = doctor.id;
+
+        // Check if doctor has access to this survey
+        const doctorSurveys = await storage.getSurveysForDoctor(doctor.id);
+        if (!doctorSurveys.some(s => s.id === surveyId)) {
+          return res.status(403).json({ message: "Forbidden: Survey not available" });
+        }
+
+        // Doctors who already started the survey keep access if the targeting changes
+        const doctorResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+        if (!doctorResponses.some(r => r.surveyId === surveyId) && !(await isDoctorTargeted(survey, doctor))) {
+          return res.status(403).json({ message: "Forbidden: Survey not available" });
+        }
+      } else if (req.user.role === "rep") {
+        const rep = await storage.getRepresentativeByUserId(req.user.id);
+        if (!rep || rep.clientId !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your client's survey" });
+        }
+      } else if (req.user!.role === "reviewer") {
+        const reviewer = await storage.getReviewerByUserId(req.user!.id);
+        if (!reviewer || reviewer.clientId !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your client's survey" });
+        }
+      }
+
+      // Get response stats
+      const responses = await storage.getDoctorSurveyResponsesBySurveyId(surveyId);
+      const completedResponses = responses.filter(r => r.completed);
+
+      // Doctors see the title and description of the version they answer
+      const delivered = viewingDoctorId ? await getDeliveredContent(survey, viewingDoctorId) : null;
+
+      // Return survey with stats (not including questions anymore)
+      res.json({
+        ...survey,
+        ...(delivered && { title: delivered.title, description: delivered.description }),
+        responseCount: responses.length,
+        completedCount: completedResponses.length,
+        completionRate: responses.length > 0 ? (completedResponses.length / responses.length) * 100 : 0
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch survey" });
+    }
+  });
+
+  // Survey Tags endpoints
+  // Get all available tags across surveys
+  // NEW: Survey-specific redemption endpoint (replaces the old points-based system)
+  app.post("/api/surveys/:id/redeem", hasRole(["doctor"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      const doctor = await storage.getDoctorByUserId(req.user.id);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      // Check if doctor has completed this survey
+      const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+      const completedResponse = responses.find(r => r.surveyId === surveyId && r.completed);
+      if (!completedResponse) {
+        return res.status(400).json({ message: "Survey not completed" });
+      }
+
+      // Check if already redeemed. Rejected and failed redemptions paid nothing, so they
+      // don't count; redemptions_doctor_survey_active_unique settles concurrent requests.
+      const existingRedemptions = await storage.getRedemptionsByDoctorId(doctor.id);
+      const alreadyRedeemed = existingRedemptions.find(r =>
+        r.surveyId === surveyId && !INACTIVE_REDEMPTION_STATUSES.includes(r.status));
+      if (alreadyRedeemed) {
+        return res.status(400).json({ message: "Survey rewards already redeemed" });
+      }
+
+      // Validate redemption type is available for this survey
+      const availableOptions = await storage.getSurveyRedemptionOptions(surveyId);
+      const validTypes = availableOptions
+        .filter(option => option.isActive)
+        .map(option => option.redemptionType);
+
+      if (!validTypes.includes(req.body.redemptionType)) {
+        return res.status(400).json({
+          message: "Invalid redemption type for this survey",
+          availableTypes: validTypes
+        });
+      }
+
+      // Redeem what the doctor earned, even if the survey's reward has changed since.
+      // Responses completed before pointsEarned was recorded earned the survey's points.
+      const points = completedResponse.pointsEarned ?? survey.points;
+      const quote = await getRedemptionQuote(survey, points);
+      if (!quote.meetsMinimum) {
+        return res.status(400).json({
+          message: `The minimum redemption for this survey is ₹${(quote.minRedemptionPaise / 100).toFixed(2)}`,
+          quote
+        });
+      }
+
+      // Create redemption record, fixing the rate so later setting changes don't affect it
+      let redemption: Redemption;
+      try {
+        redemption = await storage.createRedemption({
+          doctorId: doctor.id,
+          surveyId: surveyId,
+          points,
+          pointValuePaise: quote.pointValuePaise,
+          amountPaise: quote.amountPaise,
+          redemptionType: req.body.redemptionType,
+          redemptionDetails: req.body.redemptionDetails,
+          status: 'pending'
+        });
+      } catch (error: any) {
+        // Unique violation on redemptions_doctor_survey_active_unique
+        if (error?.code === "23505") {
+          return res.status(400).json({ message: "Survey rewards already redeemed" });
+        }
+        throw error;
+      }
+
+      // Hold the points on the ledger until the payout settles
+      try {
+        await holdRedemptionPoints(redemption);
+      } catch (error) {
+        if (error instanceof PointsLedgerError) {
+          await storage.updateRedemption(redemption.id, {
+            status: 'failed',
+            failureReason: error.message
+          });
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      res.status(201).json(redemption);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to redeem survey rewards" });
+    }
+  });
+
+  // NEW: Get completed surveys with redemption info for a doctor
+  app.get("/api/doctors/current/completed-surveys-with-redemption", hasRole(["doctor"]), async (req, res) => {
+    try {
+      const doctor = await storage.getDoctorByUserId(req.user.id);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      // Get all completed responses
+      const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+      const completedResponses = responses.filter(r => r.completed);
+
+      // Get all redemptions for this doctor
+      const redemptions = await storage.getRedemptionsByDoctorId(doctor.id);
 
       // Enrich responses with survey details and redemption info
       const enrichedResponses = await Promise.all(
         completedResponses.map(async (response) => {
           const survey = await storage.getSurvey(response.surveyId);
           const redemptionOptions = await storage.getSurveyRedemptionOptions(response.surveyId);
-          const redemption = redemptions.find(r => r.surveyId === response.surveyId);
+          const redemption = redemptions.find(r =>
+            r.surveyId === response.surveyId && !INACTIVE_REDEMPTION_STATUSES.includes(r.status));
 
           return {
             ...response,
@@ -601,7 +1533,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const survey = await storage.getSurvey(surveyId);
       const redemptionOptions = await storage.getSurveyRedemptionOptions(surveyId);
       const redemptions = await storage.getRedemptionsByDoctorId(doctor.id);
-      const redemption = redemptions.find(r => r.surveyId === surveyId);
+      const redemption = redemptions.find(r =>
+        r.surveyId === surveyId && !INACTIVE_REDEMPTION_STATUSES.includes(r.status));
+      const redemptionQuote = survey
+        ? await getRedemptionQuote(survey, surveyResponse.pointsEarned ?? survey.points)
+        : null;
 
       const enrichedResponse = {
         ...surveyResponse,
@@ -613,7 +1549,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         },
         canRedeem: redemptionOptions.length > 0 && redemptionOptions.some(option => option.isActive),
         alreadyRedeemed: !!redemption,
-        redemption: redemption || null
+        redemption: redemption || null,
+        redemptionQuote
       };
 
       res.json(enrichedResponse);
@@ -790,66 +1727,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Survey-specific redemption endpoint
-  app.post("/api/surveys/:id/redeem", hasRole(["doctor"]), async (req, res) => {
-    try {
-      const surveyId = parseInt(req.params.id);
-      const survey = await storage.getSurvey(surveyId);
-      if (!survey) {
-        return res.status(404).json({ message: "Survey not found" });
-      }
-
-      const doctor = await storage.getDoctorByUserId(req.user.id);
-      if (!doctor) {
-        return res.status(404).json({ message: "Doctor not found" });
-      }
-
-      // Check if doctor has completed this survey
-      const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
-      const completedResponse = responses.find(r => r.surveyId === surveyId && r.completed);
-      if (!completedResponse) {
-        return res.status(400).json({ message: "Survey not completed" });
-      }
-
-      // Check if already redeemed
-      const existingRedemptions = await storage.getRedemptionsByDoctorId(doctor.id);
-      const alreadyRedeemed = existingRedemptions.find(r => r.surveyId === surveyId);
-      if (alreadyRedeemed) {
-        return res.status(400).json({ message: "Survey rewards already redeemed" });
-      }
-
-      // Validate redemption type is available for this survey
-      const availableOptions = await storage.getSurveyRedemptionOptions(surveyId);
-      const validTypes = availableOptions
-        .filter(option => option.isActive)
-        .map(option => option.redemptionType);
-
-      if (!validTypes.includes(req.body.redemptionType)) {
-        return res.status(400).json({
-          message: "Invalid redemption type for this survey",
-          availableTypes: validTypes
-        });
-      }
-
-      // Create redemption record
-      const redemption = await storage.createRedemption({
-        doctorId: doctor.id,
-        surveyId: surveyId,
-        points: survey.points,
-        redemptionType: req.body.redemptionType,
-        redemptionDetails: req.body.redemptionDetails,
-        status: 'pending'
-      });
-
-      res.status(201).json({
-        ...redemption,
-        message: "Redemption request submitted successfully. Processing will begin within 24-48 hours."
-      });
-    } catch (error) {
-      res.status(500).json({ message: "Failed to redeem survey rewards" });
-    }
-  });
-
   // Dedicated endpoint for survey questions
   app.get("/api/surveys/:id/questions", isAuthenticated, async (req, res) => {
     try {
@@ -862,6 +1739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check permissions
+      let viewingDoctorId: number | undefined;
       if (req.user.role === "client") {
         const client = await storage.getClientByUserId(req.user.id);
         if (!client || client.id !== survey.clientId) {
@@ -872,21 +1750,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!doctor) {
           return res.status(403).json({ message: "Forbidden: Doctor not found" });
         }
+        viewingDoctorId = doctor.id;
 
         // Check if doctor has access to this survey
         const doctorSurveys = await storage.getSurveysForDoctor(doctor.id);
         if (!doctorSurveys.some(s => s.id === surveyId)) {
           return res.status(403).json({ message: "Forbidden: Survey not available" });
         }
+
+        // Doctors who already started the survey keep access if the targeting changes
+        const doctorResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+        if (!doctorResponses.some(r => r.surveyId === surveyId) && !(await isDoctorTargeted(survey, doctor))) {
+          return res.status(403).json({ message: "Forbidden: Survey not available" });
+        }
       } else if (req.user.role === "rep") {
         const rep = await storage.getRepresentativeByUserId(req.user.id);
         if (!rep || rep.clientId !== survey.clientId) {
           return res.status(403).json({ message: "Forbidden: Not your client's survey" });
         }
+      } else if (req.user!.role === "reviewer") {
+        const reviewer = await storage.getReviewerByUserId(req.user!.id);
+        if (!reviewer || reviewer.clientId !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your client's survey" });
+        }
       }
 
-      // Get survey questions
-      const questions = await storage.getSurveyQuestionsBySurveyId(surveyId);
+      // Doctors get the published version they answer; everyone else sees the editable draft
+      const questions = viewingDoctorId
+        ? (await getDeliveredContent(survey, viewingDoctorId)).questions
+        : await storage.getSurveyQuestionsBySurveyId(surveyId);
 
       // Return questions
       res.json(questions);
@@ -914,6 +1806,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      try {
+        await assertQuestionsEditable(survey);
+      } catch (error) {
+        if (error instanceof SurveyLifecycleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
       // Validate question data
       let questionData;
       try {
@@ -921,6 +1822,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...req.body,
           surveyId
         });
+        surveyQuestionRulesSchema.parse(questionData);
       } catch (error) {
         if (error instanceof ZodError) {
           const validationError = fromZodError(error);
@@ -937,6 +1839,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: "Failed to create survey question" });
     }
   });
+
+  // Append a copy of a question bank entry to the survey
+  app.post("/api/surveys/:id/questions/from-bank", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const survey = await storage.getSurvey(parseInt(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
+
+      const { bankQuestionId } = insertBankQuestionSchema.parse(req.body);
+      const item = await storage.getQuestionBankItem(bankQuestionId);
+      if (!item) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      res.status(201).json(await insertBankQuestion(survey, item));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof QuestionBankError || error instanceof SurveyLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to insert question" });
+    }
+  });
   // Add this endpoint to update survey questions flow
   app.put("/api/surveys/:id/questions/flow", hasRole(["client", "admin"]), async (req, res) => {
     try {
@@ -956,6 +1891,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      try {
+        await assertQuestionsEditable(survey);
+      } catch (error) {
+        if (error instanceof SurveyLifecycleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
       // Validate request body
       const updatedQuestions = req.body;
       if (!Array.isArray(updatedQuestions)) {
@@ -995,70 +1939,334 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/surveys/:id/questions/:questionId", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
-      const questionId = parseInt(req.params.questionId);
-
+      const questionId = parseInt(req.params.questionId);
+
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      // Check if question exists and belongs to this survey
+      const question = await storage.getSurveyQuestion(questionId);
+      if (!question || question.surveyId !== surveyId) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      // Check permissions for client users
+      if (req.user.role === "client") {
+        const client = await storage.getClientByUserId(req.user.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
+
+      // Validate the changes, and the question they leave behind
+      let changes: Partial<InsertSurveyQuestion>;
+      try {
+        changes = insertSurveyQuestionSchema.partial().parse(req.body);
+        surveyQuestionRulesSchema.parse({ ...question, ...changes });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          const validationError = fromZodError(error);
+          return res.status(400).json({ message: validationError.message });
+        }
+        throw error;
+      }
+
+      // Wording can be corrected after responses arrive, but not on archived surveys or
+      // while the content is in review
+      try {
+        if (isStructuralQuestionChange(question, changes)) {
+          await assertQuestionsEditable(survey);
+        } else {
+          assertContentEditable(survey);
+        }
+      } catch (error) {
+        if (error instanceof SurveyLifecycleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // Update question
+      const updatedQuestion = await storage.updateSurveyQuestion(questionId, changes);
+      res.json(updatedQuestion);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
+  // Delete a survey question
+  app.delete("/api/surveys/:id/questions/:questionId", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const questionId = parseInt(req.params.questionId);
+
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      // Check if question exists and belongs to this survey
+      const question = await storage.getSurveyQuestion(questionId);
+      if (!question || question.surveyId !== surveyId) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      // Check permissions for client users
+      if (req.user.role === "client") {
+        const client = await storage.getClientByUserId(req.user.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
+      }
+
+      try {
+        await assertQuestionDeletable(survey, questionId);
+      } catch (error) {
+        if (error instanceof SurveyLifecycleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // Delete question
+      await storage.deleteSurveyQuestion(questionId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  // Save partial survey response (auto-save)
+  app.post("/api/surveys/:id/partial-responses", hasRole(["doctor"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      // Get doctor
+      const doctor = await storage.getDoctorByUserId(req.user.id);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      if (!(await isDoctorTargeted(survey, doctor))) {
+        return res.status(403).json({ message: "Forbidden: This survey is not targeted at you" });
+      }
+
+      if (survey.status !== "active") {
+        return res.status(409).json({ message: "This survey is not accepting responses" });
+      }
+
+      try {
+        assertSurveyWindowOpen(survey);
+      } catch (error) {
+        if (error instanceof SurveyScheduleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // Check if doctor already completed this survey
+      const existingResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+      const completedResponse = existingResponses.find(r => r.surveyId === surveyId && r.completed);
+      if (completedResponse) {
+        return res.status(400).json({ message: "Survey already completed" });
+      }
+
+      // Create or update partial response
+      let response = existingResponses.find(r => r.surveyId === surveyId && !r.completed);
+      if (!response) {
+        // New partial response, answering the current published version
+        response = await storage.createDoctorSurveyResponse({
+          doctorId: doctor.id,
+          surveyId,
+          completed: false,
+          surveyVersionId: survey.currentVersionId
+        });
+      }
+
+      // Save question responses
+      if (req.body.responses && Array.isArray(req.body.responses)) {
+        // For each incoming response, check if it already exists and update it
+        // or create a new one if it doesn't exist
+        for (const questionResponse of req.body.responses) {
+          // Get existing question responses for this survey response
+          const existingQuestionResponses = await storage.getQuestionResponsesByDoctorSurveyResponseId(response.id);
+
+          // Check if a response for this question already exists
+          const existingResponse = existingQuestionResponses.find(
+            qr => qr.questionId === questionResponse.questionId
+          );
+
+          if (existingResponse) {
+            // Update existing response
+            await storage.updateQuestionResponse(existingResponse.id, {
+              responseData: questionResponse.response
+            });
+          } else {
+            // Create new response
+            await storage.createQuestionResponse({
+              doctorSurveyResponseId: response.id,
+              questionId: questionResponse.questionId,
+              responseData: questionResponse.response
+            });
+          }
+        }
+      }
+
+      res.status(200).json({ success: true, message: "Progress saved" });
+    } catch (error) {
+      console.error("Error saving partial response:", error);
+      res.status(500).json({ message: "Failed to save survey progress" });
+    }
+  });
+
+  // Submit completed survey response
+  app.post("/api/surveys/:id/responses", hasRole(["doctor"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
+      }
+
+      // Get doctor
+      const doctor = await storage.getDoctorByUserId(req.user.id);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      if (!(await isDoctorTargeted(survey, doctor))) {
+        return res.status(403).json({ message: "Forbidden: This survey is not targeted at you" });
+      }
+
+      try {
+        assertSurveyWindowOpen(survey);
+      } catch (error) {
+        if (error instanceof SurveyScheduleError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // Check if doctor already completed this survey
+      const existingResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
+      const existingResponse = existingResponses.find(r => r.surveyId === surveyId && r.completed);
+      if (existingResponse) {
+        return res.status(400).json({ message: "Survey already completed" });
+      }
+
+      // Check the answers against the questions this doctor was shown
+      try {
+        const { questions } = await getDeliveredContent(survey, doctor.id);
+        validateAnswers(questions, Array.isArray(req.body.responses) ? req.body.responses : []);
+      } catch (error) {
+        if (error instanceof AnswerValidationError) {
+          return res.status(error.status).json({ message: error.message, errors: error.errors });
+        }
+        throw error;
+      }
+
+      // Count this completion against the survey's quota and points budget first, so
+      // concurrent submissions can't overspend; the survey closes when either runs out
+      try {
+        await reserveSurveyCompletion(survey, doctor.specialty);
+      } catch (error) {
+        if (error instanceof SurveyBudgetError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      // Save the answers with the completion, then credit the points. Anything that goes
+      // wrong after the reservation hands the slot back to the survey.
+      let response: DoctorSurveyResponse | undefined;
+      try {
+        const answers = Array.isArray(req.body.responses) ? req.body.responses : [];
+        response = await storage.completeDoctorSurveyResponse(
+          {
+            doctorId: doctor.id,
+            surveyId,
+            completed: true,
+            pointsEarned: survey.points,
+            // A new response answers the current published version
+            surveyVersionId: survey.currentVersionId
+          },
+          answers.map((questionResponse: { questionId: number; data: unknown }) => ({
+            questionId: questionResponse.questionId,
+            responseData: JSON.stringify(questionResponse.data)
+          }))
+        );
+        if (!response) {
+          await releaseSurveyCompletion(survey, doctor.specialty);
+          return res.status(400).json({ message: "Survey already completed" });
+        }
+
+        await earnSurveyPoints(doctor.id, surveyId, survey.points);
+      } catch (error) {
+        await releaseSurveyCompletion(survey, doctor.specialty);
+        if (response) await storage.reopenDoctorSurveyResponse(response.id);
+        if (error instanceof PointsLedgerError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      res.status(201).json(response);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to submit survey response" });
+    }
+  });
+
+  // Points budget and completion quota usage, with a burn-down series
+  app.get("/api/surveys/:id/budget", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
       const survey = await storage.getSurvey(surveyId);
       if (!survey) {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Check if question exists and belongs to this survey
-      const question = await storage.getSurveyQuestion(questionId);
-      if (!question || question.surveyId !== surveyId) {
-        return res.status(404).json({ message: "Question not found" });
-      }
-
-      // Check permissions for client users
-      if (req.user.role === "client") {
-        const client = await storage.getClientByUserId(req.user.id);
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
         if (!client || client.id !== survey.clientId) {
           return res.status(403).json({ message: "Forbidden: Not your survey" });
         }
       }
 
-      // Update question
-      const updatedQuestion = await storage.updateSurveyQuestion(questionId, req.body);
-      res.json(updatedQuestion);
+      res.json(await getSurveyBudget(survey));
     } catch (error) {
-      res.status(500).json({ message: "Failed to update question" });
+      res.status(500).json({ message: "Failed to fetch survey budget" });
     }
   });
 
-  // Delete a survey question
-  app.delete("/api/surveys/:id/questions/:questionId", hasRole(["client", "admin"]), async (req, res) => {
+  // Specialty quota cells, e.g. 50 cardiologists and 30 endocrinologists
+  app.get("/api/surveys/:id/quota-cells", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
-      const questionId = parseInt(req.params.questionId);
-
       const survey = await storage.getSurvey(surveyId);
       if (!survey) {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Check if question exists and belongs to this survey
-      const question = await storage.getSurveyQuestion(questionId);
-      if (!question || question.surveyId !== surveyId) {
-        return res.status(404).json({ message: "Question not found" });
-      }
-
-      // Check permissions for client users
-      if (req.user.role === "client") {
-        const client = await storage.getClientByUserId(req.user.id);
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
         if (!client || client.id !== survey.clientId) {
           return res.status(403).json({ message: "Forbidden: Not your survey" });
         }
       }
 
-      // Delete question
-      await storage.deleteSurveyQuestion(questionId);
-      res.json({ success: true });
+      res.json(await storage.getSurveyQuotaCells(surveyId));
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete question" });
+      res.status(500).json({ message: "Failed to fetch quota cells" });
     }
   });
 
-  // Save partial survey response (auto-save)
-  app.post("/api/surveys/:id/partial-responses", hasRole(["doctor"]), async (req, res) => {
+  app.put("/api/surveys/:id/quota-cells", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
       const survey = await storage.getSurvey(surveyId);
@@ -1066,68 +2274,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Get doctor
-      const doctor = await storage.getDoctorByUserId(req.user.id);
-      if (!doctor) {
-        return res.status(404).json({ message: "Doctor not found" });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
       }
 
-      // Check if doctor already completed this survey
-      const existingResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
-      const completedResponse = existingResponses.find(r => r.surveyId === surveyId && r.completed);
-      if (completedResponse) {
-        return res.status(400).json({ message: "Survey already completed" });
+      const { cells } = surveyQuotaCellsSchema.parse(req.body);
+      res.json(await setSurveyQuotaCells(survey, cells));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({ message: "Failed to update quota cells" });
+    }
+  });
 
-      // Create or update partial response
-      let response = existingResponses.find(r => r.surveyId === surveyId && !r.completed);
-      if (!response) {
-        // New partial response
-        response = await storage.createDoctorSurveyResponse({
-          doctorId: doctor.id,
-          surveyId,
-          completed: false
-        });
+  // Targeting rules: which specialties, reps' doctors, named doctors and tagged doctors
+  // can see a survey. Also returns the options the editor can pick from.
+  app.get("/api/surveys/:id/targeting", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Save question responses
-      if (req.body.responses && Array.isArray(req.body.responses)) {
-        // For each incoming response, check if it already exists and update it
-        // or create a new one if it doesn't exist
-        for (const questionResponse of req.body.responses) {
-          // Get existing question responses for this survey response
-          const existingQuestionResponses = await storage.getQuestionResponsesByDoctorSurveyResponseId(response.id);
-
-          // Check if a response for this question already exists
-          const existingResponse = existingQuestionResponses.find(
-            qr => qr.questionId === questionResponse.questionId
-          );
-
-          if (existingResponse) {
-            // Update existing response
-            await storage.updateQuestionResponse(existingResponse.id, {
-              responseData: questionResponse.response
-            });
-          } else {
-            // Create new response
-            await storage.createQuestionResponse({
-              doctorSurveyResponseId: response.id,
-              questionId: questionResponse.questionId,
-              responseData: questionResponse.response
-            });
-          }
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
         }
       }
 
-      res.status(200).json({ success: true, message: "Progress saved" });
+      const [doctors, representatives, doctorTags] = await Promise.all([
+        storage.getDoctorsByClientId(survey.clientId),
+        storage.getRepresentativesByClientId(survey.clientId),
+        storage.getDoctorTagsByClientId(survey.clientId)
+      ]);
+      const doctorOptions = await Promise.all(doctors.map(async doctor => {
+        const user = await storage.getUser(doctor.userId);
+        return { id: doctor.id, name: user?.name ?? `Doctor #${doctor.id}`, specialty: doctor.specialty };
+      }));
+      const repOptions = await Promise.all(representatives.map(async rep => {
+        const user = await storage.getUser(rep.userId);
+        return { id: rep.id, name: user?.name ?? `Representative #${rep.id}` };
+      }));
+
+      res.json({
+        targeting: parseSurveyTargeting(survey),
+        options: {
+          specialties: Array.from(new Set(doctors.map(d => d.specialty).filter((s): s is string => !!s))).sort(),
+          representatives: repOptions,
+          doctors: doctorOptions,
+          tags: Array.from(new Set(doctorTags.map(t => t.tag))).sort()
+        }
+      });
     } catch (error) {
-      console.error("Error saving partial response:", error);
-      res.status(500).json({ message: "Failed to save survey progress" });
+      res.status(500).json({ message: "Failed to fetch survey targeting" });
     }
   });
 
-  // Submit completed survey response
-  app.post("/api/surveys/:id/responses", hasRole(["doctor"]), async (req, res) => {
+  app.put("/api/surveys/:id/targeting", hasRole(["client", "admin"]), async (req, res) => {
     try {
       const surveyId = parseInt(req.params.id);
       const survey = await storage.getSurvey(surveyId);
@@ -1135,57 +2344,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Get doctor
-      const doctor = await storage.getDoctorByUserId(req.user.id);
-      if (!doctor) {
-        return res.status(404).json({ message: "Doctor not found" });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
+        }
       }
 
-      // Check if doctor already completed this survey
-      const existingResponses = await storage.getDoctorSurveyResponsesByDoctorId(doctor.id);
-      const existingResponse = existingResponses.find(r => r.surveyId === surveyId && r.completed);
-      if (existingResponse) {
-        return res.status(400).json({ message: "Survey already completed" });
+      const targeting = surveyTargetingSchema.parse(req.body);
+      const updatedSurvey = await storage.updateSurvey(surveyId, {
+        targeting: hasTargetingCriteria(targeting) ? JSON.stringify(targeting) : null
+      });
+      res.json(updatedSurvey);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      res.status(500).json({ message: "Failed to update survey targeting" });
+    }
+  });
 
-      // Create or update survey response
-      let response = existingResponses.find(r => r.surveyId === surveyId && !r.completed);
-      if (!response) {
-        // New response
-        response = await storage.createDoctorSurveyResponse({
-          doctorId: doctor.id,
-          surveyId,
-          completed: true,
-          pointsEarned: survey.points
-        });
-      } else {
-        // Update existing response
-        response = await storage.updateDoctorSurveyResponse(response.id, {
-          completed: true,
-          pointsEarned: survey.points
-        });
+  // How many of the client's doctors a set of targeting rules would reach, before saving
+  app.post("/api/surveys/:id/targeting/preview", hasRole(["client", "admin"]), async (req, res) => {
+    try {
+      const surveyId = parseInt(req.params.id);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: "Survey not found" });
       }
 
-      // Update doctor's total points
-      const updatedTotalPoints = doctor.totalPoints + survey.points;
-      await storage.updateDoctor(doctor.id, {
-        totalPoints: updatedTotalPoints
-      });
-
-      // Save question responses
-      if (req.body.responses && Array.isArray(req.body.responses)) {
-        for (const questionResponse of req.body.responses) {
-          await storage.createQuestionResponse({
-            doctorSurveyResponseId: response.id,
-            questionId: questionResponse.questionId,
-            responseData: JSON.stringify(questionResponse.data)
-          });
+      if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== survey.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your survey" });
         }
       }
 
-      res.status(201).json(response);
+      const targeting = surveyTargetingSchema.parse(req.body);
+      res.json(await countTargetedDoctors(survey.clientId, targeting));
     } catch (error) {
-      res.status(500).json({ message: "Failed to submit survey response" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: "Failed to preview survey targeting" });
     }
   });
 
@@ -1284,6 +2485,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(500).json({ message: "Failed to fetch points information", error });
     }
   });
+
+  // Points ledger for a doctor, oldest first, with the running available balance
+  app.get("/api/doctors/:id/points/ledger", isAuthenticated, async (req, res) => {
+    try {
+      const doctorId = parseInt(req.params.id);
+      const doctor = await storage.getDoctor(doctorId);
+      if (!doctor) {
+        return res.status(404).json({ message: "Doctor not found" });
+      }
+
+      if (req.user!.role === "doctor" && doctor.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden: Not your profile" });
+      } else if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        const clientDoctors = client ? await storage.getDoctorsByClientId(client.id) : [];
+        if (!clientDoctors.some(d => d.id === doctorId)) {
+          return res.status(403).json({ message: "Forbidden: Not your doctor" });
+        }
+      } else if (req.user!.role === "rep") {
+        return res.status(403).json({ message: "Forbidden: Insufficient permissions" });
+      }
+
+      const ledger = await getPointsLedger(doctorId);
+      res.json(ledger);
+    } catch (error) {
+      if (error instanceof PointsLedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch points ledger" });
+    }
+  });
+
+  // Admin correction or expiry of a doctor's points
+  app.post("/api/doctors/:id/points/adjustments", hasRole(["admin"]), async (req, res) => {
+    try {
+      const doctorId = parseInt(req.params.id);
+
+      let adjustment;
+      try {
+        adjustment = pointsAdjustmentSchema.parse(req.body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          const validationError = fromZodError(error);
+          return res.status(400).json({ message: validationError.message });
+        }
+        throw error;
+      }
+
+      const transaction = adjustment.type === "expiry"
+        ? await expirePoints(doctorId, adjustment.points, adjustment.description, req.user!.id)
+        : await adjustPoints(doctorId, adjustment.points, adjustment.description, req.user!.id);
+
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof PointsLedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to adjust points" });
+    }
+  });
   app.get("/api/doctors/current/responses", hasRole(["doctor"]), async (req, res) => {
     try {
       if (!req.user || !req.user.id) {
@@ -1391,13 +2652,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin route to manually trigger redemption processing
   app.post("/api/admin/process-redemptions", hasRole(["admin"]), async (req, res) => {
     try {
-      const result = await processPendingRedemptions();
+      const result = await processApprovedRedemptions();
       res.json(result);
     } catch (error) {
       res.status(500).json({ message: "Failed to process redemptions", error: error });
     }
   });
 
+  // Admin queue of redemptions in a given status (awaiting review by default)
+  app.get("/api/admin/redemptions", hasRole(["admin"]), async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      const redemptions = await storage.getRedemptionsByStatus(status);
+
+      const enrichedRedemptions = await Promise.all(
+        redemptions.map(async (redemption) => {
+          const doctor = await storage.getDoctor(redemption.doctorId);
+          const user = doctor ? await storage.getUser(doctor.userId) : undefined;
+          const survey = await storage.getSurvey(redemption.surveyId);
+
+          return {
+            ...redemption,
+            doctorName: user?.name || null,
+            doctorEmail: user?.email || null,
+            surveyTitle: survey?.title || null
+          };
+        })
+      );
+
+      res.json(enrichedRedemptions);
+    } catch (error) {
+      console.error("Error fetching admin redemptions:", error);
+      res.status(500).json({ message: "Failed to fetch redemptions" });
+    }
+  });
+
+  // Number of redemptions in each status, for the review queue tabs
+  app.get("/api/admin/redemptions/counts", hasRole(["admin"]), async (req, res) => {
+    try {
+      const statuses = ["pending", "approved", "processed", "completed", "failed", "reversed", "dead_letter", "rejected"];
+      const counts: Record<string, number> = {};
+      for (const status of statuses) {
+        counts[status] = (await storage.getRedemptionsByStatus(status)).length;
+      }
+      res.json(counts);
+    } catch (error) {
+      console.error("Error counting admin redemptions:", error);
+      res.status(500).json({ message: "Failed to fetch redemption counts" });
+    }
+  });
+
+  app.post("/api/admin/redemptions/bulk", hasRole(["admin"]), async (req, res) => {
+    try {
+      const { action, ids, reason } = redemptionBulkActionSchema.parse(req.body);
+      const result = await reviewRedemptions(action, ids, req.user!.id, reason);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error applying bulk redemption action:", error);
+      res.status(500).json({ message: "Failed to update redemptions" });
+    }
+  });
+
+  app.post("/api/admin/redemptions/:id/approve", hasRole(["admin"]), async (req, res) => {
+    try {
+      const redemption = await approveRedemption(parseInt(req.params.id), req.user!.id);
+      res.json(redemption);
+    } catch (error) {
+      if (error instanceof RedemptionReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error approving redemption:", error);
+      res.status(500).json({ message: "Failed to approve redemption" });
+    }
+  });
+
+  // Rejecting returns the held points to the doctor
+  app.post("/api/admin/redemptions/:id/reject", hasRole(["admin"]), async (req, res) => {
+    try {
+      const { reason } = redemptionRejectSchema.parse(req.body);
+      const redemption = await rejectRedemption(parseInt(req.params.id), req.user!.id, reason);
+      res.json(redemption);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof RedemptionReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rejecting redemption:", error);
+      res.status(500).json({ message: "Failed to reject redemption" });
+    }
+  });
+
+  // Send a failed, reversed or dead-lettered redemption back to the payout queue
+  app.post("/api/admin/redemptions/:id/requeue", hasRole(["admin"]), async (req, res) => {
+    try {
+      const redemption = await requeueRedemption(parseInt(req.params.id), req.user!.id);
+      res.json(redemption);
+    } catch (error) {
+      if (error instanceof RedemptionReviewError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error requeuing redemption:", error);
+      res.status(500).json({ message: "Failed to requeue redemption" });
+    }
+  });
+
+  // Razorpay payout webhook. Authenticated by its signature rather than a session.
+  app.post("/api/webhooks/razorpay/payouts", async (req, res) => {
+    try {
+      if (!req.rawBody || !verifyRazorpaySignature(req.rawBody, req.header("X-Razorpay-Signature"))) {
+        return res.status(400).json({ message: "Invalid webhook signature" });
+      }
+
+      const result = await handleRazorpayPayoutWebhook(req.header("X-Razorpay-Event-Id"), req.body);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PayoutWebhookError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error handling payout webhook:", error);
+      res.status(500).json({ message: "Failed to process payout webhook" });
+    }
+  });
+
   // Route to check the status of a redemption
   app.get("/api/redemptions/:id/status", isAuthenticated, async (req, res) => {
     try {
@@ -1419,20 +2800,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // If redemption has a payout ID and is not in a final state, check the latest status
-      if (redemption.payoutId && (redemption.status === "processed" || redemption.status === "pending")) {
+      let latest = redemption;
+      if (redemption.payoutId && ["approved", "processed", "completed", "dead_letter"].includes(redemption.status)) {
         try {
           const payoutStatus = await checkPayoutStatus(redemption.payoutId);
 
           // Update the redemption status if it has changed
           if (payoutStatus.status !== redemption.payoutStatus) {
-            await storage.updateRedemption(redemption.id, {
-              payoutStatus: payoutStatus.status,
-              status: payoutStatus.status === "processed" ? "completed" : redemption.status,
-              updatedAt: new Date()
-            });
-
-            redemption.payoutStatus = payoutStatus.status;
-            redemption.status = payoutStatus.status === "processed" ? "completed" : redemption.status;
+            latest = await applyPayoutStatus(redemption, payoutStatus);
           }
         } catch (error) {
           console.error("Error checking payout status:", error);
@@ -1440,7 +2815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      res.json(redemption);
+      res.json(latest);
     } catch (error) {
       res.status(500).json({ message: "Failed to check redemption status" });
     }
@@ -1711,6 +3086,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Batch onboard doctors for a representative from CSV (name,email,phone,specialty)
+  app.post("/api/representatives/:id/doctors/import", hasRole(["rep", "client", "admin"]), async (req, res) => {
+    try {
+      const repId = parseInt(req.params.id);
+      const rep = await storage.getRepresentative(repId);
+      if (!rep) {
+        return res.status(404).json({ message: "Representative not found" });
+      }
+
+      // Check permissions
+      if (req.user!.role === "rep") {
+        const currentRep = await storage.getRepresentativeByUserId(req.user!.id);
+        if (!currentRep || currentRep.id !== rep.id) {
+          return res.status(403).json({ message: "Forbidden: Not your account" });
+        }
+      } else if (req.user!.role === "client") {
+        const client = await storage.getClientByUserId(req.user!.id);
+        if (!client || client.id !== rep.clientId) {
+          return res.status(403).json({ message: "Forbidden: Not your representative" });
+        }
+      }
+
+      const { csvData } = req.body;
+      if (typeof csvData !== "string" || !csvData.trim()) {
+        return res.status(400).json({ message: "CSV data is required" });
+      }
+
+      const report = await importDoctorsFromCsv(csvData, rep);
+      res.status(200).json(report);
+    } catch (error) {
+      console.error("Error importing doctors:", error);
+      res.status(500).json({ message: "Failed to import doctors" });
+    }
+  });
+
   // Get current doctor's survey responses (complete and partial)
 
 
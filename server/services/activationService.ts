@@ -0,0 +1,97 @@
+import { randomInt } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword, comparePasswords } from '../auth';
+import { getNotifier } from './notificationService';
+import { User } from '@shared/schema';
+
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute
+const OTP_MAX_ATTEMPTS = 5;
+
+// Error carrying the HTTP status the route should respond with
+export class ActivationError extends Error {
+  constructor(message: string, public status: number = 400, public attemptsRemaining?: number) {
+    super(message);
+    this.name = 'ActivationError';
+  }
+}
+
+function generateOtp(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+// Issue a new activation OTP for a pending doctor and deliver it through the notifier.
+// Any previously issued, unused codes for the user are invalidated.
+export async function issueActivationOtp(user: User): Promise<{ expiresAt: Date }> {
+  if (user.role !== 'doctor') {
+    throw new ActivationError('Only doctor accounts can be activated with an OTP');
+  }
+  if (user.status !== 'pending') {
+    throw new ActivationError(`Account is already ${user.status}`);
+  }
+
+  const latest = await storage.getLatestActivationOtpByUserId(user.id);
+  if (latest && !latest.consumedAt && latest.createdAt &&
+    Date.now() - new Date(latest.createdAt).getTime() < OTP_RESEND_COOLDOWN_MS) {
+    throw new ActivationError('An OTP was sent recently. Please wait a minute before requesting another.', 429);
+  }
+
+  await storage.invalidateActivationOtps(user.id);
+
+  const otp = generateOtp();
+  const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+  await storage.createActivationOtp({
+    userId: user.id,
+    otpHash: await hashPassword(otp),
+    attempts: 0,
+    expiresAt,
+  });
+
+  await getNotifier().send({
+    to: user.email,
+    subject: 'Your account activation code',
+    text: `Hello ${user.name},\n\nYour activation code is ${otp}. It expires in ${OTP_TTL_MS / 60000} minutes.\n\nIf you did not expect this code, you can ignore this message.`,
+  });
+
+  return { expiresAt };
+}
+
+// Verify an OTP and move the user from pending to active on success. The doctor chooses
+// their password here, since imported doctors are created without a usable one.
+export async function verifyActivationOtp(user: User, code: string, password: string): Promise<User> {
+  if (user.status !== 'pending') {
+    throw new ActivationError(`Account is already ${user.status}`);
+  }
+
+  const otp = await storage.getLatestActivationOtpByUserId(user.id);
+  if (!otp || otp.consumedAt) {
+    throw new ActivationError('No active activation code. Please request a new one.');
+  }
+  if (new Date(otp.expiresAt).getTime() < Date.now()) {
+    throw new ActivationError('Activation code has expired. Please request a new one.');
+  }
+
+  // Take the attempt before checking the code, so concurrent guesses each use one up
+  const attempt = await storage.recordActivationOtpAttempt(otp.id, OTP_MAX_ATTEMPTS);
+  if (!attempt) {
+    throw new ActivationError('Too many incorrect attempts. Please request a new code.', 429, 0);
+  }
+
+  if (!(await comparePasswords(code, attempt.otpHash))) {
+    // Burn the code once the attempt limit is reached
+    if (attempt.attempts >= OTP_MAX_ATTEMPTS) {
+      await storage.updateActivationOtp(attempt.id, { consumedAt: new Date() });
+    }
+    throw new ActivationError('Invalid activation code', 400, OTP_MAX_ATTEMPTS - attempt.attempts);
+  }
+
+  await storage.updateActivationOtp(attempt.id, { consumedAt: new Date() });
+  const activatedUser = await storage.updateUser(user.id, {
+    status: 'active',
+    password: await hashPassword(password),
+  });
+  if (!activatedUser) {
+    throw new ActivationError('User not found', 404);
+  }
+  return activatedUser;
+}
@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SurveyQuestion } from '@shared/schema';
+import { AnswerError, AnswerValidationError, SubmittedAnswer, validateAnswers } from './answerValidationService';
+
+function question(id: number, fields: Partial<SurveyQuestion> = {}): SurveyQuestion {
+  return {
+    id,
+    surveyId: 1,
+    questionText: `Question ${id}`,
+    questionType: 'text',
+    options: null,
+    required: false,
+    orderIndex: id - 1,
+    conditionalLogic: null,
+    validation: null,
+    bankQuestionId: null,
+    createdAt: null,
+    updatedAt: null,
+    ...fields,
+  };
+}
+
+// The errors validateAnswers reports, or an empty list if it accepts the answers
+function errorsFor(questions: SurveyQuestion[], answers: SubmittedAnswer[]): AnswerError[] {
+  try {
+    validateAnswers(questions, answers);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof AnswerValidationError);
+    return error.errors;
+  }
+}
+
+test('accepts answers that fit their questions', () => {
+  const questions = [
+    question(1, { required: true }),
+    question(2, { questionType: 'mcq', options: 'Yes\nNo' }),
+    question(3, { questionType: 'nps' }),
+  ];
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'Weekly' },
+    { questionId: 2, data: 'Yes' },
+    { questionId: 3, data: 9 },
+  ]), []);
+});
+
+test('rejects unknown and repeated questions', () => {
+  const questions = [question(1)];
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'a' },
+    { questionId: 1, data: 'b' },
+    { questionId: 99, data: 'c' },
+  ]), [
+    { questionId: 1, message: 'This question was answered more than once' },
+    { questionId: 99, message: "This question isn't part of the survey" },
+  ]);
+});
+
+test('requires answers to required questions', () => {
+  const questions = [question(1, { required: true }), question(2)];
+  assert.deepEqual(errorsFor(questions, [{ questionId: 1, data: '  ' }]), [
+    { questionId: 1, message: 'This question is required' },
+  ]);
+});
+
+test('checks answers against the question type and its rules', () => {
+  const questions = [
+    question(1, { validation: JSON.stringify({ maxLength: 5 }) }),
+    question(2, { questionType: 'mcq', options: 'Yes\nNo' }),
+    question(3, {
+      questionType: 'checkbox',
+      options: 'A\nB\nC',
+      validation: JSON.stringify({ maxSelections: 2 }),
+    }),
+    question(4, { questionType: 'numeric', validation: JSON.stringify({ min: 0, integer: true }) }),
+    question(5, { questionType: 'date' }),
+    question(6, {
+      questionType: 'matrix',
+      options: JSON.stringify({ rows: ['Drug A', 'Drug B'], columns: ['Low', 'High'], multiple: false }),
+    }),
+  ];
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'Too long' },
+    { questionId: 2, data: 'Maybe' },
+    { questionId: 3, data: { selected: ['A', 'B', 'C'] } },
+    { questionId: 4, data: 2.5 },
+    { questionId: 5, data: '2026-02-30' },
+    { questionId: 6, data: { 'Drug A': ['Low'] } },
+  ]), [
+    { questionId: 1, message: 'Enter at most 5 characters' },
+    { questionId: 2, message: 'Choose one of the listed options' },
+    { questionId: 3, message: 'Tick at most 2 options' },
+    { questionId: 4, message: 'Enter a whole number' },
+    { questionId: 5, message: "2026-02-30 isn't a valid date" },
+    { questionId: 6, message: 'Choose an answer for each row' },
+  ]);
+});
+
+test('only accepts "Other" when the question allows it', () => {
+  const questions = [
+    question(1, { questionType: 'checkbox', options: 'A\nB' }),
+    question(2, { questionType: 'checkbox', options: 'A\nB', validation: JSON.stringify({ allowOther: true }) }),
+  ];
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: { selected: ['A'], other: 'Z' } },
+    { questionId: 2, data: { selected: [], other: 'Z' } },
+  ]), [
+    { questionId: 1, message: 'This question has no "Other" option' },
+  ]);
+});
+
+test('follows branches and rejects answers to questions the flow skipped', () => {
+  const questions = [
+    question(1, {
+      questionType: 'mcq',
+      options: 'Yes\nNo',
+      conditionalLogic: JSON.stringify({ nextQuestionId: 2, branches: { No: '3' } }),
+    }),
+    question(2, { required: true }),
+    question(3, { required: true }),
+  ];
+
+  // "No" jumps to question 3, so question 2 isn't required and can't be answered
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'No' },
+    { questionId: 3, data: 'Done' },
+  ]), []);
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'No' },
+    { questionId: 2, data: 'Skipped' },
+    { questionId: 3, data: 'Done' },
+  ]), [
+    { questionId: 2, message: "Your other answers skip this question, so it can't be answered" },
+  ]);
+
+  // "Yes" takes the default next question, which is then required
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: 'Yes' },
+    { questionId: 3, data: 'Done' },
+  ]), [
+    { questionId: 2, message: 'This question is required' },
+  ]);
+});
+
+test('requires a ranking to list every option exactly once', () => {
+  const questions = [1, 2, 3, 4, 5].map(id => question(id, { questionType: 'ranking', options: 'A\nB\nC' }));
+  assert.deepEqual(errorsFor(questions, [
+    { questionId: 1, data: ['C', ' A ', 'B'] },
+    { questionId: 2, data: 'A, B, C' },
+    { questionId: 3, data: ['A', 'B'] },
+    { questionId: 4, data: ['A', 'A', 'B'] },
+    { questionId: 5, data: ['A', 'B', 'D'] },
+  ]), [
+    { questionId: 2, message: 'Rank the options in order' },
+    { questionId: 3, message: 'Rank each option exactly once' },
+    { questionId: 4, message: 'Rank each option exactly once' },
+    { questionId: 5, message: 'Rank each option exactly once' },
+  ]);
+});
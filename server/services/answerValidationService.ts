@@ -0,0 +1,295 @@
+import {
+  ConditionalLogic, MatrixOptions, QuestionValidation, SurveyQuestion, matrixOptionsSchema
+} from '@shared/schema';
+
+export type AnswerError = {
+  questionId: number;
+  message: string;
+};
+
+export type SubmittedAnswer = {
+  questionId: number;
+  data: unknown;
+};
+
+export class AnswerValidationError extends Error {
+  constructor(public errors: AnswerError[], public status = 400) {
+    super('Some answers are not valid for their questions');
+    this.name = 'AnswerValidationError';
+  }
+}
+
+function optionsOf(question: SurveyQuestion): string[] {
+  return (question.options ?? '').split('\n').map(option => option.trim()).filter(Boolean);
+}
+
+function rulesOf(question: SurveyQuestion): QuestionValidation {
+  try {
+    return question.validation ? JSON.parse(question.validation) : {};
+  } catch (error) {
+    return {};
+  }
+}
+
+// Free text within the question's length limits
+function checkText(question: SurveyQuestion, answer: unknown): string | null {
+  const rules = rulesOf(question);
+  if (typeof answer !== 'string') return 'Enter a text answer';
+  const length = answer.trim().length;
+  if (rules.minLength !== undefined && length < rules.minLength) {
+    return `Enter at least ${rules.minLength} characters`;
+  }
+  if (rules.maxLength !== undefined && length > rules.maxLength) {
+    return `Enter at most ${rules.maxLength} characters`;
+  }
+  return null;
+}
+
+// A whole number from 1 to 10. The survey flow sends scale answers as strings.
+function checkScale(answer: unknown): string | null {
+  const value = typeof answer === 'string' && /^\d+$/.test(answer.trim()) ? parseInt(answer) : answer;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 10) {
+    return 'Choose a value from 1 to 10';
+  }
+  return null;
+}
+
+// One of the listed options
+function checkMcq(question: SurveyQuestion, answer: unknown): string | null {
+  if (typeof answer !== 'string' || !optionsOf(question).includes(answer.trim())) {
+    return 'Choose one of the listed options';
+  }
+  return null;
+}
+
+// Ticked options, plus "Other" with its text when the question allows it
+function checkCheckbox(question: SurveyQuestion, answer: unknown): string | null {
+  const rules = rulesOf(question);
+  const options = optionsOf(question);
+  const { selected, other } = (answer ?? {}) as { selected?: unknown; other?: unknown };
+  if (!Array.isArray(selected) || !selected.every(item => typeof item === 'string')) {
+    return 'Tick the options that apply';
+  }
+  if (new Set(selected).size !== selected.length || !selected.every(item => options.includes(item.trim()))) {
+    return 'Only the listed options can be ticked';
+  }
+  if (other !== undefined && other !== null) {
+    if (!rules.allowOther) return 'This question has no "Other" option';
+    if (typeof other !== 'string' || !other.trim()) return 'Specify your "Other" answer';
+  }
+
+  // Nothing ticked means the question was skipped, which is up to `required`
+  const count = selected.length + (other ? 1 : 0);
+  if (count === 0) return null;
+  if (rules.minSelections !== undefined && count < rules.minSelections) {
+    return `Tick at least ${rules.minSelections} ${rules.minSelections === 1 ? 'option' : 'options'}`;
+  }
+  if (rules.maxSelections !== undefined && count > rules.maxSelections) {
+    return `Tick at most ${rules.maxSelections} ${rules.maxSelections === 1 ? 'option' : 'options'}`;
+  }
+  return null;
+}
+
+function matrixOf(question: SurveyQuestion): MatrixOptions | null {
+  try {
+    const parsed = matrixOptionsSchema.safeParse(JSON.parse(question.options ?? ''));
+    return parsed.success ? parsed.data : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Columns chosen per row. A matrix that's started must be finished, with every row answered.
+function checkMatrix(question: SurveyQuestion, answer: unknown): string | null {
+  const matrix = matrixOf(question);
+  if (!matrix) return 'This question has no rows and columns to answer';
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+    return 'Choose an answer for each row';
+  }
+
+  const entries = Object.entries(answer as Record<string, unknown>);
+  for (const [row, columns] of entries) {
+    if (!matrix.rows.includes(row)) return `"${row}" isn't one of the rows`;
+    if (!Array.isArray(columns) || !columns.every(column => matrix.columns.includes(column))) {
+      return `Only the listed columns can be chosen for "${row}"`;
+    }
+    if (new Set(columns).size !== columns.length || (!matrix.multiple && columns.length > 1)) {
+      return `Choose ${matrix.multiple ? 'each column at most once' : 'one column'} for "${row}"`;
+    }
+  }
+
+  const answered = entries.filter(([, columns]) => (columns as string[]).length > 0).map(([row]) => row);
+  if (answered.length > 0 && answered.length < matrix.rows.length) {
+    return 'Choose an answer for each row';
+  }
+  return null;
+}
+
+// A number within the question's bounds, whole if the question asks for it
+function checkNumeric(question: SurveyQuestion, answer: unknown): string | null {
+  const rules = rulesOf(question);
+  if (typeof answer !== 'number' || !Number.isFinite(answer)) return 'Enter a number';
+  if (rules.integer && !Number.isInteger(answer)) return 'Enter a whole number';
+  if (rules.min !== undefined && answer < rules.min) return `Enter ${rules.min} or more`;
+  if (rules.max !== undefined && answer > rules.max) return `Enter ${rules.max} or less`;
+  return null;
+}
+
+// A calendar date as YYYY-MM-DD, the format date inputs produce
+function checkDate(answer: unknown): string | null {
+  if (typeof answer !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(answer)) return 'Enter a date';
+  const date = new Date(`${answer}T00:00:00Z`);
+  if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== answer) return `${answer} isn't a valid date`;
+  return null;
+}
+
+// Net Promoter Score: how likely, from 0 to 10, the doctor is to recommend
+function checkNps(answer: unknown): string | null {
+  if (typeof answer !== 'number' || !Number.isInteger(answer) || answer < 0 || answer > 10) {
+    return 'Choose a score from 0 to 10';
+  }
+  return null;
+}
+
+// A ranking lists every option exactly once, best first
+function checkRanking(question: SurveyQuestion, answer: unknown): string | null {
+  const options = optionsOf(question);
+  if (!Array.isArray(answer) || !answer.every(item => typeof item === 'string')) {
+    return 'Rank the options in order';
+  }
+  const ranked = answer.map(item => item.trim());
+  if (ranked.length !== options.length || new Set(ranked).size !== ranked.length ||
+      !ranked.every(item => options.includes(item))) {
+    return 'Rank each option exactly once';
+  }
+  return null;
+}
+
+// The problem with an answer, or null if it fits the question
+function checkAnswer(question: SurveyQuestion, answer: unknown): string | null {
+  switch (question.questionType) {
+    case 'text':
+      return checkText(question, answer);
+    case 'scale':
+      return checkScale(answer);
+    case 'mcq':
+      return checkMcq(question, answer);
+    case 'checkbox':
+      return checkCheckbox(question, answer);
+    case 'ranking':
+      return checkRanking(question, answer);
+    case 'matrix':
+      return checkMatrix(question, answer);
+    case 'numeric':
+      return checkNumeric(question, answer);
+    case 'date':
+      return checkDate(answer);
+    case 'nps':
+      return checkNps(answer);
+    default:
+      return null;
+  }
+}
+
+// Whether the doctor left the question unanswered
+function isBlank(answer: unknown): boolean {
+  if (answer === null || answer === undefined) return true;
+  if (typeof answer === 'string') return answer.trim() === '';
+  if (Array.isArray(answer)) return answer.length === 0;
+  if (typeof answer === 'object') {
+    const { selected, other } = answer as { selected?: unknown; other?: unknown };
+    if (Array.isArray(selected)) {
+      return selected.length === 0 && (typeof other !== 'string' || other.trim() === '');
+    }
+    // A matrix with no row answered
+    return Object.values(answer).every(columns => Array.isArray(columns) && columns.length === 0);
+  }
+  return false;
+}
+
+// Where the survey flow goes after a question, given its answer. Mirrors the doctor's flow:
+// without logic the next question by order follows; with logic, a matching branch or rule
+// wins, then the default next question, and otherwise the survey ends.
+function nextQuestionAfter(question: SurveyQuestion, answer: unknown, questions: SurveyQuestion[]): number | null {
+  if (!question.conditionalLogic) {
+    return questions.find(q => q.orderIndex === question.orderIndex + 1)?.id ?? null;
+  }
+
+  let logic: ConditionalLogic;
+  try {
+    logic = JSON.parse(question.conditionalLogic);
+  } catch (error) {
+    return null;
+  }
+
+  if (question.questionType === 'mcq' && typeof answer === 'string' && logic.branches?.[answer]) {
+    return Number(logic.branches[answer]);
+  }
+  if (question.questionType === 'checkbox' && logic.rules) {
+    const selected = Array.isArray((answer as { selected?: unknown })?.selected)
+      ? (answer as { selected: string[] }).selected
+      : [];
+    const rule = logic.rules.find(r => r.match === 'all'
+      ? r.options.every(option => selected.includes(option))
+      : r.options.some(option => selected.includes(option)));
+    if (rule) return rule.nextQuestionId;
+  }
+  return logic.nextQuestionId ? Number(logic.nextQuestionId) : null;
+}
+
+// The questions the doctor was shown, in order, by following the flow from the first
+// question with their answers. A loop in the logic ends the walk.
+function walkAnswerPath(questions: SurveyQuestion[], answers: Map<number, unknown>): SurveyQuestion[] {
+  const ordered = [...questions].sort((a, b) => a.orderIndex - b.orderIndex);
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const path: SurveyQuestion[] = [];
+
+  let current: SurveyQuestion | undefined = ordered[0];
+  while (current && !path.includes(current)) {
+    path.push(current);
+    const next = nextQuestionAfter(current, answers.get(current.id), ordered);
+    current = next !== null ? byId.get(next) : undefined;
+  }
+  return path;
+}
+
+// Throws with an error per question whose answer doesn't fit it. Answers must belong to the
+// survey, once each; every question on the path the answers lead to must be answered if it's
+// required; and questions off that path must be left unanswered.
+export function validateAnswers(questions: SurveyQuestion[], answers: SubmittedAnswer[]): void {
+  const byId = new Map(questions.map(question => [question.id, question]));
+  const answered = new Map<number, unknown>();
+  const errors: AnswerError[] = [];
+
+  for (const answer of answers) {
+    const questionId = Number(answer?.questionId);
+    if (!byId.has(questionId)) {
+      errors.push({ questionId, message: "This question isn't part of the survey" });
+    } else if (answered.has(questionId)) {
+      errors.push({ questionId, message: 'This question was answered more than once' });
+    } else {
+      answered.set(questionId, answer.data);
+    }
+  }
+
+  const path = walkAnswerPath(questions, answered);
+  for (const question of path) {
+    const answer = answered.get(question.id);
+    if (isBlank(answer)) {
+      if (question.required) errors.push({ questionId: question.id, message: 'This question is required' });
+      continue;
+    }
+    const message = checkAnswer(question, answer);
+    if (message) errors.push({ questionId: question.id, message });
+  }
+
+  answered.forEach((answer, questionId) => {
+    if (!path.some(question => question.id === questionId) && !isBlank(answer)) {
+      errors.push({ questionId, message: "Your other answers skip this question, so it can't be answered" });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new AnswerValidationError(errors);
+  }
+}
@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { Representative } from '@shared/schema';
+
+export type DoctorImportStatus = 'created' | 'skipped' | 'error';
+
+export interface DoctorImportRowResult {
+  row: number;
+  name: string;
+  email: string;
+  status: DoctorImportStatus;
+  reason?: string;
+  doctorId?: number;
+}
+
+export interface DoctorImportReport {
+  total: number;
+  created: number;
+  skipped: number;
+  errors: number;
+  results: DoctorImportRowResult[];
+}
+
+const EXPECTED_COLUMNS = ['name', 'email', 'phone', 'specialty'];
+
+// A single CSV row, after trimming
+const importRowSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email address'),
+  phone: z.string().regex(/^\+?[0-9\s-]{7,15}$/, 'Invalid phone number').optional(),
+  specialty: z.string().optional(),
+});
+
+// Parse CSV text into rows of fields. Supports quoted fields with embedded
+// commas, escaped quotes ("") and CRLF line endings.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// Derive a unique username from the email's local part
+async function generateUsername(email: string): Promise<string> {
+  const base = email.split('@')[0].trim().toLowerCase().replace(/[^a-z0-9._-]/g, '') || 'doctor';
+  let candidate = base;
+  let suffix = 1;
+
+  while (await storage.getUserByUsername(candidate)) {
+    candidate = `${base}${suffix++}`;
+  }
+
+  return candidate;
+}
+
+// Import doctors from CSV for a representative. Every row is processed
+// independently so one bad line does not abort the rest of the batch.
+export async function importDoctorsFromCsv(
+  csvData: string,
+  representative: Representative
+): Promise<DoctorImportReport> {
+  const rows = parseCsv(csvData);
+
+  // Skip the header row if present
+  let dataRows = rows;
+  let firstRowNumber = 1;
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'name') {
+    dataRows = rows.slice(1);
+    firstRowNumber = 2;
+  }
+
+  const results: DoctorImportRowResult[] = [];
+  const seenEmails = new Set<string>();
+
+  for (let i = 0; i < dataRows.length; i++) {
+    const rowNumber = firstRowNumber + i;
+    const values = dataRows[i].map(value => value.trim());
+    const [name = '', email = '', phone = '', specialty = ''] = values;
+
+    const result: DoctorImportRowResult = { row: rowNumber, name, email, status: 'error' };
+
+    if (values.length > EXPECTED_COLUMNS.length) {
+      results.push({ ...result, reason: `Expected at most ${EXPECTED_COLUMNS.length} columns (${EXPECTED_COLUMNS.join(',')})` });
+      continue;
+    }
+
+    const parsed = importRowSchema.safeParse({
+      name,
+      email,
+      phone: phone || undefined,
+      specialty: specialty || undefined,
+    });
+    if (!parsed.success) {
+      results.push({ ...result, reason: parsed.error.errors.map(e => e.message).join('; ') });
+      continue;
+    }
+
+    // Emails and usernames are compared trimmed and lowercased, so case variants count as duplicates
+    const normalizedEmail = parsed.data.email.trim().toLowerCase();
+    if (seenEmails.has(normalizedEmail)) {
+      results.push({ ...result, status: 'skipped', reason: 'Duplicate email in file' });
+      continue;
+    }
+    seenEmails.add(normalizedEmail);
+
+    try {
+      const existingUser = await storage.getUserByEmail(normalizedEmail);
+      if (existingUser) {
+        results.push({ ...result, status: 'skipped', reason: 'Email already registered' });
+        continue;
+      }
+
+      // Placeholder nobody knows; the doctor sets their password when the account is activated
+      const password = await hashPassword(randomBytes(16).toString('hex'));
+      const doctor = await storage.createMappedDoctor({
+        name: parsed.data.name,
+        email: normalizedEmail,
+        username: await generateUsername(normalizedEmail),
+        password,
+        phone: parsed.data.phone || null,
+        role: 'doctor',
+        status: 'pending',
+      }, {
+        specialty: parsed.data.specialty || null,
+      }, representative.id, representative.clientId);
+
+      results.push({ ...result, status: 'created', doctorId: doctor.id });
+    } catch (error: any) {
+      console.error(`Error importing doctor on row ${rowNumber}:`, error);
+      results.push({ ...result, reason: error.message || 'Failed to create doctor' });
+    }
+  }
+
+  return {
+    total: results.length,
+    created: results.filter(r => r.status === 'created').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    errors: results.filter(r => r.status === 'error').length,
+    results,
+  };
+}
@@ -0,0 +1,120 @@
+import {
+  PayoutProvider, PayoutRequest, PayoutResult, PayoutStatus, PayoutBeneficiary, BeneficiaryValidation,
+  PayoutError, checkBeneficiaryFormat
+} from './payoutProvider';
+
+const DEFAULT_STEP_MS = 5000;
+
+// Status sequences a simulated payout walks through, one step per stepMs
+const SUCCESS_PATH: PayoutStatus[] = ['queued', 'processing', 'processed'];
+const FAILURE_PATH: PayoutStatus[] = ['queued', 'processing', 'failed'];
+const REVERSAL_PATH: PayoutStatus[] = ['queued', 'processing', 'processed', 'reversed'];
+
+interface MockPayout {
+  id: string;
+  request: PayoutRequest;
+  path: PayoutStatus[];
+  createdAt: number;
+}
+
+export interface MockPayoutOptions {
+  stepMs?: number;
+}
+
+// In-process gateway for development. Payouts advance through their states over time,
+// and the outcome is picked by the beneficiary so every path can be exercised:
+//   - UPI IDs starting with "fail" (or numbers ending 0000) fail
+//   - UPI IDs starting with "reverse" (or numbers ending 9999) are processed, then reversed
+//   - UPI IDs starting with "invalid" fail beneficiary validation
+//   - UPI IDs starting with "flaky" create the payout but lose the response on the first
+//     call, like a gateway timeout; retrying with the same idempotency key recovers it
+//   - anything else is processed
+export class MockPayoutProvider implements PayoutProvider {
+  readonly name = 'mock';
+
+  private payouts = new Map<string, MockPayout>();
+  private payoutsByIdempotencyKey = new Map<string, string>();
+  private payoutCount = 0;
+  private stepMs: number;
+
+  constructor(options: MockPayoutOptions = {}) {
+    this.stepMs = options.stepMs ?? DEFAULT_STEP_MS;
+  }
+
+  async createPayout(request: PayoutRequest): Promise<PayoutResult> {
+    if (request.idempotencyKey) {
+      const existingId = this.payoutsByIdempotencyKey.get(request.idempotencyKey);
+      if (existingId) {
+        return this.getPayoutStatus(existingId);
+      }
+    }
+
+    const validation = await this.validateBeneficiary(request.beneficiary, request.name);
+    if (!validation.valid) {
+      throw new PayoutError(validation.reason || 'Invalid beneficiary', 'BAD_REQUEST_ERROR');
+    }
+
+    const id = `pout_mock_${Date.now().toString(36)}${++this.payoutCount}`;
+    this.payouts.set(id, {
+      id,
+      request,
+      path: outcomeFor(request.beneficiary),
+      createdAt: Date.now(),
+    });
+    if (request.idempotencyKey) {
+      this.payoutsByIdempotencyKey.set(request.idempotencyKey, id);
+    }
+
+    if (request.beneficiary.type === 'upi' && request.beneficiary.upiId.toLowerCase().startsWith('flaky')) {
+      throw new PayoutError('Simulated gateway timeout', 'connection_error');
+    }
+
+    return this.getPayoutStatus(id);
+  }
+
+  async getPayoutStatus(payoutId: string): Promise<PayoutResult> {
+    const payout = this.payouts.get(payoutId);
+    if (!payout) {
+      throw new PayoutError(`Payout ${payoutId} not found`, 'BAD_REQUEST_ERROR');
+    }
+
+    const step = Math.min(Math.floor((Date.now() - payout.createdAt) / this.stepMs), payout.path.length - 1);
+    const status = payout.path[step];
+    const failed = status === 'failed' || status === 'reversed';
+
+    return {
+      payoutId: payout.id,
+      status,
+      utr: status === 'processed' || status === 'reversed' ? `MOCKUTR${payout.id.slice(-8).toUpperCase()}` : null,
+      failureReason: failed ? `Simulated ${status} payout` : null,
+      raw: {
+        id: payout.id,
+        entity: 'payout',
+        amount: payout.request.amountInPaise,
+        currency: 'INR',
+        status,
+        reference_id: payout.request.referenceId,
+        mode: payout.request.beneficiary.type === 'upi' ? 'UPI' : 'amazonpay',
+        created_at: Math.floor(payout.createdAt / 1000),
+      },
+    };
+  }
+
+  async validateBeneficiary(beneficiary: PayoutBeneficiary, name: string): Promise<BeneficiaryValidation> {
+    const format = checkBeneficiaryFormat(beneficiary);
+    if (!format.valid) return format;
+
+    if (beneficiary.type === 'upi' && beneficiary.upiId.toLowerCase().startsWith('invalid')) {
+      return { valid: false, reason: 'UPI ID could not be verified' };
+    }
+    return { valid: true, accountHolderName: name };
+  }
+}
+
+function outcomeFor(beneficiary: PayoutBeneficiary): PayoutStatus[] {
+  const key = beneficiary.type === 'upi' ? beneficiary.upiId.toLowerCase() : beneficiary.phoneNumber;
+
+  if (key.startsWith('fail') || key.endsWith('0000')) return FAILURE_PATH;
+  if (key.startsWith('reverse') || key.endsWith('9999')) return REVERSAL_PATH;
+  return SUCCESS_PATH;
+}
@@ -0,0 +1,73 @@
+import sgMail from '@sendgrid/mail';
+import 'dotenv/config';
+
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// A notifier delivers a message to a user (email, SMS, ...)
+export interface Notifier {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// Development notifier: writes messages to the server log instead of sending them
+export class ConsoleNotifier implements Notifier {
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[notification] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  }
+}
+
+export class SendGridNotifier implements Notifier {
+  constructor(apiKey: string, private fromEmail: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: NotificationMessage): Promise<void> {
+    await sgMail.send({
+      to: message.to,
+      from: this.fromEmail,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+// NOTIFIER=sendgrid|console. There is no default, so a misconfigured deployment can't
+// quietly log activation codes and reset links instead of sending them.
+function createNotifier(): Notifier {
+  const configured = process.env.NOTIFIER;
+  if (!configured) {
+    throw new Error('NOTIFIER must be set to "sendgrid" or "console"');
+  }
+
+  switch (configured) {
+    case 'sendgrid': {
+      const apiKey = process.env.SENDGRID_API_KEY;
+      if (!apiKey) {
+        throw new Error('SENDGRID_API_KEY must be set when NOTIFIER is "sendgrid"');
+      }
+      return new SendGridNotifier(apiKey, process.env.NOTIFICATION_FROM_EMAIL || 'no-reply@medicalsurveys.com');
+    }
+    case 'console':
+      return new ConsoleNotifier();
+    default:
+      throw new Error(`Unknown NOTIFIER "${configured}"`);
+  }
+}
+
+// Created on first use, like the payout provider, so startup can check the configuration
+let notifier: Notifier | null = null;
+
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    notifier = createNotifier();
+  }
+  return notifier;
+}
+
+// Swap the active notifier (e.g. an SMS gateway, or a stub in tests)
+export function setNotifier(newNotifier: Notifier) {
+  notifier = newNotifier;
+}
@@ -0,0 +1,71 @@
+import { randomBytes, createHash } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { getNotifier } from './notificationService';
+import 'dotenv/config';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+export class PasswordResetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+// Tokens are random, so a plain SHA-256 is enough to make the stored value useless if leaked
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Create a reset token and email a reset link. Unknown emails are silently ignored
+// so the endpoint can't be used to discover which accounts exist.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user || user.status === 'inactive') return;
+
+  await storage.invalidatePasswordResetTokens(user.id);
+
+  const token = randomBytes(32).toString('hex');
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  const resetLink = `${APP_URL}/auth?resetToken=${token}`;
+  await getNotifier().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hello ${user.name},\n\nWe received a request to reset your password. Use the link below within ${RESET_TOKEN_TTL_MS / 60000} minutes to choose a new one:\n\n${resetLink}\n\nIf you did not request a password reset, you can ignore this message.`,
+  });
+}
+
+// Consume a reset token and set the user's new password
+export async function resetPassword(token: string, newPassword: string): Promise<void> {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!resetToken || resetToken.usedAt) {
+    throw new PasswordResetError('This reset link is invalid or has already been used');
+  }
+  if (new Date(resetToken.expiresAt).getTime() < Date.now()) {
+    throw new PasswordResetError('This reset link has expired. Please request a new one.');
+  }
+
+  // Mark the token used before changing the password so it can't be replayed. Only one
+  // of several concurrent requests with the same link gets to consume it.
+  if (!(await storage.consumePasswordResetToken(resetToken.id))) {
+    throw new PasswordResetError('This reset link is invalid or has already been used');
+  }
+
+  const updatedUser = await storage.updateUser(resetToken.userId, {
+    password: await hashPassword(newPassword),
+  });
+  if (!updatedUser) {
+    throw new PasswordResetError('User not found', 404);
+  }
+
+  await storage.invalidatePasswordResetTokens(resetToken.userId);
+  // Sign the user out everywhere, in case someone else had access to the account
+  await storage.destroyUserSessions(resetToken.userId);
+}
@@ -0,0 +1,134 @@
+import { RazorpayPayoutProvider } from './razorpayPayoutProvider';
+import { MockPayoutProvider } from './mockPayoutProvider';
+import 'dotenv/config';
+
+// Payout lifecycle states, named after Razorpay's so both providers share them
+export type PayoutStatus =
+  | 'queued'
+  | 'pending'
+  | 'processing'
+  | 'processed'
+  | 'reversed'
+  | 'failed'
+  | 'rejected'
+  | 'cancelled';
+
+// Where the money goes
+export type PayoutBeneficiary =
+  | { type: 'upi'; upiId: string }
+  | { type: 'amazon'; phoneNumber: string };
+
+export interface PayoutRequest {
+  redemptionId: number;
+  doctorId: number;
+  referenceId: string;
+  amountInPaise: number;
+  pointsRedeemed: number;
+  beneficiary: PayoutBeneficiary;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  // Providers return the original payout when a key is reused
+  idempotencyKey?: string;
+}
+
+export interface PayoutResult {
+  payoutId: string;
+  status: PayoutStatus;
+  utr?: string | null;
+  failureReason?: string | null;
+  raw: any; // provider response, stored on the redemption for support
+}
+
+export interface BeneficiaryValidation {
+  valid: boolean;
+  reason?: string;
+  accountHolderName?: string;
+}
+
+export interface PayoutProvider {
+  readonly name: string;
+  createPayout(request: PayoutRequest): Promise<PayoutResult>;
+  getPayoutStatus(payoutId: string): Promise<PayoutResult>;
+  validateBeneficiary(beneficiary: PayoutBeneficiary, name: string): Promise<BeneficiaryValidation>;
+}
+
+export class PayoutError extends Error {
+  constructor(message: string, public code: string = 'unknown_error', public details?: any) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+// Whether a failed payout call might succeed if repeated with the same idempotency key.
+// Network failures, rate limits and gateway-side errors are retryable; anything the
+// gateway rejected outright (bad beneficiary, validation, auth) is terminal.
+export function isRetryablePayoutError(error: unknown): boolean {
+  if (!(error instanceof PayoutError)) {
+    // Unexpected errors (e.g. database hiccups) are worth another go
+    return true;
+  }
+
+  if (error.code === 'connection_error') return true;
+
+  const httpStatus: number | undefined = error.details?.httpStatus;
+  if (httpStatus !== undefined) {
+    return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+  }
+
+  return error.code === 'gateway_error' || error.code === 'SERVER_ERROR';
+}
+
+const UPI_ID_PATTERN = /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/;
+const INDIAN_MOBILE_PATTERN = /^(\+91)?[6-9]\d{9}$/;
+
+// Format checks every provider runs before asking its gateway
+export function checkBeneficiaryFormat(beneficiary: PayoutBeneficiary): BeneficiaryValidation {
+  if (beneficiary.type === 'upi') {
+    return UPI_ID_PATTERN.test(beneficiary.upiId)
+      ? { valid: true }
+      : { valid: false, reason: 'Invalid UPI ID' };
+  }
+  return INDIAN_MOBILE_PATTERN.test(beneficiary.phoneNumber.replace(/[\s-]/g, ''))
+    ? { valid: true }
+    : { valid: false, reason: 'Invalid mobile number for Amazon Pay' };
+}
+
+// PAYOUT_PROVIDER=razorpay|mock. There is no default, so a misconfigured deployment can't
+// quietly pay out through the mock.
+function createPayoutProvider(): PayoutProvider {
+  const configured = process.env.PAYOUT_PROVIDER;
+  if (!configured) {
+    throw new Error('PAYOUT_PROVIDER must be set to "razorpay" or "mock"');
+  }
+
+  switch (configured) {
+    case 'razorpay':
+      return new RazorpayPayoutProvider({
+        keyId: process.env.RAZORPAY_KEY_ID || '',
+        keySecret: process.env.RAZORPAY_KEY_SECRET || '',
+        accountNumber: process.env.RAZORPAY_ACCOUNT_NUMBER || '',
+      });
+    case 'mock':
+      return new MockPayoutProvider({
+        stepMs: parseInt(process.env.MOCK_PAYOUT_STEP_MS || '') || undefined,
+      });
+    default:
+      throw new Error(`Unknown PAYOUT_PROVIDER "${configured}"`);
+  }
+}
+
+// Created on first use so the implementations can import the types above
+let provider: PayoutProvider | null = null;
+
+export function getPayoutProvider(): PayoutProvider {
+  if (!provider) {
+    provider = createPayoutProvider();
+  }
+  return provider;
+}
+
+// Swap the active provider (e.g. a scripted gateway in tests)
+export function setPayoutProvider(newProvider: PayoutProvider) {
+  provider = newProvider;
+}
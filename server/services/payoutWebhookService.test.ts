@@ -0,0 +1,99 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { MemStorage, storage } from '../storage';
+import { PayoutWebhookError, handleRazorpayPayoutWebhook, verifyRazorpaySignature } from './payoutWebhookService';
+
+const SECRET = 'webhook-test-secret';
+const BODY = JSON.stringify({ event: 'payout.processed', payload: { payout: { entity: { id: 'pout_123' } } } });
+
+function sign(body: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+let configuredSecret: string | undefined;
+
+beforeEach(() => {
+  configuredSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  process.env.RAZORPAY_WEBHOOK_SECRET = SECRET;
+});
+
+afterEach(() => {
+  if (configuredSecret === undefined) {
+    delete process.env.RAZORPAY_WEBHOOK_SECRET;
+  } else {
+    process.env.RAZORPAY_WEBHOOK_SECRET = configuredSecret;
+  }
+});
+
+test('accepts a signature over the raw body', () => {
+  assert.equal(verifyRazorpaySignature(BODY, sign(BODY)), true);
+  assert.equal(verifyRazorpaySignature(Buffer.from(BODY), sign(BODY)), true);
+});
+
+test('rejects a missing or wrong signature', () => {
+  assert.equal(verifyRazorpaySignature(BODY, undefined), false);
+  assert.equal(verifyRazorpaySignature(BODY, ''), false);
+  assert.equal(verifyRazorpaySignature(BODY, sign(BODY, 'another-secret')), false);
+  assert.equal(verifyRazorpaySignature(BODY, sign(BODY).slice(0, -2)), false);
+});
+
+test('rejects a body that was changed after signing', () => {
+  const tampered = BODY.replace('payout.processed', 'payout.reversed');
+  assert.equal(verifyRazorpaySignature(tampered, sign(BODY)), false);
+});
+
+test('refuses to verify when no secret is configured', () => {
+  delete process.env.RAZORPAY_WEBHOOK_SECRET;
+  assert.throws(
+    () => verifyRazorpaySignature(BODY, sign(BODY)),
+    (error: unknown) => error instanceof PayoutWebhookError && error.status === 503
+  );
+});
+
+// A processed-payout event for the given payout and reference
+function processedEvent(payoutId: string, reference: string) {
+  return { event: 'payout.processed', payload: { payout: { entity: { id: payoutId, reference_id: reference } } } };
+}
+
+// Point the webhook's storage calls at a fresh in-memory store
+function useMemoryStorage(): MemStorage {
+  mock.restoreAll();
+  const memory = new MemStorage();
+  for (const method of [
+    'getPayoutWebhookEventByEventId', 'createPayoutWebhookEvent', 'getRedemptionByPayoutId',
+    'getRedemptionByIdempotencyKey', 'updateRedemption',
+  ] as const) {
+    mock.method(storage, method, (memory[method] as Function).bind(memory));
+  }
+  return memory;
+}
+
+test('matches a payout whose id was never stored by its round reference', async () => {
+  const memory = useMemoryStorage();
+  const redemption = await memory.createRedemption({
+    doctorId: 1, surveyId: 1, points: 100, redemptionType: 'upi', redemptionDetails: '{}', status: 'processed',
+  });
+  await memory.updateRedemption(redemption.id, { idempotencyKey: `redemption-${redemption.id}` });
+
+  const result = await handleRazorpayPayoutWebhook('evt_1', processedEvent('pout_1', `redemption-${redemption.id}`));
+  assert.equal(result.handled, true);
+  const updated = await memory.getRedemption(redemption.id);
+  assert.equal(updated?.payoutId, 'pout_1');
+  assert.equal(updated?.status, 'completed');
+});
+
+test('ignores events for a payout from an earlier round', async () => {
+  const memory = useMemoryStorage();
+  // Requeued once, so the current round's key carries the requeue count
+  const redemption = await memory.createRedemption({
+    doctorId: 1, surveyId: 1, points: 100, redemptionType: 'upi', redemptionDetails: '{}', status: 'processed',
+  });
+  await memory.updateRedemption(redemption.id, { requeueCount: 1, idempotencyKey: `redemption-${redemption.id}-1` });
+
+  const result = await handleRazorpayPayoutWebhook('evt_2', processedEvent('pout_old', `redemption-${redemption.id}`));
+  assert.equal(result.handled, false);
+  const unchanged = await memory.getRedemption(redemption.id);
+  assert.ok(!unchanged?.payoutId);
+  assert.equal(unchanged?.status, 'processed');
+});
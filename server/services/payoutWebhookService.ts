@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage } from '../storage';
+import { applyPayoutStatus } from './redemptionService';
+import { PayoutStatus } from './payoutProvider';
+import 'dotenv/config';
+
+// Payout events we act on, and the payout status each one means
+const HANDLED_EVENTS: Record<string, PayoutStatus> = {
+  'payout.processed': 'processed',
+  'payout.failed': 'failed',
+  'payout.reversed': 'reversed',
+};
+
+export class PayoutWebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PayoutWebhookError';
+  }
+}
+
+// Razorpay signs the raw request body with the webhook secret (HMAC-SHA256, hex encoded)
+export function verifyRazorpaySignature(rawBody: Buffer | string, signature: string | undefined): boolean {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new PayoutWebhookError('Payout webhook secret is not configured', 503);
+  }
+  if (!signature) return false;
+
+  const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+  const expectedBuf = Buffer.from(expected, 'utf8');
+  const signatureBuf = Buffer.from(signature, 'utf8');
+  return expectedBuf.length === signatureBuf.length && timingSafeEqual(expectedBuf, signatureBuf);
+}
+
+// Apply a verified payout webhook to its redemption. Deliveries are recorded by event id,
+// so Razorpay's retries (and events we don't act on) are acknowledged without side effects.
+export async function handleRazorpayPayoutWebhook(
+  eventId: string | undefined,
+  body: any
+): Promise<{ handled: boolean; message: string }> {
+  const event: string | undefined = body?.event;
+  const status = event ? HANDLED_EVENTS[event] : undefined;
+  if (!event || !status) {
+    return { handled: false, message: `Ignored event ${event}` };
+  }
+
+  const payout = body?.payload?.payout?.entity;
+  if (!payout?.id) {
+    throw new PayoutWebhookError('Webhook payload has no payout');
+  }
+
+  // Older deliveries may lack the event id header; payout + event is unique enough
+  const deliveryId = eventId || `${payout.id}:${event}`;
+  if (await storage.getPayoutWebhookEventByEventId(deliveryId)) {
+    return { handled: false, message: 'Event already processed' };
+  }
+
+  // Payouts carry their round's idempotency key as the reference. A requeue starts a new
+  // round with a new key, so late events for an earlier round's payout match nothing.
+  const reference: string | undefined = payout.reference_id;
+  let redemption = await storage.getRedemptionByPayoutId(payout.id);
+  if (!redemption && reference) {
+    // The payout was created but we never stored its id (e.g. crashed mid-request)
+    const candidate = await storage.getRedemptionByIdempotencyKey(reference);
+    if (candidate && !candidate.payoutId) {
+      redemption = await storage.updateRedemption(candidate.id, { payoutId: payout.id });
+    }
+  }
+  if (!redemption) {
+    return { handled: false, message: `No redemption for payout ${payout.id}` };
+  }
+  if (reference !== redemption.idempotencyKey) {
+    return { handled: false, message: `Payout ${payout.id} is not from redemption ${redemption.id}'s current round` };
+  }
+
+  await applyPayoutStatus(redemption, {
+    status,
+    failureReason: payout.status_details?.description || payout.failure_reason || null,
+    raw: payout,
+  });
+
+  try {
+    await storage.createPayoutWebhookEvent({
+      eventId: deliveryId,
+      event,
+      payoutId: payout.id,
+      payload: JSON.stringify(body),
+    });
+  } catch (error: any) {
+    // A concurrent delivery of the same event got there first; applying twice is harmless
+    if (error?.code !== '23505') throw error;
+  }
+
+  return { handled: true, message: `Redemption ${redemption.id} updated` };
+}
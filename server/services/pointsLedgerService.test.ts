@@ -0,0 +1,94 @@
+import { test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Doctor, Redemption } from '@shared/schema';
+import { MemStorage, storage } from '../storage';
+import { holdRedemptionPoints, releaseRedemptionPoints } from './pointsLedgerService';
+
+// The service writes through the shared storage; point the ledger calls at a fresh
+// in-memory store for each test
+let memory: MemStorage;
+let doctor: Doctor;
+let redemption: Redemption;
+
+beforeEach(async () => {
+  mock.restoreAll();
+  memory = new MemStorage();
+  for (const method of ['getDoctor', 'createPointsTransaction', 'releaseRedemptionHold'] as const) {
+    mock.method(storage, method, (memory[method] as Function).bind(memory));
+  }
+
+  doctor = await memory.createDoctor({ userId: 1, specialty: null });
+  await memory.updateDoctor(doctor.id, { totalPoints: 500 });
+  redemption = await memory.createRedemption({
+    doctorId: doctor.id,
+    surveyId: 1,
+    points: 200,
+    redemptionType: 'upi',
+    redemptionDetails: '{}',
+  });
+});
+
+async function balanceOf(doctorId: number) {
+  const { totalPoints, redeemedPoints } = (await memory.getDoctor(doctorId))!;
+  return { totalPoints, redeemedPoints };
+}
+
+async function releasesOf(redemptionId: number) {
+  const transactions = await memory.getPointsTransactionsByDoctorId(doctor.id);
+  return transactions.filter(t => t.redemptionId === redemptionId && t.type === 'redeem-release');
+}
+
+test('releases the outstanding hold back to the doctor', async () => {
+  await holdRedemptionPoints(redemption);
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 200 });
+
+  const released = await releaseRedemptionPoints(redemption, 'Payout failed: bank declined');
+  assert.equal(released?.points, 200);
+  assert.equal(released?.debitAccount, `redemption:${redemption.id}`);
+  assert.equal(released?.creditAccount, `doctor:${doctor.id}`);
+  assert.equal(released?.description, 'Payout failed: bank declined');
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 0 });
+});
+
+test('records nothing when there is no outstanding hold', async () => {
+  assert.equal(await releaseRedemptionPoints(redemption, 'Redemption rejected'), null);
+
+  await holdRedemptionPoints(redemption);
+  await releaseRedemptionPoints(redemption, 'Payout failed');
+  assert.equal(await releaseRedemptionPoints(redemption, 'Payout reversed'), null);
+
+  assert.equal((await releasesOf(redemption.id)).length, 1);
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 0 });
+});
+
+test('releases a hold only once when called concurrently', async () => {
+  // A pending redemption for another survey, so a second release wouldn't take the
+  // counters below zero
+  const other = await memory.createRedemption({ ...redemption, surveyId: 2, points: 300 });
+  await holdRedemptionPoints(other);
+  await holdRedemptionPoints(redemption);
+
+  // e.g. the payout webhook and the retry job both seeing the payout fail
+  const results = await Promise.all([
+    releaseRedemptionPoints(redemption, 'Payout failed'),
+    releaseRedemptionPoints(redemption, 'Payout failed'),
+  ]);
+
+  assert.equal(results.filter(result => result !== null).length, 1);
+  assert.equal((await releasesOf(redemption.id)).length, 1);
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 300 });
+});
+
+test('releases each hold of a requeued redemption', async () => {
+  await holdRedemptionPoints(redemption);
+  await releaseRedemptionPoints(redemption, 'Payout failed');
+
+  // An admin requeues the payout, which holds the points again
+  await holdRedemptionPoints(redemption);
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 200 });
+
+  const released = await releaseRedemptionPoints(redemption, 'Payout reversed');
+  assert.equal(released?.points, 200);
+  assert.equal((await releasesOf(redemption.id)).length, 2);
+  assert.deepEqual(await balanceOf(doctor.id), { totalPoints: 500, redeemedPoints: 0 });
+});
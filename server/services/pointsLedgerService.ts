@@ -0,0 +1,190 @@
+import { storage, PointsBalanceDelta } from '../storage';
+import {
+  InsertPointsTransaction, PointsTransaction, PointsLedger, PointsLedgerEntry, Redemption
+} from '@shared/schema';
+
+export type PointsTransactionType = 'earn' | 'redeem-hold' | 'redeem-release' | 'adjustment' | 'expiry';
+
+export class PointsLedgerError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PointsLedgerError';
+  }
+}
+
+// Ledger account names. A doctor's account holds their available points; the
+// other accounts are where points come from or go to.
+export function doctorAccount(doctorId: number): string {
+  return `doctor:${doctorId}`;
+}
+
+function surveyAccount(surveyId: number): string {
+  return `survey:${surveyId}`;
+}
+
+function redemptionAccount(redemptionId: number): string {
+  return `redemption:${redemptionId}`;
+}
+
+const ADJUSTMENT_ACCOUNT = 'system:adjustment';
+const EXPIRY_ACCOUNT = 'system:expiry';
+// Points doctors held before the ledger existed, carried over by recordOpeningBalances
+const OPENING_ACCOUNT = 'system:opening';
+
+const isOpeningEntry = (transaction: PointsTransaction) =>
+  transaction.debitAccount === OPENING_ACCOUNT || transaction.creditAccount === OPENING_ACCOUNT;
+
+// Signed change a transaction makes to the doctor's available balance
+function ledgerAmount(transaction: PointsTransaction): number {
+  return transaction.creditAccount === doctorAccount(transaction.doctorId) ? transaction.points : -transaction.points;
+}
+
+async function record(
+  transaction: InsertPointsTransaction & { type: PointsTransactionType },
+  delta: PointsBalanceDelta
+): Promise<PointsTransaction> {
+  if (!Number.isInteger(transaction.points) || transaction.points <= 0) {
+    throw new PointsLedgerError('Points must be a positive whole number');
+  }
+
+  const created = await storage.createPointsTransaction(transaction, delta);
+  if (!created) {
+    if (!(await storage.getDoctor(transaction.doctorId))) {
+      throw new PointsLedgerError('Doctor not found', 404);
+    }
+    throw new PointsLedgerError('Insufficient points balance');
+  }
+  return created;
+}
+
+// Credit a doctor for completing a survey. Each survey pays out at most once per doctor.
+export async function earnSurveyPoints(doctorId: number, surveyId: number, points: number): Promise<PointsTransaction | null> {
+  if (points <= 0) return null;
+
+  try {
+    return await record({
+      doctorId,
+      type: 'earn',
+      points,
+      debitAccount: surveyAccount(surveyId),
+      creditAccount: doctorAccount(doctorId),
+      surveyId,
+      description: 'Survey completed',
+    }, { totalPoints: points, redeemedPoints: 0 });
+  } catch (error: any) {
+    // Unique violation on points_transactions_earn_unique
+    if (error?.code === '23505') {
+      throw new PointsLedgerError('Points for this survey have already been awarded', 409);
+    }
+    throw error;
+  }
+}
+
+// Move a redemption's points out of the doctor's available balance while it is paid out
+export async function holdRedemptionPoints(redemption: Redemption): Promise<PointsTransaction> {
+  return await record({
+    doctorId: redemption.doctorId,
+    type: 'redeem-hold',
+    points: redemption.points,
+    debitAccount: doctorAccount(redemption.doctorId),
+    creditAccount: redemptionAccount(redemption.id),
+    surveyId: redemption.surveyId,
+    redemptionId: redemption.id,
+    description: `Redemption via ${redemption.redemptionType}`,
+  }, { totalPoints: 0, redeemedPoints: redemption.points });
+}
+
+// Return held points to the doctor, e.g. when a payout fails. Safe to call more than
+// once, even concurrently: nothing is recorded unless the redemption has an outstanding hold.
+export async function releaseRedemptionPoints(redemption: Redemption, reason: string): Promise<PointsTransaction | null> {
+  const released = await storage.releaseRedemptionHold({
+    doctorId: redemption.doctorId,
+    type: 'redeem-release',
+    debitAccount: redemptionAccount(redemption.id),
+    creditAccount: doctorAccount(redemption.doctorId),
+    surveyId: redemption.surveyId,
+    redemptionId: redemption.id,
+    description: reason,
+  });
+  return released ?? null;
+}
+
+// Manual correction by an admin. Positive points credit the doctor, negative points debit them.
+export async function adjustPoints(doctorId: number, points: number, description: string, actorId: number): Promise<PointsTransaction> {
+  const credit = points > 0;
+  return await record({
+    doctorId,
+    type: 'adjustment',
+    points: Math.abs(points),
+    debitAccount: credit ? ADJUSTMENT_ACCOUNT : doctorAccount(doctorId),
+    creditAccount: credit ? doctorAccount(doctorId) : ADJUSTMENT_ACCOUNT,
+    description,
+    createdBy: actorId,
+  }, { totalPoints: points, redeemedPoints: 0 });
+}
+
+// Remove points from a doctor's available balance because they have expired
+export async function expirePoints(doctorId: number, points: number, description: string, actorId?: number): Promise<PointsTransaction> {
+  return await record({
+    doctorId,
+    type: 'expiry',
+    points,
+    debitAccount: doctorAccount(doctorId),
+    creditAccount: EXPIRY_ACCOUNT,
+    description,
+    createdBy: actorId ?? null,
+  }, { totalPoints: -points, redeemedPoints: 0 });
+}
+
+// A doctor's ledger in chronological order, with the available balance after each entry
+export async function getPointsLedger(doctorId: number): Promise<PointsLedger> {
+  const doctor = await storage.getDoctor(doctorId);
+  if (!doctor) {
+    throw new PointsLedgerError('Doctor not found', 404);
+  }
+
+  // The opening balance is recorded after the fact but opens the ledger
+  const transactions = await storage.getPointsTransactionsByDoctorId(doctorId);
+  const ordered = [...transactions.filter(isOpeningEntry), ...transactions.filter(t => !isOpeningEntry(t))];
+
+  let balance = 0;
+  const entries: PointsLedgerEntry[] = ordered.map(transaction => {
+    const amount = ledgerAmount(transaction);
+    balance += amount;
+    return { ...transaction, amount, balance };
+  });
+
+  return {
+    totalPoints: doctor.totalPoints,
+    redeemedPoints: doctor.redeemedPoints,
+    availablePoints: doctor.totalPoints - doctor.redeemedPoints,
+    entries,
+  };
+}
+
+// Carry each doctor's points from before the ledger into it, so the ledger's running balance
+// ends at their available points. Records one opening adjustment per doctor whose ledger
+// disagrees with their counters; doctors who already have one are skipped, so it can be rerun.
+export async function recordOpeningBalances(): Promise<{ recorded: number }> {
+  let recorded = 0;
+  for (const doctor of await storage.getAllDoctors()) {
+    const transactions = await storage.getPointsTransactionsByDoctorId(doctor.id);
+    if (transactions.some(isOpeningEntry)) continue;
+
+    const ledgerBalance = transactions.reduce((sum, transaction) => sum + ledgerAmount(transaction), 0);
+    const opening = (doctor.totalPoints - doctor.redeemedPoints) - ledgerBalance;
+    if (opening === 0) continue;
+
+    // The counters already include these points, so they are left as they are
+    await record({
+      doctorId: doctor.id,
+      type: 'adjustment',
+      points: Math.abs(opening),
+      debitAccount: opening > 0 ? OPENING_ACCOUNT : doctorAccount(doctor.id),
+      creditAccount: opening > 0 ? doctorAccount(doctor.id) : OPENING_ACCOUNT,
+      description: 'Opening balance',
+    }, { totalPoints: 0, redeemedPoints: 0 });
+    recorded++;
+  }
+  return { recorded };
+}
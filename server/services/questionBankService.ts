@@ -0,0 +1,219 @@
+import { storage } from '../storage';
+import {
+  QuestionBankItem, QuestionBankItemInput, QuestionValidation, Survey, SurveyQuestion
+} from '@shared/schema';
+import { assertQuestionsEditable } from './surveyLifecycleService';
+
+export class QuestionBankError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = 'QuestionBankError';
+  }
+}
+
+export type QuestionBankEntry = Omit<QuestionBankItem, 'tags' | 'validation'> & {
+  tags: string[];
+  validation: QuestionValidation | null;
+  // Surveys the question has been inserted into
+  usageCount: number;
+};
+
+export type BankQuestionSurveyUsage = {
+  surveyId: number;
+  surveyTitle: string;
+  surveyStatus: string;
+  questionId: number;
+  answerCount: number;
+  // Answers per option or scale value (respondents per ticked option for checkboxes); empty for free-text questions
+  distribution: { answer: string; count: number }[];
+  // Mean of scale, NPS and numeric answers
+  average: number | null;
+};
+
+export type BankQuestionUsage = {
+  item: QuestionBankEntry;
+  surveys: BankQuestionSurveyUsage[];
+};
+
+export type QuestionBankSearch = {
+  q?: string;
+  tag?: string;
+};
+
+function parseTags(item: QuestionBankItem): string[] {
+  try {
+    const tags = JSON.parse(item.tags);
+    return Array.isArray(tags) ? tags : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+function parseValidation(validation: string | null): QuestionValidation | null {
+  if (!validation) return null;
+  try {
+    return JSON.parse(validation) as QuestionValidation;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function toEntry(item: QuestionBankItem): Promise<QuestionBankEntry> {
+  const usages = await storage.getSurveyQuestionsByBankQuestionId(item.id);
+  return {
+    ...item,
+    tags: parseTags(item),
+    validation: parseValidation(item.validation),
+    usageCount: new Set(usages.map(question => question.surveyId)).size
+  };
+}
+
+// Bank items are stored with their tags and validation as JSON
+function toColumns(input: QuestionBankItemInput) {
+  return {
+    questionText: input.questionText,
+    questionType: input.questionType,
+    options: input.questionType === 'text' ? null : input.options,
+    required: input.required,
+    validation: input.validation ? JSON.stringify(input.validation) : null,
+    tags: JSON.stringify(Array.from(new Set(input.tags)))
+  };
+}
+
+// Keywords match the question text, options and tags; a tag filter must match a tag exactly
+export async function searchQuestionBank(clientId: number, search: QuestionBankSearch = {}): Promise<QuestionBankEntry[]> {
+  const items = await storage.getQuestionBankItemsByClientId(clientId);
+  const keyword = search.q?.trim().toLowerCase();
+  const tag = search.tag?.trim().toLowerCase();
+
+  const matches = items.filter(item => {
+    const tags = parseTags(item).map(t => t.toLowerCase());
+    if (tag && !tags.includes(tag)) return false;
+    if (!keyword) return true;
+    return [item.questionText, item.options ?? '', ...tags].some(field => field.toLowerCase().includes(keyword));
+  });
+  return await Promise.all(matches.map(toEntry));
+}
+
+export async function createBankItem(
+  clientId: number,
+  input: QuestionBankItemInput,
+  userId: number
+): Promise<QuestionBankEntry> {
+  const item = await storage.createQuestionBankItem({ clientId, ...toColumns(input), createdBy: userId });
+  return await toEntry(item);
+}
+
+// Surveys keep the copy they were given, so edits only reach future insertions
+export async function updateBankItem(item: QuestionBankItem, input: QuestionBankItemInput): Promise<QuestionBankEntry> {
+  const updated = await storage.updateQuestionBankItem(item.id, toColumns(input));
+  return await toEntry(updated ?? item);
+}
+
+export async function deleteBankItem(item: QuestionBankItem): Promise<void> {
+  const usages = await storage.getSurveyQuestionsByBankQuestionId(item.id);
+  if (usages.length > 0) {
+    throw new QuestionBankError(
+      "This question is used in surveys, so it can't be deleted. Its answers are compared across those surveys."
+    );
+  }
+  await storage.deleteQuestionBankItem(item.id);
+}
+
+// Append a copy of a bank question to the end of a survey
+export async function insertBankQuestion(survey: Survey, item: QuestionBankItem): Promise<SurveyQuestion> {
+  if (item.clientId !== survey.clientId) {
+    throw new QuestionBankError("The question bank entry belongs to another client", 403);
+  }
+  await assertQuestionsEditable(survey);
+
+  const questions = await storage.getSurveyQuestionsBySurveyId(survey.id);
+  const orderIndex = questions.reduce((max, question) => Math.max(max, question.orderIndex + 1), 0);
+  return await storage.createSurveyQuestion({
+    surveyId: survey.id,
+    questionText: item.questionText,
+    questionType: item.questionType,
+    options: item.options,
+    required: item.required,
+    orderIndex,
+    conditionalLogic: null,
+    validation: item.validation,
+    bankQuestionId: item.id
+  });
+}
+
+function parseAnswer(responseData: string): string {
+  try {
+    const parsed = JSON.parse(responseData);
+    return typeof parsed === 'string' ? parsed : JSON.stringify(parsed);
+  } catch (error) {
+    return responseData;
+  }
+}
+
+// The options ticked in a checkbox answer, as returned by parseAnswer
+function tickedOptions(answer: string): string[] {
+  try {
+    const parsed = JSON.parse(answer);
+    return Array.isArray(parsed?.selected) ? parsed.selected : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+// Completed answers to a bank question in every survey it was inserted into, so the same
+// standardized question can be compared side by side
+export async function getBankQuestionUsage(item: QuestionBankItem): Promise<BankQuestionUsage> {
+  const usages = await storage.getSurveyQuestionsByBankQuestionId(item.id);
+
+  const surveys: BankQuestionSurveyUsage[] = [];
+  for (const question of usages) {
+    const survey = await storage.getSurvey(question.surveyId);
+    if (!survey) continue;
+
+    const responses = (await storage.getDoctorSurveyResponsesBySurveyId(survey.id)).filter(r => r.completed);
+    const answers: string[] = [];
+    for (const response of responses) {
+      // Partial saves can leave more than one row per question; the latest one counts
+      const latest = (await storage.getQuestionResponsesByDoctorSurveyResponseId(response.id))
+        .filter(answer => answer.questionId === question.id)
+        .sort((a, b) => new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime())[0];
+      if (latest) answers.push(parseAnswer(latest.responseData));
+    }
+
+    const counts = new Map<string, number>();
+    if ((question.questionType === 'mcq' || question.questionType === 'checkbox') && question.options) {
+      for (const option of question.options.split('\n')) counts.set(option, 0);
+    } else if (question.questionType === 'scale') {
+      for (let value = 1; value <= 10; value++) counts.set(value.toString(), 0);
+    } else if (question.questionType === 'nps') {
+      for (let value = 0; value <= 10; value++) counts.set(value.toString(), 0);
+    }
+    if (question.questionType === 'checkbox') {
+      // Each ticked option counts once per respondent
+      for (const answer of answers) {
+        for (const option of tickedOptions(answer)) counts.set(option, (counts.get(option) ?? 0) + 1);
+      }
+    } else if (question.questionType !== 'text') {
+      for (const answer of answers) counts.set(answer, (counts.get(answer) ?? 0) + 1);
+    }
+
+    const scaleValues = ['scale', 'nps', 'numeric'].includes(question.questionType)
+      ? answers.map(answer => parseFloat(answer)).filter(value => !isNaN(value))
+      : [];
+
+    surveys.push({
+      surveyId: survey.id,
+      surveyTitle: survey.title,
+      surveyStatus: survey.status,
+      questionId: question.id,
+      answerCount: answers.length,
+      distribution: Array.from(counts, ([answer, count]) => ({ answer, count })),
+      average: scaleValues.length > 0
+        ? Math.round((scaleValues.reduce((sum, value) => sum + value, 0) / scaleValues.length) * 10) / 10
+        : null
+    });
+  }
+
+  return { item: await toEntry(item), surveys };
+}
@@ -0,0 +1,145 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PayoutProvider, PayoutRequest, PayoutResult, PayoutBeneficiary, BeneficiaryValidation,
+  PayoutError, checkBeneficiaryFormat
+} from './payoutProvider';
+
+const RAZORPAY_API_URL = 'https://api.razorpay.com/v1';
+
+export interface RazorpayConfig {
+  keyId: string;
+  keySecret: string;
+  accountNumber: string; // RazorpayX account the payouts are debited from
+}
+
+// Payouts through RazorpayX (https://razorpay.com/docs/api/x/payouts/)
+export class RazorpayPayoutProvider implements PayoutProvider {
+  readonly name = 'razorpay';
+
+  constructor(private config: RazorpayConfig) {}
+
+  async createPayout(request: PayoutRequest): Promise<PayoutResult> {
+    const contact = {
+      name: request.name,
+      type: 'customer',
+      reference_id: `doctor_${request.doctorId}`,
+      notes: {
+        doctor_id: request.doctorId.toString()
+      }
+    };
+
+    const fundAccount = request.beneficiary.type === 'upi'
+      ? {
+        account_type: 'vpa',
+        vpa: { address: request.beneficiary.upiId },
+        contact: { ...contact, email: request.email || '', contact: request.phone || '' }
+      }
+      : {
+        account_type: 'wallet',
+        wallet: { provider: 'amazonpay', phone: request.beneficiary.phoneNumber, name: request.name },
+        contact: { ...contact, contact: request.beneficiary.phoneNumber }
+      };
+
+    const payload = {
+      account_number: this.config.accountNumber,
+      amount: request.amountInPaise,
+      currency: 'INR',
+      mode: request.beneficiary.type === 'upi' ? 'UPI' : 'amazonpay',
+      purpose: 'payout',
+      fund_account: fundAccount,
+      queue_if_low_balance: true,
+      reference_id: request.referenceId,
+      narration: 'Medical Survey Rewards',
+      notes: {
+        redemption_id: request.redemptionId.toString(),
+        points_redeemed: request.pointsRedeemed.toString(),
+        reward_type: request.beneficiary.type === 'upi' ? 'UPI Payout' : 'Amazon Pay Balance'
+      }
+    };
+
+    const data = await this.request('post', '/payouts', payload, {
+      // Prevents duplicate payments if the same request is retried
+      'X-Payout-Idempotency': request.idempotencyKey || uuidv4()
+    });
+    return toPayoutResult(data);
+  }
+
+  async getPayoutStatus(payoutId: string): Promise<PayoutResult> {
+    const data = await this.request('get', `/payouts/${payoutId}`);
+    return toPayoutResult(data);
+  }
+
+  async validateBeneficiary(beneficiary: PayoutBeneficiary, name: string): Promise<BeneficiaryValidation> {
+    const format = checkBeneficiaryFormat(beneficiary);
+    if (!format.valid) return format;
+
+    // Razorpay can only verify VPAs; wallet numbers are checked when the payout is made
+    if (beneficiary.type !== 'upi') return format;
+
+    let validation = await this.request('post', '/fund_accounts/validations', {
+      account_number: this.config.accountNumber,
+      fund_account: {
+        account_type: 'vpa',
+        vpa: { address: beneficiary.upiId },
+        contact: { name, type: 'customer' }
+      }
+    });
+    if (validation.status !== 'completed') {
+      validation = await this.request('get', `/fund_accounts/validations/${validation.id}`);
+    }
+
+    // Still in progress: let the payout go ahead and fail there if the VPA is bad
+    if (validation.status !== 'completed') {
+      return { valid: true };
+    }
+
+    if (validation.results?.account_status !== 'active') {
+      return { valid: false, reason: 'UPI ID could not be verified' };
+    }
+    return { valid: true, accountHolderName: validation.results?.registered_name };
+  }
+
+  private async request(method: 'get' | 'post', path: string, data?: any, headers: Record<string, string> = {}) {
+    try {
+      const response = await axios({
+        method,
+        url: `${RAZORPAY_API_URL}${path}`,
+        auth: {
+          username: this.config.keyId,
+          password: this.config.keySecret
+        },
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers
+        },
+        data
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error(`Razorpay ${method.toUpperCase()} ${path} error:`, error.response?.data || error.message);
+
+      if (error.response) {
+        throw new PayoutError(
+          error.response.data?.error?.description || 'Payment gateway error',
+          error.response.data?.error?.code || 'gateway_error',
+          { httpStatus: error.response.status, body: error.response.data }
+        );
+      }
+      if (error.request) {
+        throw new PayoutError('Unable to connect to payment gateway', 'connection_error');
+      }
+      throw new PayoutError(error.message, 'client_error');
+    }
+  }
+}
+
+function toPayoutResult(data: any): PayoutResult {
+  return {
+    payoutId: data.id,
+    status: data.status,
+    utr: data.utr ?? null,
+    failureReason: data.status_details?.description ?? data.failure_reason ?? null,
+    raw: data
+  };
+}
@@ -0,0 +1,138 @@
+import { storage } from '../storage';
+import { Redemption, INACTIVE_REDEMPTION_STATUSES } from '@shared/schema';
+import { holdRedemptionPoints, releaseRedemptionPoints, PointsLedgerError } from './pointsLedgerService';
+
+export class RedemptionReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RedemptionReviewError';
+  }
+}
+
+export type RedemptionReviewAction = 'approve' | 'reject' | 'requeue';
+
+// Statuses an admin may reject from. A dead-lettered payout may be rejected once the
+// admin has confirmed with the gateway that no money went out.
+const REJECTABLE_STATUSES = ['pending', 'dead_letter'];
+
+// Statuses an admin may send back to the payout queue
+const REQUEUEABLE_STATUSES = ['failed', 'reversed', 'dead_letter'];
+
+async function getRedemptionInStatus(id: number, statuses: string[], action: string): Promise<Redemption> {
+  const redemption = await storage.getRedemption(id);
+  if (!redemption) {
+    throw new RedemptionReviewError('Redemption not found', 404);
+  }
+  if (!statuses.includes(redemption.status)) {
+    throw new RedemptionReviewError(`Cannot ${action} a redemption that is ${redemption.status}`, 409);
+  }
+  return redemption;
+}
+
+// Release a pending redemption to the payout queue
+export async function approveRedemption(id: number, adminId: number): Promise<Redemption> {
+  const redemption = await getRedemptionInStatus(id, ['pending'], 'approve');
+
+  const update: Partial<Redemption> = {
+    status: 'approved',
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+    nextAttemptAt: null
+  };
+  const updated = await storage.updateRedemption(id, update);
+  return updated || { ...redemption, ...update };
+}
+
+// Refuse a redemption and give the held points back to the doctor
+export async function rejectRedemption(id: number, adminId: number, reason: string): Promise<Redemption> {
+  const redemption = await getRedemptionInStatus(id, REJECTABLE_STATUSES, 'reject');
+
+  const update: Partial<Redemption> = {
+    status: 'rejected',
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+    rejectionReason: reason,
+    nextAttemptAt: null
+  };
+  const updated = await storage.updateRedemption(id, update);
+  await releaseRedemptionPoints(redemption, `Redemption rejected: ${reason}`);
+  return updated || { ...redemption, ...update };
+}
+
+// Send a failed, reversed or dead-lettered redemption back for another payout round.
+// Failed and reversed payouts had their points released, so they are held again and the
+// round gets a fresh idempotency key. A dead-lettered payout keeps its key and hold, so
+// the gateway returns the original payout if one was in fact made.
+export async function requeueRedemption(id: number, adminId: number): Promise<Redemption> {
+  const redemption = await getRedemptionInStatus(id, REQUEUEABLE_STATUSES, 'requeue');
+
+  const update: Partial<Redemption> = {
+    status: 'approved',
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+    attemptCount: 0,
+    nextAttemptAt: null,
+    failureReason: null
+  };
+
+  if (redemption.status !== 'dead_letter') {
+    // A failed redemption frees the survey, so the doctor may have redeemed it again since
+    const others = await storage.getRedemptionsByDoctorId(redemption.doctorId);
+    if (others.some(other => other.id !== redemption.id && other.surveyId === redemption.surveyId &&
+        !INACTIVE_REDEMPTION_STATUSES.includes(other.status))) {
+      throw new RedemptionReviewError('Cannot requeue: the doctor has redeemed this survey again', 409);
+    }
+
+    try {
+      await holdRedemptionPoints(redemption);
+    } catch (error) {
+      if (error instanceof PointsLedgerError) {
+        throw new RedemptionReviewError(`Cannot requeue: ${error.message}`, error.status);
+      }
+      throw error;
+    }
+    Object.assign(update, {
+      requeueCount: redemption.requeueCount + 1,
+      idempotencyKey: null,
+      payoutId: null,
+      payoutStatus: null
+    });
+  }
+
+  const updated = await storage.updateRedemption(id, update);
+  return updated || { ...redemption, ...update };
+}
+
+// Apply one review action to several redemptions. Each is handled on its own, so one
+// redemption in the wrong state does not hold up the rest.
+export async function reviewRedemptions(
+  action: RedemptionReviewAction,
+  ids: number[],
+  adminId: number,
+  reason?: string
+) {
+  const results: { id: number; success: boolean; status?: string; message?: string }[] = [];
+
+  for (const id of Array.from(new Set(ids))) {
+    try {
+      const redemption = action === 'approve'
+        ? await approveRedemption(id, adminId)
+        : action === 'reject'
+          ? await rejectRedemption(id, adminId, reason || '')
+          : await requeueRedemption(id, adminId);
+      results.push({ id, success: true, status: redemption.status });
+    } catch (error: any) {
+      if (!(error instanceof RedemptionReviewError)) {
+        console.error(`Error applying ${action} to redemption ${id}:`, error);
+      }
+      results.push({ id, success: false, message: error.message || 'Unknown error occurred' });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  return {
+    succeeded,
+    failed: results.length - succeeded,
+    results
+  };
+}
@@ -1,64 +1,47 @@
 import { storage } from '../storage';
-import * as razorpayService from './razonpayService';
-import { v4 as uuidv4 } from 'uuid';
+import { Redemption, RedemptionQuote, Survey } from '@shared/schema';
+import { releaseRedemptionPoints } from './pointsLedgerService';
+import {
+  getPayoutProvider, isRetryablePayoutError, PayoutBeneficiary, PayoutError, PayoutResult
+} from './payoutProvider';
 
-// Process pending redemption requests
-// Process pending redemption requests
-export async function processPendingRedemptions() {
+// Conversion used when a redemption predates per-client rates
+export const DEFAULT_POINT_VALUE_PAISE = 100;
+
+const MAX_PAYOUT_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000; // 5 minutes, doubled after each failed attempt
+
+// Pay out admin-approved redemptions that are due for a payout attempt
+export async function processApprovedRedemptions() {
   try {
-    // Find all pending redemptions
-    const pendingRedemptions = await storage.getRedemptionsByStatus('pending');
-    
-    if (pendingRedemptions.length === 0) {
-      return { processed: 0, failed: 0, message: 'No pending redemptions found' };
+    const now = new Date();
+    const approvedRedemptions = (await storage.getRedemptionsByStatus('approved'))
+      .filter(redemption => !redemption.nextAttemptAt || new Date(redemption.nextAttemptAt) <= now);
+
+    if (approvedRedemptions.length === 0) {
+      return { processed: 0, retrying: 0, failed: 0, deadLettered: 0, message: 'No approved redemptions due for payout' };
     }
-    
+
     let processed = 0;
+    let retrying = 0;
     let failed = 0;
-    
-    for (const redemption of pendingRedemptions) {
-      try {
-        if (redemption.redemptionType === 'upi') {
-          // Process UPI payment using Razorpay
-          await processUpiPayment(redemption);
-        } else if (redemption.redemptionType === 'amazon') {
-          // Process Amazon Pay balance using Razorpay and mobile number
-          await processAmazonPayBalance(redemption);
-        }
-        
-        // Mark as processed
-        await storage.updateRedemption(redemption.id, {
-          status: 'processed',
-          processedAt: new Date()
-        });
-        
-        processed++;
-      } catch (error: any) {
-        console.error(`Failed to process redemption ${redemption.id}:`, error);
-        
-        // Mark as failed
-        await storage.updateRedemption(redemption.id, {
-          status: 'failed',
-          failureReason: error.message || 'Unknown error occurred'
-        });
-        
-        // Restore points to doctor
-        const doctor = await storage.getDoctor(redemption.doctorId);
-        if (doctor) {
-          await storage.updateDoctor(doctor.id, {
-            redeemedPoints: doctor.redeemedPoints - redemption.points
-          });
-        }
-        
-        failed++;
-      }
+    let deadLettered = 0;
+
+    for (const redemption of approvedRedemptions) {
+      const result = await attemptRedemptionPayout(redemption);
+      if (result.status === 'processed') processed++;
+      else if (result.status === 'approved') retrying++;
+      else if (result.status === 'dead_letter') deadLettered++;
+      else failed++;
     }
-    
+
     return {
       processed,
+      retrying,
       failed,
-      total: pendingRedemptions.length,
-      message: `Processed ${processed} redemptions, ${failed} failed`
+      deadLettered,
+      total: approvedRedemptions.length,
+      message: `Processed ${processed} redemptions, ${retrying} to retry, ${failed} failed, ${deadLettered} dead-lettered`
     };
   } catch (error) {
     console.error('Error processing redemptions:', error);
@@ -66,146 +49,191 @@ export async function processPendingRedemptions() {
   }
 }
 
-// Process UPI payment using Razorpay
-// Process UPI payment using Razorpay
-async function processUpiPayment(redemption: any) {
-  if (!redemption.redemptionDetails) {
-    throw new Error('UPI ID is required for UPI payment');
-  }
-  
+// Make one payout attempt for a redemption and record the outcome:
+//   - success: processed
+//   - retryable error: stays approved with an exponentially later nextAttemptAt
+//   - retryable error on the last attempt: dead_letter, for an admin to resolve
+//   - terminal error: failed, and the held points are returned
+export async function attemptRedemptionPayout(redemption: Redemption): Promise<Redemption> {
+  // Derived from the redemption and reused on every attempt, so a retry after a lost
+  // response returns the original payout instead of paying again. A requeued payout
+  // round gets its own key, since the gateway has already settled the previous one.
+  const idempotencyKey = redemption.idempotencyKey || (redemption.requeueCount > 0
+    ? `redemption-${redemption.id}-${redemption.requeueCount}`
+    : `redemption-${redemption.id}`);
+  const attemptCount = redemption.attemptCount + 1;
+  const attempt = { ...redemption, idempotencyKey, attemptCount, lastAttemptAt: new Date(), nextAttemptAt: null };
+  await storage.updateRedemption(redemption.id, {
+    idempotencyKey,
+    attemptCount,
+    lastAttemptAt: attempt.lastAttemptAt,
+    nextAttemptAt: null
+  });
+
+  let update: Partial<Redemption>;
   try {
-    let upiId;
-    
-    // Check if redemptionDetails is already a string or if it needs to be parsed
-    if (typeof redemption.redemptionDetails === 'string') {
-      try {
-        // First try to parse it as JSON
-        const parsedDetails = JSON.parse(redemption.redemptionDetails);
-        upiId = parsedDetails;
-      } catch (e) {
-        // If parsing fails, use the string directly as the UPI ID
-        upiId = redemption.redemptionDetails;
-      }
+    await processRedemptionPayout(attempt);
+    update = { status: 'processed', processedAt: new Date(), failureReason: null };
+  } catch (error: any) {
+    const reason = error.message || 'Unknown error occurred';
+    console.error(`Payout attempt ${attemptCount} for redemption ${redemption.id} failed:`, error);
+
+    if (!isRetryablePayoutError(error)) {
+      update = { status: 'failed', failureReason: reason };
+      await releaseRedemptionPoints(redemption, `Payout failed: ${reason}`);
+    } else if (attemptCount >= MAX_PAYOUT_ATTEMPTS) {
+      // The gateway may or may not have paid, so the points stay held until an admin checks
+      update = { status: 'dead_letter', failureReason: `Gave up after ${attemptCount} attempts: ${reason}` };
     } else {
-      // If it's an object, get the upiId property
-      upiId = redemption.redemptionDetails.upiId;
-    }
-    
-    if (!upiId) {
-      throw new Error('UPI ID not found in redemption details');
-    }
-    
-    // Get doctor and user details
-    const doctor = await storage.getDoctor(redemption.doctorId);
-    if (!doctor) {
-      throw new Error('Doctor not found');
-    }
-    
-    const user = await storage.getUser(doctor.userId);
-    if (!user) {
-      throw new Error('User not found');
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attemptCount - 1);
+      update = { failureReason: reason, nextAttemptAt: new Date(Date.now() + delay) };
     }
-    
-    // Prepare payout data
-    const payoutData = {
-      doctorId: doctor.id,
-      redemptionId: redemption.id,
-      transactionId: `redemption_${redemption.id}`,
-      amountInPaise: calculateRedemptionValue(redemption.points) * 100, // Convert rupees to paise
-      pointsRedeemed: redemption.points,
-      upiId: upiId,
-      name: user.name,
-      email: user.email || 'noemail@example.com',
-      phone: user.phone
-    };
-    
-    // Process payout through Razorpay
-    const result = await razorpayService.processUpiPayout(payoutData);
-    
-    // Update redemption with payout details
-    await storage.updateRedemption(redemption.id, {
-      payoutId: result.payoutId,
-      payoutStatus: result.status,
-      payoutResponse: JSON.stringify(result.data)
-    });
-    
-    return result;
-  } catch (error: any) {
-    console.error('Error processing UPI payment:', error);
-    throw new Error(error.message || 'Failed to process UPI payment');
   }
+
+  const updated = await storage.updateRedemption(redemption.id, update);
+  return updated || { ...attempt, ...update };
 }
 
-// Process Amazon Pay balance
-// Process Amazon Pay balance
-async function processAmazonPayBalance(redemption: any) {
+// Work out where a redemption should be paid. redemptionDetails holds the UPI ID or
+// Amazon Pay mobile number, either as plain text or JSON encoded.
+export function getRedemptionBeneficiary(redemption: Redemption): PayoutBeneficiary {
   if (!redemption.redemptionDetails) {
-    throw new Error('Redemption details missing for Amazon Pay balance');
+    throw new PayoutError('Redemption details missing', 'invalid_beneficiary');
   }
-  
+
+  let details: any;
   try {
-    let phoneNumber;
-    
-    // Check if redemptionDetails is already a string or if it needs to be parsed
-    if (typeof redemption.redemptionDetails === 'string') {
-      try {
-        // First try to parse it as JSON
-        const parsedDetails = JSON.parse(redemption.redemptionDetails);
-        phoneNumber = parsedDetails;
-      } catch (e) {
-        // If parsing fails, use the string directly as the phone number
-        phoneNumber = redemption.redemptionDetails;
-      }
-    } else {
-      // If it's an object, get the phoneNumber property
-      phoneNumber = redemption.redemptionDetails.phoneNumber;
+    details = JSON.parse(redemption.redemptionDetails);
+  } catch (e) {
+    details = redemption.redemptionDetails;
+  }
+
+  if (redemption.redemptionType === 'upi') {
+    const upiId = typeof details === 'string' ? details : details?.upiId;
+    if (!upiId) {
+      throw new PayoutError('UPI ID not found in redemption details', 'invalid_beneficiary');
     }
-    
+    return { type: 'upi', upiId: String(upiId).trim() };
+  }
+
+  if (redemption.redemptionType === 'amazon') {
+    const phoneNumber = typeof details === 'string' ? details : details?.phoneNumber;
     if (!phoneNumber) {
-      throw new Error('Phone number not found in redemption details');
-    }
-    
-    // Get doctor and user details
-    const doctor = await storage.getDoctor(redemption.doctorId);
-    if (!doctor) {
-      throw new Error('Doctor not found');
-    }
-    
-    const user = await storage.getUser(doctor.userId);
-    if (!user) {
-      throw new Error('User not found');
+      throw new PayoutError('Phone number not found in redemption details', 'invalid_beneficiary');
     }
-    
-    // Prepare payout data
-    const payoutData = {
-      doctorId: doctor.id,
-      redemptionId: redemption.id,
-      transactionId: `redemption_${redemption.id}`,
-      amountInPaise: calculateRedemptionValue(redemption.points) * 100, // Convert rupees to paise
-      pointsRedeemed: redemption.points,
-      phoneNumber: phoneNumber,
-      name: user.name
-    };
-    
-    // Process payout through Razorpay
-    const result = await razorpayService.processAmazonPayBalance(payoutData);
-    
-    // Update redemption with payout details
-    await storage.updateRedemption(redemption.id, {
-      payoutId: result.payoutId,
-      payoutStatus: result.status,
-      payoutResponse: JSON.stringify(result.data)
-    });
-    
-    return result;
-  } catch (error: any) {
-    console.error('Error processing Amazon Pay balance:', error);
-    throw new Error(error.message || 'Failed to process Amazon Pay balance');
+    return { type: 'amazon', phoneNumber: String(phoneNumber).trim() };
+  }
+
+  throw new PayoutError(`Unsupported redemption type "${redemption.redemptionType}"`, 'invalid_beneficiary');
+}
+
+// Send a redemption's payout through the configured provider and record the result. The
+// round's idempotency key doubles as the payout reference, which webhooks are matched on.
+async function processRedemptionPayout(redemption: Redemption & { idempotencyKey: string }): Promise<PayoutResult> {
+  const doctor = await storage.getDoctor(redemption.doctorId);
+  if (!doctor) {
+    throw new Error('Doctor not found');
+  }
+
+  const user = await storage.getUser(doctor.userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const provider = getPayoutProvider();
+  const beneficiary = getRedemptionBeneficiary(redemption);
+
+  const validation = await provider.validateBeneficiary(beneficiary, user.name);
+  if (!validation.valid) {
+    throw new PayoutError(validation.reason || 'Invalid beneficiary', 'invalid_beneficiary');
+  }
+
+  const result = await provider.createPayout({
+    idempotencyKey: redemption.idempotencyKey,
+    redemptionId: redemption.id,
+    doctorId: doctor.id,
+    referenceId: redemption.idempotencyKey,
+    amountInPaise: redemption.amountPaise
+      ?? calculateRedemptionValue(redemption.points, redemption.pointValuePaise ?? DEFAULT_POINT_VALUE_PAISE),
+    pointsRedeemed: redemption.points,
+    beneficiary,
+    name: user.name,
+    email: user.email,
+    phone: user.phone
+  });
+
+  // Update redemption with payout details
+  await storage.updateRedemption(redemption.id, {
+    payoutId: result.payoutId,
+    payoutStatus: result.status,
+    payoutResponse: JSON.stringify(result.raw)
+  });
+
+  if (result.status === 'failed' || result.status === 'rejected') {
+    throw new PayoutError(result.failureReason || `Payout ${result.status}`, `payout_${result.status}`);
+  }
+
+  return result;
+}
+
+// Fetch the latest state of a payout from the configured provider
+export async function checkPayoutStatus(payoutId: string): Promise<PayoutResult> {
+  return getPayoutProvider().getPayoutStatus(payoutId);
+}
+
+// Redemption states that no later payout update may change
+const FINAL_REDEMPTION_STATUSES = ['failed', 'reversed'];
+
+// Bring a redemption in line with its payout's latest state. Safe to call repeatedly
+// with the same state (from status polling and webhook retries alike).
+export async function applyPayoutStatus(
+  redemption: Redemption,
+  payout: Pick<PayoutResult, 'status' | 'failureReason' | 'raw'>
+): Promise<Redemption> {
+  if (FINAL_REDEMPTION_STATUSES.includes(redemption.status)) {
+    return redemption;
   }
+
+  const update: Partial<Redemption> = {
+    payoutStatus: payout.status,
+    payoutResponse: JSON.stringify(payout.raw)
+  };
+
+  if (payout.status === 'processed') {
+    update.status = 'completed';
+    update.processedAt = redemption.processedAt || new Date();
+  } else if (payout.status === 'failed' || payout.status === 'rejected' || payout.status === 'reversed') {
+    update.status = payout.status === 'reversed' ? 'reversed' : 'failed';
+    update.failureReason = payout.failureReason || `Payout ${payout.status}`;
+  }
+
+  const updated = await storage.updateRedemption(redemption.id, update);
+
+  // The money never reached the doctor, so give the points back
+  if (update.status === 'failed' || update.status === 'reversed') {
+    await releaseRedemptionPoints(redemption, `Payout ${payout.status}: ${update.failureReason}`);
+  }
+
+  return updated || { ...redemption, ...update };
 }
 
-// Helper function to calculate redemption value based on points
-function calculateRedemptionValue(points: number): number {
-  // Example: 100 points = ₹100
-  return points;
-}
\ No newline at end of file
+// Payout amount in paise for a number of points at the given rate
+export function calculateRedemptionValue(points: number, pointValuePaise: number): number {
+  return points * pointValuePaise;
+}
+
+// Price a survey's points using the survey's override, falling back to its client's settings
+export async function getRedemptionQuote(survey: Survey, points: number = survey.points): Promise<RedemptionQuote> {
+  const client = await storage.getClient(survey.clientId);
+  const pointValuePaise = survey.pointValuePaise ?? client?.pointValuePaise ?? DEFAULT_POINT_VALUE_PAISE;
+  const minRedemptionPaise = survey.minRedemptionPaise ?? client?.minRedemptionPaise ?? 0;
+  const amountPaise = calculateRedemptionValue(points, pointValuePaise);
+
+  return {
+    points,
+    pointValuePaise,
+    amountPaise,
+    minRedemptionPaise,
+    meetsMinimum: amountPaise >= minRedemptionPaise
+  };
+}
@@ -0,0 +1,61 @@
+import { test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Survey } from '@shared/schema';
+import { MemStorage, storage, BUDGET_FREED_REASON } from '../storage';
+import { releaseSurveyCompletion, reserveSurveyCompletion } from './surveyBudgetService';
+
+// The service writes through the shared storage; point it at a fresh in-memory store
+let memory: MemStorage;
+
+beforeEach(() => {
+  mock.restoreAll();
+  memory = new MemStorage();
+  for (const method of ['getSurvey', 'getSurveyQuotaCells', 'reserveSurveyCompletion', 'releaseSurveyCompletion'] as const) {
+    mock.method(storage, method, (memory[method] as Function).bind(memory));
+  }
+});
+
+async function activeSurvey(fields: Partial<Survey>): Promise<Survey> {
+  const survey = await memory.createSurvey({
+    clientId: 1,
+    title: 'Prescribing habits',
+    points: 100,
+    estimatedTime: 5,
+    status: 'active',
+    pointValuePaise: null,
+    minRedemptionPaise: null,
+    pointsBudget: null,
+    maxCompletions: null,
+  });
+  return (await memory.updateSurvey(survey.id, fields))!;
+}
+
+test('reopens a survey the completion quota closed once a completion is released', async () => {
+  const survey = await activeSurvey({ maxCompletions: 1 });
+  assert.equal((await reserveSurveyCompletion(survey, null)).status, 'closed');
+
+  await releaseSurveyCompletion(survey, null);
+  const reopened = (await memory.getSurvey(survey.id))!;
+  assert.equal(reopened.status, 'active');
+  assert.equal(reopened.completionCount, 0);
+  const [latest] = await memory.getSurveyStatusTransitions(survey.id);
+  assert.deepEqual([latest.fromStatus, latest.toStatus, latest.reason], ['closed', 'active', BUDGET_FREED_REASON]);
+});
+
+test('keeps a survey closed when it was closed for another reason', async () => {
+  const survey = await activeSurvey({ pointsBudget: 1000 });
+  await reserveSurveyCompletion(survey, null);
+  await memory.transitionSurveyStatus(survey.id, 'active', 'closed', 1, null);
+
+  await releaseSurveyCompletion(survey, null);
+  assert.equal((await memory.getSurvey(survey.id))!.status, 'closed');
+});
+
+test('keeps a budget-closed survey closed once its response window has ended', async () => {
+  const survey = await activeSurvey({ pointsBudget: 100, endsAt: new Date(Date.now() + 1000) });
+  assert.equal((await reserveSurveyCompletion(survey, null)).status, 'closed');
+  await memory.updateSurvey(survey.id, { endsAt: new Date(Date.now() - 1000) });
+
+  await releaseSurveyCompletion(survey, null);
+  assert.equal((await memory.getSurvey(survey.id))!.status, 'closed');
+});
@@ -0,0 +1,101 @@
+import { storage, findQuotaCell } from '../storage';
+import { Survey, SurveyBudget, SurveyQuotaCell } from '@shared/schema';
+
+export class SurveyBudgetError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'SurveyBudgetError';
+  }
+}
+
+// Take one completion's worth of the survey's quota and points budget, and a place in
+// the quota cell for the doctor's specialty. Throws if the survey isn't accepting
+// responses or any of those limits has been reached.
+export async function reserveSurveyCompletion(survey: Survey, specialty: string | null): Promise<Survey> {
+  const reserved = await storage.reserveSurveyCompletion(survey.id, survey.points, specialty);
+  if (reserved) return reserved;
+
+  const latest = await storage.getSurvey(survey.id);
+  if (!latest) {
+    throw new SurveyBudgetError('Survey not found', 404);
+  }
+  if (latest.status !== 'active') {
+    throw new SurveyBudgetError('This survey is no longer accepting responses');
+  }
+  if (latest.maxCompletions !== null && latest.completionCount >= latest.maxCompletions) {
+    throw new SurveyBudgetError('This survey has reached its maximum number of responses');
+  }
+  const cell = findQuotaCell(await storage.getSurveyQuotaCells(survey.id), specialty);
+  if (cell && cell.filledCount >= cell.target) {
+    throw new SurveyBudgetError(`This survey already has all the ${cell.specialty} responses it needs`);
+  }
+  throw new SurveyBudgetError("This survey's points budget has been used up");
+}
+
+// Give back a reservation whose response was not recorded after all. A survey the limits
+// closed reopens if the freed capacity fits another completion.
+export async function releaseSurveyCompletion(survey: Survey, specialty: string | null): Promise<void> {
+  await storage.releaseSurveyCompletion(survey.id, survey.points, specialty);
+}
+
+// Whether the quota cell for a doctor's specialty has no places left
+export function isQuotaCellFull(cells: SurveyQuotaCell[], specialty: string | null): boolean {
+  const cell = findQuotaCell(cells, specialty);
+  return !!cell && cell.filledCount >= cell.target;
+}
+
+// Replace a survey's quota cells. Cells for new specialties start out counting the
+// completions already received from doctors of that specialty.
+export async function setSurveyQuotaCells(
+  survey: Survey,
+  cells: { specialty: string; target: number }[]
+): Promise<SurveyQuotaCell[]> {
+  const completed = (await storage.getDoctorSurveyResponsesBySurveyId(survey.id))
+    .filter(response => response.completed);
+  const specialties = await Promise.all(
+    completed.map(async response => (await storage.getDoctor(response.doctorId))?.specialty ?? null)
+  );
+
+  return await storage.replaceSurveyQuotaCells(survey.id, cells.map(cell => ({
+    surveyId: survey.id,
+    specialty: cell.specialty,
+    target: cell.target,
+    filledCount: specialties.filter(specialty => findQuotaCell([cell], specialty)).length
+  })));
+}
+
+// Spend against the survey's limits, with a day-by-day burn-down of completed responses
+export async function getSurveyBudget(survey: Survey): Promise<SurveyBudget> {
+  const responses = (await storage.getDoctorSurveyResponsesBySurveyId(survey.id))
+    .filter(response => response.completed && response.completedAt)
+    .sort((a, b) => new Date(a.completedAt!).getTime() - new Date(b.completedAt!).getTime());
+
+  const burnDown: SurveyBudget['burnDown'] = [];
+  let pointsSpent = 0;
+  let completions = 0;
+  for (const response of responses) {
+    const date = new Date(response.completedAt!).toISOString().slice(0, 10);
+    pointsSpent += response.pointsEarned ?? survey.points;
+    completions++;
+
+    const last = burnDown[burnDown.length - 1];
+    if (last && last.date === date) {
+      last.pointsSpent = pointsSpent;
+      last.completions = completions;
+    } else {
+      burnDown.push({ date, pointsSpent, completions });
+    }
+  }
+
+  return {
+    pointsBudget: survey.pointsBudget,
+    pointsSpent: survey.pointsSpent,
+    pointsRemaining: survey.pointsBudget !== null ? Math.max(survey.pointsBudget - survey.pointsSpent, 0) : null,
+    maxCompletions: survey.maxCompletions,
+    completionCount: survey.completionCount,
+    completionsRemaining: survey.maxCompletions !== null
+      ? Math.max(survey.maxCompletions - survey.completionCount, 0)
+      : null,
+    burnDown
+  };
+}
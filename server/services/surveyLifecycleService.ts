@@ -0,0 +1,140 @@
+import { storage } from '../storage';
+import {
+  Survey, SurveyQuestion, SurveyStatus, SurveyStatusTransition, SURVEY_STATUSES, SURVEY_STATUS_TRANSITIONS
+} from '@shared/schema';
+import { parseVersionSnapshot, publishSurveyVersion } from './surveyVersionService';
+
+export class SurveyLifecycleError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'SurveyLifecycleError';
+  }
+}
+
+// Question fields that change what doctors answer, and so what existing responses mean
+const STRUCTURAL_QUESTION_FIELDS = ['questionType', 'options', 'required', 'orderIndex', 'conditionalLogic', 'validation', 'surveyId'] as const;
+
+export function isSurveyStatus(status: string): status is SurveyStatus {
+  return (SURVEY_STATUSES as readonly string[]).includes(status);
+}
+
+export function canTransitionSurvey(from: string, to: string): boolean {
+  return isSurveyStatus(from) && isSurveyStatus(to) && SURVEY_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Move a survey to a new status along an allowed transition, recording who did it.
+// actorUserId is null for scheduled changes.
+export async function changeSurveyStatus(
+  survey: Survey,
+  toStatus: SurveyStatus,
+  actorUserId: number | null,
+  reason?: string
+): Promise<Survey> {
+  if (survey.status === toStatus) {
+    throw new SurveyLifecycleError(`The survey is already ${toStatus.replace('_', ' ')}`);
+  }
+  if (!canTransitionSurvey(survey.status, toStatus)) {
+    throw new SurveyLifecycleError(
+      `A ${survey.status.replace('_', ' ')} survey can't be moved to ${toStatus.replace('_', ' ')}`
+    );
+  }
+
+  if (toStatus === 'in_review' || toStatus === 'active') {
+    const questions = await storage.getSurveyQuestionsBySurveyId(survey.id);
+    if (questions.length === 0) {
+      throw new SurveyLifecycleError('Add at least one question first', 400);
+    }
+  }
+  if (toStatus === 'active' && survey.endsAt && new Date(survey.endsAt) <= new Date()) {
+    throw new SurveyLifecycleError("The survey's end date has passed. Move it later before reopening.", 400);
+  }
+
+  // Publishing needs the latest MLR review round to have been approved
+  const [latestReview] = await storage.getSurveyReviewsBySurveyId(survey.id);
+  if (survey.status === 'in_review' && toStatus === 'active' &&
+      (!latestReview || latestReview.status !== 'approved')) {
+    throw new SurveyLifecycleError('The survey must be approved by its reviewers before it can be published');
+  }
+
+  const updated = await storage.transitionSurveyStatus(survey.id, survey.status, toStatus, actorUserId, reason);
+  if (!updated) {
+    throw new SurveyLifecycleError('The survey status changed in the meantime. Reload and try again.');
+  }
+
+  // Pulling a survey out of review abandons the round awaiting decisions
+  if (survey.status === 'in_review' && toStatus === 'draft' && latestReview?.status === 'pending') {
+    await storage.updateSurveyReview(latestReview.id, { status: 'withdrawn', decidedAt: new Date() });
+  }
+  // Publishing freezes the approved content as a new version
+  if (survey.status === 'in_review' && toStatus === 'active') {
+    return await publishSurveyVersion(updated, latestReview!, actorUserId);
+  }
+  return updated;
+}
+
+export async function surveyHasResponses(surveyId: number): Promise<boolean> {
+  const responses = await storage.getDoctorSurveyResponsesBySurveyId(surveyId);
+  return responses.length > 0;
+}
+
+// Throws if questions can't be added, removed or restructured. Archived surveys are
+// read-only and content under review is frozen. Published surveys can be restructured,
+// since edits only shape the next version; surveys launched before versioning can only
+// have their wording changed once doctors have started responding.
+export async function assertQuestionsEditable(survey: Survey): Promise<void> {
+  assertContentEditable(survey);
+  if (!survey.currentVersionId && await surveyHasResponses(survey.id)) {
+    throw new SurveyLifecycleError(
+      "Questions can't be added, removed or restructured once doctors have started responding"
+    );
+  }
+}
+
+// Stored answers point at their question, so answered questions can't be deleted. Nor can
+// questions in a published version: doctors on that version are still shown them, and
+// their answers would have nothing to point at.
+export async function assertQuestionDeletable(survey: Survey, questionId: number): Promise<void> {
+  await assertQuestionsEditable(survey);
+  const versions = await storage.getSurveyVersionsBySurveyId(survey.id);
+  if (versions.some(version => parseVersionSnapshot(version).questions.some(question => question.id === questionId))) {
+    throw new SurveyLifecycleError(
+      "This question is part of a published version, so it can't be deleted. Edit it instead, or change the flow so the next version skips it."
+    );
+  }
+  const responses = await storage.getDoctorSurveyResponsesBySurveyId(survey.id);
+  for (const response of responses) {
+    const answers = await storage.getQuestionResponsesByDoctorSurveyResponseId(response.id);
+    if (answers.some(answer => answer.questionId === questionId)) {
+      throw new SurveyLifecycleError(
+        "Doctors have answered this question, so it can't be deleted. Edit it instead; published versions keep what doctors saw."
+      );
+    }
+  }
+}
+
+// Throws if the survey's content can't be changed at all right now
+export function assertContentEditable(survey: Survey): void {
+  if (survey.status === 'archived') {
+    throw new SurveyLifecycleError('Archived surveys cannot be edited');
+  }
+  if (survey.status === 'in_review') {
+    throw new SurveyLifecycleError('Questions are locked while the survey is in review. Move it back to draft to edit.');
+  }
+}
+
+// Whether an update to a question touches anything other than its wording
+export function isStructuralQuestionChange(question: SurveyQuestion, changes: Partial<SurveyQuestion>): boolean {
+  return STRUCTURAL_QUESTION_FIELDS.some(field =>
+    field in changes && changes[field] !== undefined && changes[field] !== question[field]
+  );
+}
+
+export type SurveyStatusHistoryEntry = SurveyStatusTransition & { actorName: string | null };
+
+export async function getSurveyStatusHistory(surveyId: number): Promise<SurveyStatusHistoryEntry[]> {
+  const transitions = await storage.getSurveyStatusTransitions(surveyId);
+  return await Promise.all(transitions.map(async transition => {
+    const actor = transition.actorUserId ? await storage.getUser(transition.actorUserId) : undefined;
+    return { ...transition, actorName: actor?.name ?? null };
+  }));
+}
@@ -0,0 +1,165 @@
+import { storage } from '../storage';
+import {
+  Survey, SurveyContentSnapshot, SurveyReview, SurveyReviewComment, SurveyReviewDecision,
+  Reviewer, ReviewRole, REVIEW_ROLES
+} from '@shared/schema';
+import { changeSurveyStatus } from './surveyLifecycleService';
+import { buildContentSnapshot } from './surveyVersionService';
+
+export class SurveyReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SurveyReviewError';
+  }
+}
+
+export type SurveyReviewDetail = {
+  review: SurveyReview | null;
+  snapshot: SurveyContentSnapshot | null;
+  // Review roles that must approve, from the client's reviewers
+  requiredRoles: ReviewRole[];
+  decisions: (SurveyReviewDecision & { reviewerName: string | null })[];
+  comments: (SurveyReviewComment & { authorName: string | null })[];
+};
+
+export function parseSnapshot(review: SurveyReview): SurveyContentSnapshot {
+  return JSON.parse(review.snapshot) as SurveyContentSnapshot;
+}
+
+async function getRequiredRoles(clientId: number): Promise<ReviewRole[]> {
+  const reviewers = await storage.getReviewersByClientId(clientId);
+  return REVIEW_ROLES.filter(role => reviewers.some(reviewer => reviewer.reviewRole === role));
+}
+
+export async function getLatestReview(surveyId: number): Promise<SurveyReview | undefined> {
+  const [latest] = await storage.getSurveyReviewsBySurveyId(surveyId);
+  return latest;
+}
+
+// Freeze the survey's current content into a new review round and move it to in_review.
+// Clients need at least one reviewer, otherwise nobody could approve the round.
+export async function submitSurveyForReview(survey: Survey, userId: number): Promise<SurveyReview> {
+  if (survey.status !== 'draft') {
+    throw new SurveyReviewError('Only draft surveys can be submitted for review', 409);
+  }
+
+  const snapshot = await buildContentSnapshot(survey);
+  if (snapshot.questions.length === 0) {
+    throw new SurveyReviewError('Add at least one question first');
+  }
+
+  const requiredRoles = await getRequiredRoles(survey.clientId);
+  if (requiredRoles.length === 0) {
+    throw new SurveyReviewError('Add at least one reviewer before submitting for review', 409);
+  }
+
+  const latest = await getLatestReview(survey.id);
+
+  // Move the survey first so a failed transition doesn't leave an orphaned round
+  await changeSurveyStatus(survey, 'in_review', userId, `Review round ${(latest?.round ?? 0) + 1} submitted`);
+
+  const review = await storage.createSurveyReview({
+    surveyId: survey.id,
+    round: (latest?.round ?? 0) + 1,
+    status: 'pending',
+    snapshot: JSON.stringify(snapshot),
+    submittedBy: userId
+  });
+  return review;
+}
+
+// Record a reviewer's decision on the current round. Any request for changes sends the
+// survey back to draft; the round is approved once every required role has approved.
+export async function decideSurveyReview(
+  survey: Survey,
+  reviewer: Reviewer,
+  reviewerUserId: number,
+  decision: 'approved' | 'changes_requested',
+  comment?: string
+): Promise<SurveyReview> {
+  const review = await getLatestReview(survey.id);
+  if (!review || review.status !== 'pending' || survey.status !== 'in_review') {
+    throw new SurveyReviewError('This survey has no review awaiting a decision', 409);
+  }
+
+  const decisions = await storage.getSurveyReviewDecisions(review.id);
+  if (decisions.some(d => d.reviewerId === reviewer.id)) {
+    throw new SurveyReviewError('You have already decided on this review round', 409);
+  }
+
+  await storage.createSurveyReviewDecision({
+    reviewId: review.id,
+    reviewerId: reviewer.id,
+    reviewRole: reviewer.reviewRole,
+    decision,
+    comment: comment ?? null
+  });
+
+  if (decision === 'changes_requested') {
+    const updated = await storage.updateSurveyReview(review.id, { status: 'changes_requested', decidedAt: new Date() });
+    await changeSurveyStatus(survey, 'draft', reviewerUserId, comment);
+    return updated!;
+  }
+
+  const approvedRoles = new Set([...decisions, { reviewRole: reviewer.reviewRole, decision }]
+    .filter(d => d.decision === 'approved')
+    .map(d => d.reviewRole));
+  const requiredRoles = await getRequiredRoles(survey.clientId);
+  if (requiredRoles.every(role => approvedRoles.has(role))) {
+    const updated = await storage.updateSurveyReview(review.id, { status: 'approved', decidedAt: new Date() });
+    await storage.updateSurvey(survey.id, { approvedReviewId: review.id });
+    return updated!;
+  }
+  return review;
+}
+
+// Comment on one question of the round's snapshot, or on the survey as a whole
+export async function addReviewComment(
+  survey: Survey,
+  authorUserId: number,
+  questionId: number | null,
+  body: string
+): Promise<SurveyReviewComment> {
+  const review = await getLatestReview(survey.id);
+  if (!review) {
+    throw new SurveyReviewError('This survey has not been submitted for review', 409);
+  }
+  if (questionId !== null && !parseSnapshot(review).questions.some(q => q.id === questionId)) {
+    throw new SurveyReviewError('That question is not part of this review round');
+  }
+
+  return await storage.createSurveyReviewComment({
+    reviewId: review.id,
+    questionId,
+    authorUserId,
+    body
+  });
+}
+
+export async function getSurveyReviewDetail(survey: Survey): Promise<SurveyReviewDetail> {
+  const review = await getLatestReview(survey.id);
+  const requiredRoles = await getRequiredRoles(survey.clientId);
+  if (!review) {
+    return { review: null, snapshot: null, requiredRoles, decisions: [], comments: [] };
+  }
+
+  const [decisions, comments] = await Promise.all([
+    storage.getSurveyReviewDecisions(review.id),
+    storage.getSurveyReviewComments(review.id)
+  ]);
+  const userName = async (userId: number) => (await storage.getUser(userId))?.name ?? null;
+
+  return {
+    review,
+    snapshot: parseSnapshot(review),
+    requiredRoles,
+    decisions: await Promise.all(decisions.map(async decision => {
+      const reviewer = await storage.getReviewer(decision.reviewerId);
+      return { ...decision, reviewerName: reviewer ? await userName(reviewer.userId) : null };
+    })),
+    comments: await Promise.all(comments.map(async comment => ({
+      ...comment,
+      authorName: await userName(comment.authorUserId)
+    })))
+  };
+}
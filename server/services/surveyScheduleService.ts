@@ -0,0 +1,68 @@
+import { storage } from '../storage';
+import { Survey } from '@shared/schema';
+import { changeSurveyStatus, SurveyLifecycleError } from './surveyLifecycleService';
+
+export class SurveyScheduleError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = 'SurveyScheduleError';
+  }
+}
+
+// Whether `now` falls inside the survey's response window. Missing dates leave that
+// side of the window open.
+export function isWithinSurveyWindow(survey: Survey, now: Date = new Date()): boolean {
+  if (survey.startsAt && new Date(survey.startsAt) > now) return false;
+  if (survey.endsAt && new Date(survey.endsAt) <= now) return false;
+  return true;
+}
+
+// Throws unless responses can be accepted right now
+export function assertSurveyWindowOpen(survey: Survey, now: Date = new Date()): void {
+  if (survey.startsAt && new Date(survey.startsAt) > now) {
+    throw new SurveyScheduleError(`This survey opens on ${new Date(survey.startsAt).toISOString()}`);
+  }
+  if (survey.endsAt && new Date(survey.endsAt) <= now) {
+    throw new SurveyScheduleError('This survey has closed');
+  }
+}
+
+// Returns an error message if the window ends before it starts
+export function validateSurveyWindow(startsAt: Date | null, endsAt: Date | null): string | undefined {
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return 'The end date must be after the start date';
+  }
+  return undefined;
+}
+
+// Publish approved surveys whose start date has arrived and close active and paused surveys
+// whose end date has passed. Drafts still have to go through review, so a survey waiting in
+// review is published at its start date once its reviewers approve it; one whose whole window
+// is already over stays in review. Surveys published early only take responses inside their window.
+export async function applySurveySchedules(now: Date = new Date()): Promise<{ activated: number; closed: number }> {
+  const due = await storage.getSurveysDueForScheduling(now);
+
+  let activated = 0;
+  let closed = 0;
+  for (const survey of due) {
+    if (survey.status === 'in_review') {
+      const [latestReview] = await storage.getSurveyReviewsBySurveyId(survey.id);
+      if (latestReview?.status !== 'approved' || !isWithinSurveyWindow(survey, now)) continue;
+      try {
+        await changeSurveyStatus(survey, 'active', null, 'Scheduled start date reached');
+        activated++;
+      } catch (error) {
+        // Changed by someone else in the meantime, or no longer publishable; left as it is
+        if (!(error instanceof SurveyLifecycleError)) throw error;
+      }
+      continue;
+    }
+
+    const updated = await storage.transitionSurveyStatus(
+      survey.id, survey.status, 'closed', null, 'Scheduled end date reached'
+    );
+    if (updated) closed++;
+  }
+
+  return { activated, closed };
+}
@@ -0,0 +1,93 @@
+import { storage } from '../storage';
+import { Doctor, Survey, SurveyTargeting, surveyTargetingSchema } from '@shared/schema';
+
+// What a targeting rule is checked against for one doctor
+export type DoctorTargetingProfile = {
+  doctorId: number;
+  specialty: string | null;
+  representativeIds: number[];
+  tags: string[];
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// The survey's stored targeting rules, or null when every mapped doctor can take it
+export function parseSurveyTargeting(survey: Survey): SurveyTargeting | null {
+  if (!survey.targeting) return null;
+  try {
+    const targeting = surveyTargetingSchema.parse(JSON.parse(survey.targeting));
+    return hasTargetingCriteria(targeting) ? targeting : null;
+  } catch (error) {
+    console.error(`Ignoring invalid targeting for survey ${survey.id}:`, error);
+    return null;
+  }
+}
+
+export function hasTargetingCriteria(targeting: SurveyTargeting): boolean {
+  return targeting.specialties.length > 0 ||
+    targeting.representativeIds.length > 0 ||
+    targeting.doctorIds.length > 0 ||
+    targeting.doctorTags.length > 0;
+}
+
+// A doctor must satisfy every criterion that has values, by matching any one of them.
+// Specialties and tags compare case-insensitively.
+export function matchesTargeting(targeting: SurveyTargeting, profile: DoctorTargetingProfile): boolean {
+  if (targeting.doctorIds.length > 0 && !targeting.doctorIds.includes(profile.doctorId)) {
+    return false;
+  }
+  if (targeting.specialties.length > 0) {
+    const specialty = profile.specialty ? normalize(profile.specialty) : null;
+    if (!specialty || !targeting.specialties.some(s => normalize(s) === specialty)) {
+      return false;
+    }
+  }
+  if (targeting.representativeIds.length > 0 &&
+      !profile.representativeIds.some(id => targeting.representativeIds.includes(id))) {
+    return false;
+  }
+  if (targeting.doctorTags.length > 0) {
+    const tags = profile.tags.map(normalize);
+    if (!targeting.doctorTags.some(tag => tags.includes(normalize(tag)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function getTargetingProfile(doctor: Doctor, clientId: number): Promise<DoctorTargetingProfile> {
+  const [representatives, tags] = await Promise.all([
+    storage.getRepresentativesByDoctorId(doctor.id),
+    storage.getDoctorTags(doctor.id, clientId)
+  ]);
+  return {
+    doctorId: doctor.id,
+    specialty: doctor.specialty,
+    representativeIds: representatives.map(rep => rep.id),
+    tags: tags.map(tag => tag.tag)
+  };
+}
+
+// Whether the survey's targeting rules let this doctor see and take it
+export async function isDoctorTargeted(survey: Survey, doctor: Doctor): Promise<boolean> {
+  const targeting = parseSurveyTargeting(survey);
+  if (!targeting) return true;
+  return matchesTargeting(targeting, await getTargetingProfile(doctor, survey.clientId));
+}
+
+// How many of the client's doctors a set of targeting rules would reach
+export async function countTargetedDoctors(
+  clientId: number,
+  targeting: SurveyTargeting
+): Promise<{ matchingDoctors: number; totalDoctors: number }> {
+  const doctors = await storage.getDoctorsByClientId(clientId);
+  if (!hasTargetingCriteria(targeting)) {
+    return { matchingDoctors: doctors.length, totalDoctors: doctors.length };
+  }
+
+  const profiles = await Promise.all(doctors.map(doctor => getTargetingProfile(doctor, clientId)));
+  return {
+    matchingDoctors: profiles.filter(profile => matchesTargeting(targeting, profile)).length,
+    totalDoctors: doctors.length
+  };
+}
@@ -0,0 +1,179 @@
+import { storage } from '../storage';
+import { BranchRule, ConditionalLogic, Survey, SurveyBlueprint, SurveyTemplate } from '@shared/schema';
+
+// Settings a survey can carry beyond its blueprint when it is created
+type SurveySettings = Partial<Pick<Survey,
+  'pointValuePaise' | 'minRedemptionPaise' | 'pointsBudget' | 'maxCompletions' | 'targeting'>>;
+
+export function parseBlueprint(template: SurveyTemplate): SurveyBlueprint {
+  return JSON.parse(template.content) as SurveyBlueprint;
+}
+
+// Point conditional logic at the copied questions. Targets outside the copy are dropped,
+// and logic that can't be read is cleared rather than left pointing at the source survey.
+export function remapConditionalLogic(logic: string | null, idMap: Map<number, number>): string | null {
+  if (!logic) return null;
+
+  let parsed: {
+    nextQuestionId?: number | string;
+    branches?: Record<string, number | string>;
+    rules?: (Omit<BranchRule, 'nextQuestionId'> & { nextQuestionId: number | string })[];
+  };
+  try {
+    parsed = JSON.parse(logic);
+  } catch (error) {
+    return null;
+  }
+
+  const remap = (target: number | string | undefined) =>
+    target === undefined ? undefined : idMap.get(parseInt(target.toString()));
+
+  const remapped: ConditionalLogic = {};
+  const nextQuestionId = remap(parsed.nextQuestionId);
+  if (nextQuestionId) remapped.nextQuestionId = nextQuestionId;
+
+  if (parsed.branches) {
+    const branches: Record<string, number> = {};
+    for (const [option, target] of Object.entries(parsed.branches)) {
+      const questionId = remap(target);
+      if (questionId) branches[option] = questionId;
+    }
+    if (Object.keys(branches).length > 0) remapped.branches = branches;
+  }
+
+  if (parsed.rules) {
+    const rules: BranchRule[] = [];
+    for (const rule of parsed.rules) {
+      const questionId = remap(rule.nextQuestionId);
+      if (questionId) rules.push({ ...rule, nextQuestionId: questionId });
+    }
+    if (rules.length > 0) remapped.rules = rules;
+  }
+
+  return JSON.stringify(remapped);
+}
+
+// The survey's current editable content, tags and active redemption options
+export async function buildSurveyBlueprint(survey: Survey): Promise<SurveyBlueprint> {
+  const [questions, tags, redemptionOptions] = await Promise.all([
+    storage.getSurveyQuestionsBySurveyId(survey.id),
+    storage.getSurveyTags(survey.id),
+    storage.getSurveyRedemptionOptions(survey.id)
+  ]);
+
+  return {
+    title: survey.title,
+    description: survey.description,
+    points: survey.points,
+    estimatedTime: survey.estimatedTime,
+    questions: questions
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(({ id, questionText, questionType, options, required, orderIndex, conditionalLogic, validation, bankQuestionId }) => ({
+        id, questionText, questionType, options, required, orderIndex, conditionalLogic, validation, bankQuestionId
+      })),
+    tags: tags.map(tag => tag.tag),
+    redemptionTypes: redemptionOptions.filter(option => option.isActive).map(option => option.redemptionType)
+  };
+}
+
+// Create a new draft survey from a blueprint, copying questions, flow, tags and
+// redemption options
+export async function createSurveyFromBlueprint(
+  blueprint: SurveyBlueprint,
+  clientId: number,
+  title: string,
+  settings: SurveySettings = {}
+): Promise<Survey> {
+  const { targeting, ...surveySettings } = settings;
+  const survey = await storage.createSurvey({
+    clientId,
+    title,
+    description: blueprint.description,
+    points: blueprint.points,
+    estimatedTime: blueprint.estimatedTime,
+    status: 'draft',
+    ...surveySettings
+  });
+
+  // Create the questions first so the logic can be pointed at their new ids
+  const idMap = new Map<number, number>();
+  const created = [];
+  for (const question of blueprint.questions) {
+    const copy = await storage.createSurveyQuestion({
+      surveyId: survey.id,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      options: question.options,
+      required: question.required,
+      orderIndex: question.orderIndex,
+      conditionalLogic: null,
+      validation: question.validation ?? null,
+      bankQuestionId: question.bankQuestionId ?? null
+    });
+    idMap.set(question.id, copy.id);
+    created.push({ copy, logic: question.conditionalLogic });
+  }
+  for (const { copy, logic } of created) {
+    const conditionalLogic = remapConditionalLogic(logic, idMap);
+    if (conditionalLogic) {
+      await storage.updateSurveyQuestion(copy.id, { conditionalLogic });
+    }
+  }
+
+  for (const tag of blueprint.tags) {
+    await storage.createSurveyTag({ surveyId: survey.id, tag });
+  }
+  for (const redemptionType of blueprint.redemptionTypes) {
+    await storage.createSurveyRedemptionOption({ surveyId: survey.id, redemptionType, isActive: true });
+  }
+
+  if (targeting) {
+    return (await storage.updateSurvey(survey.id, { targeting })) ?? survey;
+  }
+  return survey;
+}
+
+// Copy a survey as a new draft. Settings, targeting and quota cells carry over; the
+// schedule, review history, versions and responses don't.
+export async function duplicateSurvey(source: Survey, title?: string): Promise<Survey> {
+  const blueprint = await buildSurveyBlueprint(source);
+  const survey = await createSurveyFromBlueprint(blueprint, source.clientId, title ?? `Copy of ${source.title}`, {
+    pointValuePaise: source.pointValuePaise,
+    minRedemptionPaise: source.minRedemptionPaise,
+    pointsBudget: source.pointsBudget,
+    maxCompletions: source.maxCompletions,
+    targeting: source.targeting
+  });
+
+  const cells = await storage.getSurveyQuotaCells(source.id);
+  if (cells.length > 0) {
+    await storage.replaceSurveyQuotaCells(survey.id, cells.map(cell => ({
+      surveyId: survey.id,
+      specialty: cell.specialty,
+      target: cell.target,
+      filledCount: 0
+    })));
+  }
+  return survey;
+}
+
+export async function saveSurveyAsTemplate(
+  survey: Survey,
+  name: string,
+  description: string | undefined,
+  userId: number
+): Promise<SurveyTemplate> {
+  const blueprint = await buildSurveyBlueprint(survey);
+  return await storage.createSurveyTemplate({
+    clientId: survey.clientId,
+    name,
+    description: description || null,
+    content: JSON.stringify(blueprint),
+    createdBy: userId
+  });
+}
+
+export async function createSurveyFromTemplate(template: SurveyTemplate, title?: string): Promise<Survey> {
+  const blueprint = parseBlueprint(template);
+  return await createSurveyFromBlueprint(blueprint, template.clientId, title ?? blueprint.title);
+}
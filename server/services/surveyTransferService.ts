@@ -0,0 +1,200 @@
+import { storage } from '../storage';
+import {
+  CHOICE_QUESTION_TYPES, REDEMPTION_TYPES, matrixOptionsSchema, SURVEY_EXPORT_FORMAT, SURVEY_EXPORT_VERSION, Survey, SurveyBlueprint, SurveyExport
+} from '@shared/schema';
+import { buildSurveyBlueprint, createSurveyFromBlueprint } from './surveyTemplateService';
+
+// Something in an import file that doesn't fit this environment. `path` points into the file.
+export type SurveyImportConflict = {
+  path: string;
+  message: string;
+};
+
+export type SurveyImportResult = {
+  survey: Survey;
+  // Conflicts the import resolved on its own, such as a renamed title
+  conflicts: SurveyImportConflict[];
+};
+
+export class SurveyImportError extends Error {
+  constructor(message: string, public conflicts: SurveyImportConflict[] = [], public status = 422) {
+    super(message);
+    this.name = 'SurveyImportError';
+  }
+}
+
+// The survey's content in the portable format. Bank links and client settings stay behind,
+// since they only mean something to this client in this environment.
+export async function exportSurvey(survey: Survey): Promise<SurveyExport> {
+  const blueprint = await buildSurveyBlueprint(survey);
+  return {
+    format: SURVEY_EXPORT_FORMAT,
+    formatVersion: SURVEY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    survey: {
+      title: blueprint.title,
+      description: blueprint.description,
+      points: blueprint.points,
+      estimatedTime: blueprint.estimatedTime
+    },
+    questions: blueprint.questions.map(question => {
+      let conditionalLogic = null;
+      try {
+        conditionalLogic = question.conditionalLogic ? JSON.parse(question.conditionalLogic) : null;
+      } catch (error) {
+        // Unreadable logic falls back to the default order, as it does for doctors
+      }
+      let validation = null;
+      try {
+        validation = question.validation ? JSON.parse(question.validation) : null;
+      } catch (error) {
+        // Drop unreadable rules rather than export something the importer would reject
+      }
+      // Matrix questions keep their grid as JSON rather than a list of options
+      let matrix = undefined;
+      if (question.questionType === 'matrix') {
+        try {
+          const parsed = matrixOptionsSchema.safeParse(JSON.parse(question.options ?? ''));
+          if (parsed.success) matrix = parsed.data;
+        } catch (error) {
+          // Leave the grid out; the importer reports the question as incomplete
+        }
+      }
+      return {
+        id: question.id,
+        questionText: question.questionText,
+        questionType: question.questionType as SurveyExport['questions'][number]['questionType'],
+        options: question.options && question.questionType !== 'matrix'
+          ? question.options.split('\n').filter(option => option.trim())
+          : [],
+        matrix,
+        required: question.required,
+        orderIndex: question.orderIndex,
+        validation,
+        conditionalLogic
+      };
+    }),
+    tags: blueprint.tags,
+    redemptionTypes: blueprint.redemptionTypes
+  };
+}
+
+// Problems that would leave the imported flow broken. Nothing is imported while any remain.
+function findBlockingConflicts(data: SurveyExport): SurveyImportConflict[] {
+  const conflicts: SurveyImportConflict[] = [];
+  const questionIds = new Set<number>();
+
+  data.questions.forEach((question, index) => {
+    if (questionIds.has(question.id)) {
+      conflicts.push({ path: `questions[${index}].id`, message: `Question id ${question.id} is used more than once` });
+    }
+    questionIds.add(question.id);
+  });
+
+  data.questions.forEach((question, index) => {
+    const path = `questions[${index}]`;
+    if (CHOICE_QUESTION_TYPES.includes(question.questionType) && question.options.length === 0) {
+      conflicts.push({ path: `${path}.options`, message: 'Choice questions need options' });
+    }
+    if (question.questionType === 'matrix' && !question.matrix) {
+      conflicts.push({ path: `${path}.matrix`, message: 'Matrix questions need rows and columns' });
+    }
+
+    const logic = question.conditionalLogic;
+    if (!logic) return;
+    if (logic.nextQuestionId !== undefined && !questionIds.has(logic.nextQuestionId)) {
+      conflicts.push({
+        path: `${path}.conditionalLogic.nextQuestionId`,
+        message: `Question ${logic.nextQuestionId} isn't in the file`
+      });
+    }
+    for (const [option, target] of Object.entries(logic.branches ?? {})) {
+      if (!questionIds.has(target)) {
+        conflicts.push({
+          path: `${path}.conditionalLogic.branches.${option}`,
+          message: `Question ${target} isn't in the file`
+        });
+      } else if (question.questionType === 'mcq' && !question.options.includes(option)) {
+        conflicts.push({
+          path: `${path}.conditionalLogic.branches.${option}`,
+          message: `"${option}" isn't one of the question's options`
+        });
+      }
+    }
+    (logic.rules ?? []).forEach((rule, ruleIndex) => {
+      const rulePath = `${path}.conditionalLogic.rules[${ruleIndex}]`;
+      if (!questionIds.has(rule.nextQuestionId)) {
+        conflicts.push({ path: `${rulePath}.nextQuestionId`, message: `Question ${rule.nextQuestionId} isn't in the file` });
+      }
+      for (const option of rule.options) {
+        if (!question.options.includes(option)) {
+          conflicts.push({ path: `${rulePath}.options`, message: `"${option}" isn't one of the question's options` });
+        }
+      }
+    });
+  });
+
+  return conflicts;
+}
+
+// Create a draft survey for the client from an export file. Question ids are remapped to the
+// new questions; a clashing title is renamed and unknown redemption types are skipped.
+export async function importSurvey(data: SurveyExport, clientId: number): Promise<SurveyImportResult> {
+  if (data.formatVersion > SURVEY_EXPORT_VERSION) {
+    throw new SurveyImportError(
+      `This file uses format version ${data.formatVersion}, but only versions up to ${SURVEY_EXPORT_VERSION} can be imported`
+    );
+  }
+
+  const blocking = findBlockingConflicts(data);
+  if (blocking.length > 0) {
+    throw new SurveyImportError('The survey file has conflicts that need fixing before it can be imported', blocking);
+  }
+
+  const conflicts: SurveyImportConflict[] = [];
+
+  const existingTitles = new Set((await storage.getSurveysByClientId(clientId)).map(survey => survey.title));
+  let title = data.survey.title;
+  if (existingTitles.has(title)) {
+    let copy = 1;
+    do {
+      title = `${data.survey.title} (imported${copy > 1 ? ` ${copy}` : ''})`;
+      copy++;
+    } while (existingTitles.has(title));
+    conflicts.push({ path: 'survey.title', message: `A survey called "${data.survey.title}" exists, so it was imported as "${title}"` });
+  }
+
+  const redemptionTypes: string[] = [];
+  data.redemptionTypes.forEach((type, index) => {
+    if ((REDEMPTION_TYPES as readonly string[]).includes(type)) {
+      if (!redemptionTypes.includes(type)) redemptionTypes.push(type);
+    } else {
+      conflicts.push({ path: `redemptionTypes[${index}]`, message: `Redemption type "${type}" isn't supported and was skipped` });
+    }
+  });
+
+  const blueprint: SurveyBlueprint = {
+    title,
+    description: data.survey.description,
+    points: data.survey.points,
+    estimatedTime: data.survey.estimatedTime,
+    questions: data.questions.map(question => ({
+      id: question.id,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      options: question.matrix
+        ? JSON.stringify(question.matrix)
+        : question.options.length > 0 ? question.options.join('\n') : null,
+      required: question.required,
+      orderIndex: question.orderIndex,
+      conditionalLogic: question.conditionalLogic ? JSON.stringify(question.conditionalLogic) : null,
+      validation: question.validation ? JSON.stringify(question.validation) : null,
+      bankQuestionId: null
+    })),
+    tags: Array.from(new Set(data.tags)),
+    redemptionTypes
+  };
+
+  const survey = await createSurveyFromBlueprint(blueprint, clientId, title);
+  return { survey, conflicts };
+}
@@ -0,0 +1,102 @@
+import { storage } from '../storage';
+import { Survey, SurveyContentSnapshot, SurveyReview, SurveyVersion } from '@shared/schema';
+
+export type SurveyVersionSummary = Omit<SurveyVersion, 'snapshot'> & {
+  content: SurveyContentSnapshot;
+  publishedByName: string | null;
+  responseCount: number;
+  isCurrent: boolean;
+};
+
+export type SurveyVersionHistory = {
+  versions: SurveyVersionSummary[];
+  // Whether the editable content differs from what was last published
+  hasUnpublishedChanges: boolean;
+  // Responses recorded before the survey was versioned
+  unversionedResponseCount: number;
+};
+
+export function parseVersionSnapshot(version: SurveyVersion): SurveyContentSnapshot {
+  return JSON.parse(version.snapshot) as SurveyContentSnapshot;
+}
+
+// The survey's editable content as it stands
+export async function buildContentSnapshot(survey: Survey): Promise<SurveyContentSnapshot> {
+  const questions = await storage.getSurveyQuestionsBySurveyId(survey.id);
+  return {
+    title: survey.title,
+    description: survey.description,
+    questions: questions.sort((a, b) => a.orderIndex - b.orderIndex)
+  };
+}
+
+// What doctors are shown, leaving out bookkeeping like timestamps
+function contentKey(content: SurveyContentSnapshot): string {
+  return JSON.stringify({
+    title: content.title,
+    description: content.description,
+    questions: content.questions.map(q => [
+      q.id, q.questionText, q.questionType, q.options, q.required, q.orderIndex, q.conditionalLogic, q.validation ?? null
+    ])
+  });
+}
+
+// Freeze an approved review round as the survey's next version. New responses answer it
+// from now on; responses already started keep the version they began on.
+export async function publishSurveyVersion(
+  survey: Survey,
+  review: SurveyReview,
+  actorUserId: number | null
+): Promise<Survey> {
+  const [latest] = await storage.getSurveyVersionsBySurveyId(survey.id);
+  const version = await storage.createSurveyVersion({
+    surveyId: survey.id,
+    version: (latest?.version ?? 0) + 1,
+    snapshot: review.snapshot,
+    reviewId: review.id,
+    publishedBy: actorUserId
+  });
+
+  const updated = await storage.updateSurvey(survey.id, { currentVersionId: version.id });
+  return updated ?? { ...survey, currentVersionId: version.id };
+}
+
+// The version a doctor answers: the one their response started on, otherwise the current one
+export async function getVersionForDoctor(survey: Survey, doctorId: number): Promise<SurveyVersion | undefined> {
+  const responses = await storage.getDoctorSurveyResponsesByDoctorId(doctorId);
+  const response = responses.find(r => r.surveyId === survey.id);
+  const versionId = response?.surveyVersionId ?? survey.currentVersionId;
+  return versionId ? await storage.getSurveyVersion(versionId) : undefined;
+}
+
+// Content as a doctor sees it. Surveys launched before versioning serve their live questions.
+export async function getDeliveredContent(survey: Survey, doctorId: number): Promise<SurveyContentSnapshot> {
+  const version = await getVersionForDoctor(survey, doctorId);
+  return version ? parseVersionSnapshot(version) : await buildContentSnapshot(survey);
+}
+
+export async function getSurveyVersionHistory(survey: Survey): Promise<SurveyVersionHistory> {
+  const [versions, responses, live] = await Promise.all([
+    storage.getSurveyVersionsBySurveyId(survey.id),
+    storage.getDoctorSurveyResponsesBySurveyId(survey.id),
+    buildContentSnapshot(survey)
+  ]);
+
+  const summaries = await Promise.all(versions.map(async ({ snapshot, ...version }) => {
+    const publisher = version.publishedBy ? await storage.getUser(version.publishedBy) : undefined;
+    return {
+      ...version,
+      content: JSON.parse(snapshot) as SurveyContentSnapshot,
+      publishedByName: publisher?.name ?? null,
+      responseCount: responses.filter(r => r.surveyVersionId === version.id).length,
+      isCurrent: version.id === survey.currentVersionId
+    };
+  }));
+
+  const current = summaries.find(version => version.isCurrent);
+  return {
+    versions: summaries,
+    hasUnpublishedChanges: !current || contentKey(current.content) !== contentKey(live),
+    unversionedResponseCount: responses.filter(r => r.surveyVersionId === null).length
+  };
+}
@@ -8,11 +8,28 @@ import {
   doctorSurveyResponses, questionResponses, redemptions, doctorClientMappings,
   doctorRepMappings,
   surveyTags, surveyRedemptionOptions, SurveyTag, InsertSurveyTag,
-  SurveyRedemptionOption, InsertSurveyRedemptionOption
+  SurveyRedemptionOption, InsertSurveyRedemptionOption,
+  activationOtps, ActivationOtp, InsertActivationOtp,
+  passwordResetTokens, PasswordResetToken, InsertPasswordResetToken,
+  pointsTransactions, PointsTransaction, InsertPointsTransaction,
+  payoutWebhookEvents, PayoutWebhookEvent, InsertPayoutWebhookEvent,
+  surveyQuotaCells, SurveyQuotaCell, InsertSurveyQuotaCell,
+  doctorTags, DoctorTag, InsertDoctorTag,
+  surveyStatusTransitions, SurveyStatusTransition,
+  reviewers, Reviewer, InsertReviewer,
+  surveyReviews, SurveyReview, InsertSurveyReview,
+  surveyReviewDecisions, SurveyReviewDecision, InsertSurveyReviewDecision,
+  surveyReviewComments, SurveyReviewComment, InsertSurveyReviewComment,
+  surveyVersions, SurveyVersion, InsertSurveyVersion,
+  surveyTemplates, SurveyTemplate, InsertSurveyTemplate,
+  questionBankItems, QuestionBankItem, InsertQuestionBankItem
 } from "@shared/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, or, lt, lte, inArray, isNull, desc, sql } from "drizzle-orm";
 import { db } from "./db";
-import { IStorage } from "./storage";
+import {
+  IStorage, PointsBalanceDelta, outstandingRedemptionHold, surveyCompletionUpdate, findQuotaCell, BUDGET_EXHAUSTED_REASON,
+  BUDGET_FREED_REASON, reopensAfterRelease
+} from "./storage";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
@@ -35,11 +52,12 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Usernames and emails are matched case-insensitively, like MemStorage
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db
       .select()
       .from(users)
-      .where(eq(users.username, username));
+      .where(sql`lower(${users.username}) = ${username.trim().toLowerCase()}`);
     return user;
   }
 
@@ -47,7 +65,7 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db
       .select()
       .from(users)
-      .where(eq(users.email, email));
+      .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`);
     return user;
   }
 
@@ -81,6 +99,8 @@ export class DatabaseStorage implements IStorage {
       roleDetails = await this.getClientByUserId(id);
     } else if (user.role === 'rep') {
       roleDetails = await this.getRepresentativeByUserId(id);
+    } else if (user.role === 'reviewer') {
+      roleDetails = await this.getReviewerByUserId(id);
     }
 
     return {
@@ -112,6 +132,19 @@ export class DatabaseStorage implements IStorage {
     return newDoctor;
   }
 
+  async createMappedDoctor(user: InsertUser, doctor: Omit<InsertDoctor, "userId">, representativeId: number, clientId: number): Promise<Doctor> {
+    return await db.transaction(async (tx) => {
+      const [newUser] = await tx.insert(users).values(user).returning();
+      const [newDoctor] = await tx
+        .insert(doctors)
+        .values({ ...doctor, userId: newUser.id, totalPoints: 0, redeemedPoints: 0 })
+        .returning();
+      await tx.insert(doctorRepMappings).values({ doctorId: newDoctor.id, representativeId });
+      await tx.insert(doctorClientMappings).values({ doctorId: newDoctor.id, clientId });
+      return newDoctor;
+    });
+  }
+
 
 
   async updateDoctor(id: number, doctorData: Partial<Doctor>): Promise<Doctor | undefined> {
@@ -224,6 +257,46 @@ export class DatabaseStorage implements IStorage {
       .where(eq(representatives.clientId, clientId));
   }
 
+  async getRepresentativesByDoctorId(doctorId: number): Promise<Representative[]> {
+    const mappings = await db
+      .select()
+      .from(doctorRepMappings)
+      .where(eq(doctorRepMappings.doctorId, doctorId));
+
+    if (mappings.length === 0) return [];
+
+    return db
+      .select()
+      .from(representatives)
+      .where(inArray(representatives.id, mappings.map(m => m.representativeId)));
+  }
+
+  // Reviewer operations
+  async getReviewer(id: number): Promise<Reviewer | undefined> {
+    const [reviewer] = await db.select().from(reviewers).where(eq(reviewers.id, id));
+    return reviewer;
+  }
+
+  async getReviewerByUserId(userId: number): Promise<Reviewer | undefined> {
+    const [reviewer] = await db.select().from(reviewers).where(eq(reviewers.userId, userId));
+    return reviewer;
+  }
+
+  async createReviewer(reviewer: InsertReviewer): Promise<Reviewer> {
+    const [newReviewer] = await db
+      .insert(reviewers)
+      .values(reviewer)
+      .returning();
+    return newReviewer;
+  }
+
+  async getReviewersByClientId(clientId: number): Promise<Reviewer[]> {
+    return db
+      .select()
+      .from(reviewers)
+      .where(eq(reviewers.clientId, clientId));
+  }
+
   // Survey operations
   async getSurvey(id: number): Promise<Survey | undefined> {
     const [survey] = await db.select().from(surveys).where(eq(surveys.id, id));
@@ -271,6 +344,309 @@ export class DatabaseStorage implements IStorage {
       .where(inArray(surveys.clientId, clientIds));
   }
 
+  async getSurveysDueForScheduling(now: Date): Promise<Survey[]> {
+    return db
+      .select()
+      .from(surveys)
+      .where(or(
+        and(eq(surveys.status, "in_review"), lte(surveys.startsAt, now)),
+        and(inArray(surveys.status, ["active", "paused"]), lte(surveys.endsAt, now))
+      ));
+  }
+
+  async transitionSurveyStatus(
+    surveyId: number,
+    fromStatus: string,
+    toStatus: string,
+    actorUserId: number | null,
+    reason?: string | null
+  ): Promise<Survey | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only move the survey if nobody else has changed its status in the meantime
+      const [updatedSurvey] = await tx
+        .update(surveys)
+        .set({ status: toStatus, updatedAt: new Date() })
+        .where(and(eq(surveys.id, surveyId), eq(surveys.status, fromStatus)))
+        .returning();
+      if (!updatedSurvey) return undefined;
+
+      await tx.insert(surveyStatusTransitions).values({
+        surveyId,
+        fromStatus,
+        toStatus,
+        actorUserId,
+        reason: reason ?? null
+      });
+      return updatedSurvey;
+    });
+  }
+
+  async getSurveyStatusTransitions(surveyId: number): Promise<SurveyStatusTransition[]> {
+    return db
+      .select()
+      .from(surveyStatusTransitions)
+      .where(eq(surveyStatusTransitions.surveyId, surveyId))
+      .orderBy(desc(surveyStatusTransitions.createdAt), desc(surveyStatusTransitions.id));
+  }
+
+  async reserveSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<Survey | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the survey row so concurrent submissions can't both take the last slot.
+      // Quota cells are only written under this lock too.
+      const [survey] = await tx
+        .select()
+        .from(surveys)
+        .where(eq(surveys.id, surveyId))
+        .for("update");
+      if (!survey) return undefined;
+
+      const update = surveyCompletionUpdate(survey, points);
+      if (!update) return undefined;
+
+      const cells = await tx
+        .select()
+        .from(surveyQuotaCells)
+        .where(eq(surveyQuotaCells.surveyId, surveyId));
+      const cell = findQuotaCell(cells, specialty);
+      if (cell) {
+        if (cell.filledCount >= cell.target) return undefined;
+        await tx
+          .update(surveyQuotaCells)
+          .set({ filledCount: cell.filledCount + 1, updatedAt: new Date() })
+          .where(eq(surveyQuotaCells.id, cell.id));
+      }
+
+      const [updatedSurvey] = await tx
+        .update(surveys)
+        .set(update)
+        .where(eq(surveys.id, surveyId))
+        .returning();
+      if (updatedSurvey.status !== survey.status) {
+        await tx.insert(surveyStatusTransitions).values({
+          surveyId,
+          fromStatus: survey.status,
+          toStatus: updatedSurvey.status,
+          actorUserId: null,
+          reason: BUDGET_EXHAUSTED_REASON
+        });
+      }
+      return updatedSurvey;
+    });
+  }
+
+  async releaseSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [survey] = await tx
+        .update(surveys)
+        .set({
+          completionCount: sql`greatest(${surveys.completionCount} - 1, 0)`,
+          pointsSpent: sql`greatest(${surveys.pointsSpent} - ${points}, 0)`,
+          updatedAt: new Date()
+        })
+        .where(eq(surveys.id, surveyId))
+        .returning();
+      if (!survey) return;
+
+      const cells = await tx
+        .select()
+        .from(surveyQuotaCells)
+        .where(eq(surveyQuotaCells.surveyId, surveyId));
+      const cell = findQuotaCell(cells, specialty);
+      if (cell) {
+        await tx
+          .update(surveyQuotaCells)
+          .set({ filledCount: sql`greatest(${surveyQuotaCells.filledCount} - 1, 0)`, updatedAt: new Date() })
+          .where(eq(surveyQuotaCells.id, cell.id));
+      }
+
+      // The update above holds the survey row's lock, so the reopen can't race a reservation
+      const [latestTransition] = await tx
+        .select()
+        .from(surveyStatusTransitions)
+        .where(eq(surveyStatusTransitions.surveyId, surveyId))
+        .orderBy(desc(surveyStatusTransitions.createdAt), desc(surveyStatusTransitions.id))
+        .limit(1);
+      if (reopensAfterRelease(survey, points, latestTransition)) {
+        await tx
+          .update(surveys)
+          .set({ status: "active", updatedAt: new Date() })
+          .where(eq(surveys.id, surveyId));
+        await tx.insert(surveyStatusTransitions).values({
+          surveyId,
+          fromStatus: "closed",
+          toStatus: "active",
+          actorUserId: null,
+          reason: BUDGET_FREED_REASON
+        });
+      }
+    });
+  }
+
+  // Survey review operations
+  async createSurveyReview(review: InsertSurveyReview): Promise<SurveyReview> {
+    const [newReview] = await db
+      .insert(surveyReviews)
+      .values(review)
+      .returning();
+    return newReview;
+  }
+
+  async getSurveyReview(id: number): Promise<SurveyReview | undefined> {
+    const [review] = await db.select().from(surveyReviews).where(eq(surveyReviews.id, id));
+    return review;
+  }
+
+  async getSurveyReviewsBySurveyId(surveyId: number): Promise<SurveyReview[]> {
+    return db
+      .select()
+      .from(surveyReviews)
+      .where(eq(surveyReviews.surveyId, surveyId))
+      .orderBy(desc(surveyReviews.round));
+  }
+
+  async updateSurveyReview(id: number, reviewData: Partial<SurveyReview>): Promise<SurveyReview | undefined> {
+    const [updatedReview] = await db
+      .update(surveyReviews)
+      .set(reviewData)
+      .where(eq(surveyReviews.id, id))
+      .returning();
+    return updatedReview;
+  }
+
+  async createSurveyReviewDecision(decision: InsertSurveyReviewDecision): Promise<SurveyReviewDecision> {
+    const [newDecision] = await db
+      .insert(surveyReviewDecisions)
+      .values(decision)
+      .returning();
+    return newDecision;
+  }
+
+  async getSurveyReviewDecisions(reviewId: number): Promise<SurveyReviewDecision[]> {
+    return db
+      .select()
+      .from(surveyReviewDecisions)
+      .where(eq(surveyReviewDecisions.reviewId, reviewId));
+  }
+
+  async createSurveyReviewComment(comment: InsertSurveyReviewComment): Promise<SurveyReviewComment> {
+    const [newComment] = await db
+      .insert(surveyReviewComments)
+      .values(comment)
+      .returning();
+    return newComment;
+  }
+
+  async getSurveyReviewComment(id: number): Promise<SurveyReviewComment | undefined> {
+    const [comment] = await db.select().from(surveyReviewComments).where(eq(surveyReviewComments.id, id));
+    return comment;
+  }
+
+  async getSurveyReviewComments(reviewId: number): Promise<SurveyReviewComment[]> {
+    return db
+      .select()
+      .from(surveyReviewComments)
+      .where(eq(surveyReviewComments.reviewId, reviewId))
+      .orderBy(surveyReviewComments.createdAt);
+  }
+
+  async updateSurveyReviewComment(id: number, commentData: Partial<SurveyReviewComment>): Promise<SurveyReviewComment | undefined> {
+    const [updatedComment] = await db
+      .update(surveyReviewComments)
+      .set(commentData)
+      .where(eq(surveyReviewComments.id, id))
+      .returning();
+    return updatedComment;
+  }
+
+  // Survey version operations
+  async createSurveyVersion(version: InsertSurveyVersion): Promise<SurveyVersion> {
+    const [newVersion] = await db
+      .insert(surveyVersions)
+      .values(version)
+      .returning();
+    return newVersion;
+  }
+
+  async getSurveyVersion(id: number): Promise<SurveyVersion | undefined> {
+    const [version] = await db.select().from(surveyVersions).where(eq(surveyVersions.id, id));
+    return version;
+  }
+
+  async getSurveyVersionsBySurveyId(surveyId: number): Promise<SurveyVersion[]> {
+    return db
+      .select()
+      .from(surveyVersions)
+      .where(eq(surveyVersions.surveyId, surveyId))
+      .orderBy(desc(surveyVersions.version));
+  }
+
+  // Survey template operations
+  async createSurveyTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate> {
+    const [newTemplate] = await db
+      .insert(surveyTemplates)
+      .values(template)
+      .returning();
+    return newTemplate;
+  }
+
+  async getSurveyTemplate(id: number): Promise<SurveyTemplate | undefined> {
+    const [template] = await db.select().from(surveyTemplates).where(eq(surveyTemplates.id, id));
+    return template;
+  }
+
+  async getSurveyTemplatesByClientId(clientId: number): Promise<SurveyTemplate[]> {
+    return db
+      .select()
+      .from(surveyTemplates)
+      .where(eq(surveyTemplates.clientId, clientId))
+      .orderBy(surveyTemplates.name);
+  }
+
+  async deleteSurveyTemplate(id: number): Promise<boolean> {
+    await db
+      .delete(surveyTemplates)
+      .where(eq(surveyTemplates.id, id));
+    return true;
+  }
+
+  // Question bank operations
+  async createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem> {
+    const [newItem] = await db
+      .insert(questionBankItems)
+      .values(item)
+      .returning();
+    return newItem;
+  }
+
+  async getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined> {
+    const [item] = await db.select().from(questionBankItems).where(eq(questionBankItems.id, id));
+    return item;
+  }
+
+  async getQuestionBankItemsByClientId(clientId: number): Promise<QuestionBankItem[]> {
+    return db
+      .select()
+      .from(questionBankItems)
+      .where(eq(questionBankItems.clientId, clientId))
+      .orderBy(questionBankItems.questionText);
+  }
+
+  async updateQuestionBankItem(id: number, itemData: Partial<QuestionBankItem>): Promise<QuestionBankItem | undefined> {
+    const [updatedItem] = await db
+      .update(questionBankItems)
+      .set({ ...itemData, updatedAt: new Date() })
+      .where(eq(questionBankItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteQuestionBankItem(id: number): Promise<boolean> {
+    await db
+      .delete(questionBankItems)
+      .where(eq(questionBankItems.id, id));
+    return true;
+  }
+
   // Survey Question operations
   async getSurveyQuestion(id: number): Promise<SurveyQuestion | undefined> {
     const [question] = await db.select().from(surveyQuestions).where(eq(surveyQuestions.id, id));
@@ -302,6 +678,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(surveyQuestions.orderIndex);
   }
 
+  async getSurveyQuestionsByBankQuestionId(bankQuestionId: number): Promise<SurveyQuestion[]> {
+    return db
+      .select()
+      .from(surveyQuestions)
+      .where(eq(surveyQuestions.bankQuestionId, bankQuestionId));
+  }
+
   // Doctor Survey Response operations
   async getDoctorSurveyResponse(id: number): Promise<DoctorSurveyResponse | undefined> {
     const [response] = await db.select().from(doctorSurveyResponses).where(eq(doctorSurveyResponses.id, id));
@@ -357,6 +740,55 @@ export class DatabaseStorage implements IStorage {
       .where(eq(doctorSurveyResponses.surveyId, surveyId));
   }
 
+  async completeDoctorSurveyResponse(
+    response: InsertDoctorSurveyResponse,
+    answers: Omit<InsertQuestionResponse, "doctorSurveyResponseId">[]
+  ): Promise<DoctorSurveyResponse | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the doctor's responses to this survey so a second submission waits for this one
+      const existing = await tx
+        .select()
+        .from(doctorSurveyResponses)
+        .where(and(
+          eq(doctorSurveyResponses.doctorId, response.doctorId),
+          eq(doctorSurveyResponses.surveyId, response.surveyId)
+        ))
+        .for("update");
+      if (existing.some(r => r.completed)) return undefined;
+
+      const completedAt = new Date();
+      const partial = existing[0];
+      const [completed] = partial
+        ? await tx
+            .update(doctorSurveyResponses)
+            .set({ completed: true, pointsEarned: response.pointsEarned, completedAt })
+            .where(eq(doctorSurveyResponses.id, partial.id))
+            .returning()
+        : await tx
+            .insert(doctorSurveyResponses)
+            .values({ ...response, completed: true, startedAt: completedAt, completedAt })
+            .returning();
+
+      // The submitted answers replace whatever progress was saved
+      await tx.delete(questionResponses).where(eq(questionResponses.doctorSurveyResponseId, completed.id));
+      if (answers.length > 0) {
+        await tx
+          .insert(questionResponses)
+          .values(answers.map(answer => ({ ...answer, doctorSurveyResponseId: completed.id })));
+      }
+      return completed;
+    });
+  }
+
+  async reopenDoctorSurveyResponse(id: number): Promise<DoctorSurveyResponse | undefined> {
+    const [reopened] = await db
+      .update(doctorSurveyResponses)
+      .set({ completed: false, pointsEarned: null, completedAt: null })
+      .where(eq(doctorSurveyResponses.id, id))
+      .returning();
+    return reopened;
+  }
+
 
   async getRedemptionsByStatus(status: string): Promise<Redemption[]> {
     return db
@@ -364,6 +796,22 @@ export class DatabaseStorage implements IStorage {
       .from(redemptions)
       .where(eq(redemptions.status, status));
   }
+
+  async getRedemptionByPayoutId(payoutId: string): Promise<Redemption | undefined> {
+    const [redemption] = await db
+      .select()
+      .from(redemptions)
+      .where(eq(redemptions.payoutId, payoutId));
+    return redemption;
+  }
+
+  async getRedemptionByIdempotencyKey(idempotencyKey: string): Promise<Redemption | undefined> {
+    const [redemption] = await db
+      .select()
+      .from(redemptions)
+      .where(eq(redemptions.idempotencyKey, idempotencyKey));
+    return redemption;
+  }
   async getRedemptionsByDoctorId(doctorId: number): Promise<Redemption[]> {
     return db
       .select()
@@ -428,6 +876,54 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  // Doctor Tags operations
+  async getDoctorTags(doctorId: number, clientId: number): Promise<DoctorTag[]> {
+    return db
+      .select()
+      .from(doctorTags)
+      .where(and(
+        eq(doctorTags.doctorId, doctorId),
+        eq(doctorTags.clientId, clientId)
+      ));
+  }
+
+  async getDoctorTagsByClientId(clientId: number): Promise<DoctorTag[]> {
+    return db
+      .select()
+      .from(doctorTags)
+      .where(eq(doctorTags.clientId, clientId));
+  }
+
+  async createDoctorTag(tag: InsertDoctorTag): Promise<DoctorTag> {
+    const [newTag] = await db
+      .insert(doctorTags)
+      .values(tag)
+      .onConflictDoNothing()
+      .returning();
+    if (newTag) return newTag;
+
+    const [existing] = await db
+      .select()
+      .from(doctorTags)
+      .where(and(
+        eq(doctorTags.doctorId, tag.doctorId),
+        eq(doctorTags.clientId, tag.clientId),
+        eq(doctorTags.tag, tag.tag)
+      ));
+    return existing;
+  }
+
+  async deleteDoctorTag(doctorId: number, clientId: number, tag: string): Promise<boolean> {
+    await db
+      .delete(doctorTags)
+      .where(and(
+        eq(doctorTags.doctorId, doctorId),
+        eq(doctorTags.clientId, clientId),
+        eq(doctorTags.tag, tag)
+      ));
+    return true;
+  }
+
   // Survey Redemption Options operations
   async getSurveyRedemptionOptions(surveyId: number): Promise<SurveyRedemptionOption[]> {
     return db
@@ -547,4 +1043,228 @@ export class DatabaseStorage implements IStorage {
       ));
     return true;
   }
-}
\ No newline at end of file
+
+  // Activation OTP operations
+  async createActivationOtp(otp: InsertActivationOtp): Promise<ActivationOtp> {
+    const [newOtp] = await db
+      .insert(activationOtps)
+      .values(otp)
+      .returning();
+    return newOtp;
+  }
+
+  async getLatestActivationOtpByUserId(userId: number): Promise<ActivationOtp | undefined> {
+    const [otp] = await db
+      .select()
+      .from(activationOtps)
+      .where(eq(activationOtps.userId, userId))
+      .orderBy(desc(activationOtps.id))
+      .limit(1);
+    return otp;
+  }
+
+  async updateActivationOtp(id: number, otpData: Partial<ActivationOtp>): Promise<ActivationOtp | undefined> {
+    const [updatedOtp] = await db
+      .update(activationOtps)
+      .set(otpData)
+      .where(eq(activationOtps.id, id))
+      .returning();
+    return updatedOtp;
+  }
+
+  async recordActivationOtpAttempt(id: number, maxAttempts: number): Promise<ActivationOtp | undefined> {
+    // Check and increment in one statement so parallel guesses can't share an attempt
+    const [updatedOtp] = await db
+      .update(activationOtps)
+      .set({ attempts: sql`${activationOtps.attempts} + 1` })
+      .where(and(
+        eq(activationOtps.id, id),
+        isNull(activationOtps.consumedAt),
+        lt(activationOtps.attempts, maxAttempts)
+      ))
+      .returning();
+    return updatedOtp;
+  }
+
+  async invalidateActivationOtps(userId: number): Promise<void> {
+    await db
+      .update(activationOtps)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(activationOtps.userId, userId),
+        isNull(activationOtps.consumedAt)
+      ));
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await db
+      .insert(passwordResetTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumePasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const [updatedToken] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return updatedToken;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.userId, userId),
+        isNull(passwordResetTokens.usedAt)
+      ));
+  }
+
+  // Session operations
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    // connect-pg-simple keeps sessions in its own table, outside the Drizzle schema
+    await pool.query(
+      `DELETE FROM "session" WHERE sess->'passport'->>'user' = $1 AND sid <> $2`,
+      [String(userId), exceptSessionId ?? '']
+    );
+  }
+
+  // Points ledger operations
+  async createPointsTransaction(transaction: InsertPointsTransaction, delta: PointsBalanceDelta): Promise<PointsTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the doctor row so concurrent ledger writes see each other's balance
+      const [doctor] = await tx
+        .select()
+        .from(doctors)
+        .where(eq(doctors.id, transaction.doctorId))
+        .for("update");
+      if (!doctor) return undefined;
+
+      const totalPoints = doctor.totalPoints + delta.totalPoints;
+      const redeemedPoints = doctor.redeemedPoints + delta.redeemedPoints;
+      if (redeemedPoints < 0 || totalPoints - redeemedPoints < 0) return undefined;
+
+      const [newTransaction] = await tx
+        .insert(pointsTransactions)
+        .values(transaction)
+        .returning();
+
+      await tx
+        .update(doctors)
+        .set({ totalPoints, redeemedPoints, updatedAt: new Date() })
+        .where(eq(doctors.id, doctor.id));
+
+      return newTransaction;
+    });
+  }
+
+  async releaseRedemptionHold(
+    release: Omit<InsertPointsTransaction, "points"> & { redemptionId: number }
+  ): Promise<PointsTransaction | undefined> {
+    return await db.transaction(async (tx) => {
+      // The doctor row lock is the one every ledger write takes, so a concurrent release
+      // waits here and then sees this one's entry
+      const [doctor] = await tx
+        .select()
+        .from(doctors)
+        .where(eq(doctors.id, release.doctorId))
+        .for("update");
+      if (!doctor) return undefined;
+
+      const transactions = await tx
+        .select()
+        .from(pointsTransactions)
+        .where(and(
+          eq(pointsTransactions.doctorId, release.doctorId),
+          eq(pointsTransactions.redemptionId, release.redemptionId)
+        ));
+      const outstanding = outstandingRedemptionHold(transactions, release.redemptionId);
+      if (outstanding <= 0) return undefined;
+
+      const redeemedPoints = doctor.redeemedPoints - outstanding;
+      if (redeemedPoints < 0) return undefined;
+
+      const [newTransaction] = await tx
+        .insert(pointsTransactions)
+        .values({ ...release, points: outstanding })
+        .returning();
+
+      await tx
+        .update(doctors)
+        .set({ redeemedPoints, updatedAt: new Date() })
+        .where(eq(doctors.id, doctor.id));
+
+      return newTransaction;
+    });
+  }
+
+  async getPointsTransactionsByDoctorId(doctorId: number): Promise<PointsTransaction[]> {
+    return await db
+      .select()
+      .from(pointsTransactions)
+      .where(eq(pointsTransactions.doctorId, doctorId))
+      .orderBy(pointsTransactions.id);
+  }
+
+  // Payout webhook event operations
+  async getPayoutWebhookEventByEventId(eventId: string): Promise<PayoutWebhookEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(payoutWebhookEvents)
+      .where(eq(payoutWebhookEvents.eventId, eventId));
+    return event;
+  }
+
+  async createPayoutWebhookEvent(event: InsertPayoutWebhookEvent): Promise<PayoutWebhookEvent> {
+    const [newEvent] = await db
+      .insert(payoutWebhookEvents)
+      .values(event)
+      .returning();
+    return newEvent;
+  }
+
+  // Survey quota cell operations
+  async getSurveyQuotaCells(surveyId: number): Promise<SurveyQuotaCell[]> {
+    return await db
+      .select()
+      .from(surveyQuotaCells)
+      .where(eq(surveyQuotaCells.surveyId, surveyId))
+      .orderBy(surveyQuotaCells.id);
+  }
+
+  async replaceSurveyQuotaCells(surveyId: number, cells: InsertSurveyQuotaCell[]): Promise<SurveyQuotaCell[]> {
+    return await db.transaction(async (tx) => {
+      // Same lock as reserveSurveyCompletion, so no completion lands between reading
+      // the existing fill counts and writing them back
+      await tx.select().from(surveys).where(eq(surveys.id, surveyId)).for("update");
+      const existing = await tx
+        .select()
+        .from(surveyQuotaCells)
+        .where(eq(surveyQuotaCells.surveyId, surveyId));
+
+      await tx.delete(surveyQuotaCells).where(eq(surveyQuotaCells.surveyId, surveyId));
+      if (cells.length === 0) return [];
+
+      return await tx
+        .insert(surveyQuotaCells)
+        .values(cells.map(cell => ({
+          ...cell,
+          surveyId,
+          filledCount: findQuotaCell(existing, cell.specialty)?.filledCount ?? cell.filledCount
+        })))
+        .returning();
+    });
+  }
+}
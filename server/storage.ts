@@ -4,13 +4,80 @@ import {
   SurveyQuestion, InsertSurveyQuestion, DoctorSurveyResponse,
   InsertDoctorSurveyResponse, QuestionResponse, InsertQuestionResponse,
   Redemption, InsertRedemption, UserWithRole, SurveyTag, InsertSurveyTag,
-  SurveyRedemptionOption, InsertSurveyRedemptionOption
+  SurveyRedemptionOption, InsertSurveyRedemptionOption,
+  ActivationOtp, InsertActivationOtp, PasswordResetToken, InsertPasswordResetToken,
+  PointsTransaction, InsertPointsTransaction, PayoutWebhookEvent, InsertPayoutWebhookEvent,
+  SurveyQuotaCell, InsertSurveyQuotaCell, DoctorTag, InsertDoctorTag,
+  SurveyStatusTransition, Reviewer, InsertReviewer, SurveyReview, InsertSurveyReview,
+  SurveyReviewDecision, InsertSurveyReviewDecision, SurveyReviewComment, InsertSurveyReviewComment,
+  SurveyVersion, InsertSurveyVersion, SurveyTemplate, InsertSurveyTemplate,
+  QuestionBankItem, InsertQuestionBankItem, INACTIVE_REDEMPTION_STATUSES
 } from "@shared/schema";
 import createMemoryStore from "memorystore";
 import session from "express-session";
 
 const MemoryStore = createMemoryStore(session);
 
+// Change a points transaction makes to a doctor's running counters
+export type PointsBalanceDelta = {
+  totalPoints: number;
+  redeemedPoints: number;
+};
+
+// The counters and status a survey moves to after one more completion worth `points`,
+// or undefined if it isn't accepting completions or the completion would exceed a limit
+export function surveyCompletionUpdate(survey: Survey, points: number): Partial<Survey> | undefined {
+  if (survey.status !== "active") return undefined;
+
+  const completionCount = survey.completionCount + 1;
+  const pointsSpent = survey.pointsSpent + points;
+  if (survey.maxCompletions !== null && completionCount > survey.maxCompletions) return undefined;
+  if (survey.pointsBudget !== null && pointsSpent > survey.pointsBudget) return undefined;
+
+  // Close as soon as the next completion could no longer be paid for
+  const exhausted =
+    (survey.maxCompletions !== null && completionCount >= survey.maxCompletions) ||
+    (survey.pointsBudget !== null && pointsSpent + points > survey.pointsBudget);
+
+  return {
+    completionCount,
+    pointsSpent,
+    status: exhausted ? "closed" : survey.status,
+    updatedAt: new Date()
+  };
+}
+
+export const BUDGET_EXHAUSTED_REASON = "Points budget or completion quota used up";
+export const BUDGET_FREED_REASON = "Points budget or completion quota freed up";
+
+// Whether a survey should reopen after a completion worth `points` was given back: the
+// completion cap closed it (its latest transition), the next completion fits again and
+// its response window hasn't ended
+export function reopensAfterRelease(survey: Survey, points: number, latestTransition: SurveyStatusTransition | undefined): boolean {
+  return survey.status === "closed" &&
+    latestTransition?.toStatus === "closed" && latestTransition.reason === BUDGET_EXHAUSTED_REASON &&
+    (!survey.endsAt || survey.endsAt > new Date()) &&
+    surveyCompletionUpdate({ ...survey, status: "active" }, points) !== undefined;
+}
+
+// The quota cell a doctor's specialty counts against, matched case-insensitively
+export function findQuotaCell<T extends { specialty: string }>(cells: T[], specialty: string | null | undefined): T | undefined {
+  if (!specialty) return undefined;
+  const normalized = specialty.trim().toLowerCase();
+  return cells.find(cell => cell.specialty.trim().toLowerCase() === normalized);
+}
+
+// Points a redemption still has on hold: its holds less what has already been released
+export function outstandingRedemptionHold(transactions: PointsTransaction[], redemptionId: number): number {
+  return transactions
+    .filter(t => t.redemptionId === redemptionId)
+    .reduce((sum, t) => {
+      if (t.type === "redeem-hold") return sum + t.points;
+      if (t.type === "redeem-release") return sum - t.points;
+      return sum;
+    }, 0);
+}
+
 // Interface for storage operations
 export interface IStorage {
   // Session store
@@ -28,6 +95,9 @@ export interface IStorage {
   getDoctor(id: number): Promise<Doctor | undefined>;
   getDoctorByUserId(userId: number): Promise<Doctor | undefined>;
   createDoctor(doctor: InsertDoctor): Promise<Doctor>;
+  // Creates the user, the doctor and their representative and client mappings together,
+  // so a failure part-way leaves nothing behind
+  createMappedDoctor(user: InsertUser, doctor: Omit<InsertDoctor, "userId">, representativeId: number, clientId: number): Promise<Doctor>;
   updateDoctor(id: number, doctor: Partial<Doctor>): Promise<Doctor | undefined>;
   getAllDoctors(): Promise<Doctor[]>;
   getDoctorsByClientId(clientId: number): Promise<Doctor[]>;
@@ -46,6 +116,13 @@ export interface IStorage {
   createRepresentative(representative: InsertRepresentative): Promise<Representative>;
   updateRepresentative(id: number, representative: Partial<Representative>): Promise<Representative | undefined>;
   getRepresentativesByClientId(clientId: number): Promise<Representative[]>;
+  getRepresentativesByDoctorId(doctorId: number): Promise<Representative[]>;
+
+  // Reviewer operations
+  getReviewer(id: number): Promise<Reviewer | undefined>;
+  getReviewerByUserId(userId: number): Promise<Reviewer | undefined>;
+  createReviewer(reviewer: InsertReviewer): Promise<Reviewer>;
+  getReviewersByClientId(clientId: number): Promise<Reviewer[]>;
 
   // Survey operations
   getSurvey(id: number): Promise<Survey | undefined>;
@@ -53,12 +130,72 @@ export interface IStorage {
   updateSurvey(id: number, survey: Partial<Survey>): Promise<Survey | undefined>;
   getSurveysByClientId(clientId: number): Promise<Survey[]>;
   getSurveysForDoctor(doctorId: number): Promise<Survey[]>;
+  // In-review surveys whose startsAt has arrived, and active and paused surveys whose endsAt has passed
+  getSurveysDueForScheduling(now: Date): Promise<Survey[]>;
+  // Moves the survey from `fromStatus` to `toStatus` and records the transition. Returns
+  // undefined, changing nothing, if the survey is no longer in `fromStatus`.
+  transitionSurveyStatus(
+    surveyId: number,
+    fromStatus: string,
+    toStatus: string,
+    actorUserId: number | null,
+    reason?: string | null
+  ): Promise<Survey | undefined>;
+  getSurveyStatusTransitions(surveyId: number): Promise<SurveyStatusTransition[]>;
+  // Counts one completion worth the given points against the survey's quota and budget,
+  // and against the quota cell for the doctor's specialty if there is one, closing the
+  // survey (recording the transition) once its quota or budget is used up. Returns undefined, changing nothing, if
+  // the survey isn't active or the completion would exceed a limit.
+  reserveSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<Survey | undefined>;
+  // Give back a reserved completion, reopening the survey if the quota or budget closed it
+  // and the next completion fits again
+  releaseSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<void>;
+
+  // Survey quota cell operations
+  getSurveyQuotaCells(surveyId: number): Promise<SurveyQuotaCell[]>;
+  // Cells for specialties that already had one keep their fill count; new cells start
+  // from the filledCount given
+  replaceSurveyQuotaCells(surveyId: number, cells: InsertSurveyQuotaCell[]): Promise<SurveyQuotaCell[]>;
+
+  // Survey review operations
+  createSurveyReview(review: InsertSurveyReview): Promise<SurveyReview>;
+  getSurveyReview(id: number): Promise<SurveyReview | undefined>;
+  // Newest round first
+  getSurveyReviewsBySurveyId(surveyId: number): Promise<SurveyReview[]>;
+  updateSurveyReview(id: number, review: Partial<SurveyReview>): Promise<SurveyReview | undefined>;
+  createSurveyReviewDecision(decision: InsertSurveyReviewDecision): Promise<SurveyReviewDecision>;
+  getSurveyReviewDecisions(reviewId: number): Promise<SurveyReviewDecision[]>;
+  createSurveyReviewComment(comment: InsertSurveyReviewComment): Promise<SurveyReviewComment>;
+  getSurveyReviewComment(id: number): Promise<SurveyReviewComment | undefined>;
+  getSurveyReviewComments(reviewId: number): Promise<SurveyReviewComment[]>;
+  updateSurveyReviewComment(id: number, comment: Partial<SurveyReviewComment>): Promise<SurveyReviewComment | undefined>;
+
+  // Survey version operations
+  createSurveyVersion(version: InsertSurveyVersion): Promise<SurveyVersion>;
+  getSurveyVersion(id: number): Promise<SurveyVersion | undefined>;
+  // Newest version first
+  getSurveyVersionsBySurveyId(surveyId: number): Promise<SurveyVersion[]>;
+
+  // Survey template operations
+  createSurveyTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate>;
+  getSurveyTemplate(id: number): Promise<SurveyTemplate | undefined>;
+  getSurveyTemplatesByClientId(clientId: number): Promise<SurveyTemplate[]>;
+  deleteSurveyTemplate(id: number): Promise<boolean>;
+
+  // Question bank operations
+  createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem>;
+  getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined>;
+  getQuestionBankItemsByClientId(clientId: number): Promise<QuestionBankItem[]>;
+  updateQuestionBankItem(id: number, item: Partial<QuestionBankItem>): Promise<QuestionBankItem | undefined>;
+  deleteQuestionBankItem(id: number): Promise<boolean>;
 
   // Survey Question operations
   getSurveyQuestion(id: number): Promise<SurveyQuestion | undefined>;
   createSurveyQuestion(question: InsertSurveyQuestion): Promise<SurveyQuestion>;
   updateSurveyQuestion(id: number, question: Partial<SurveyQuestion>): Promise<SurveyQuestion | undefined>;
   getSurveyQuestionsBySurveyId(surveyId: number): Promise<SurveyQuestion[]>;
+  // Questions inserted from a question bank entry, across all surveys
+  getSurveyQuestionsByBankQuestionId(bankQuestionId: number): Promise<SurveyQuestion[]>;
   deleteSurveyQuestion(id: number): Promise<boolean>;
 
 
@@ -68,6 +205,14 @@ export interface IStorage {
   updateDoctorSurveyResponse(id: number, response: Partial<DoctorSurveyResponse>): Promise<DoctorSurveyResponse | undefined>;
   getDoctorSurveyResponsesByDoctorId(doctorId: number): Promise<DoctorSurveyResponse[]>;
   getDoctorSurveyResponsesBySurveyId(surveyId: number): Promise<DoctorSurveyResponse[]>;
+  // Completes the doctor's response to a survey and saves its answers in one go, replacing any
+  // saved progress; undefined when the doctor has already completed it
+  completeDoctorSurveyResponse(
+    response: InsertDoctorSurveyResponse,
+    answers: Omit<InsertQuestionResponse, "doctorSurveyResponseId">[]
+  ): Promise<DoctorSurveyResponse | undefined>;
+  // Puts a completed response back in progress, e.g. when its points couldn't be credited
+  reopenDoctorSurveyResponse(id: number): Promise<DoctorSurveyResponse | undefined>;
 
   // Question Response operations
   getQuestionResponse(id: number): Promise<QuestionResponse | undefined>;
@@ -80,6 +225,9 @@ export interface IStorage {
   createRedemption(redemption: InsertRedemption): Promise<Redemption>;
   updateRedemption(id: number, redemption: Partial<Redemption>): Promise<Redemption | undefined>;
   getRedemptionsByDoctorId(doctorId: number): Promise<Redemption[]>;
+  getRedemptionsByStatus(status: string): Promise<Redemption[]>;
+  getRedemptionByPayoutId(payoutId: string): Promise<Redemption | undefined>;
+  getRedemptionByIdempotencyKey(idempotencyKey: string): Promise<Redemption | undefined>;
 
   // Mapping operations
   addDoctorToClient(doctorId: number, clientId: number): Promise<boolean>;
@@ -93,11 +241,53 @@ export interface IStorage {
   createSurveyTag(tag: InsertSurveyTag): Promise<SurveyTag>;
   deleteSurveyTag(surveyId: number, tag: string): Promise<boolean>;
 
+  // Doctor Tags operations
+  getDoctorTags(doctorId: number, clientId: number): Promise<DoctorTag[]>;
+  getDoctorTagsByClientId(clientId: number): Promise<DoctorTag[]>;
+  createDoctorTag(tag: InsertDoctorTag): Promise<DoctorTag>;
+  deleteDoctorTag(doctorId: number, clientId: number, tag: string): Promise<boolean>;
+
   // Survey Redemption Options operations
   getSurveyRedemptionOptions(surveyId: number): Promise<SurveyRedemptionOption[]>;
   createSurveyRedemptionOption(option: InsertSurveyRedemptionOption): Promise<SurveyRedemptionOption>;
   deleteSurveyRedemptionOption(surveyId: number, redemptionType: string): Promise<boolean>;
 
+  // Activation OTP operations
+  createActivationOtp(otp: InsertActivationOtp): Promise<ActivationOtp>;
+  getLatestActivationOtpByUserId(userId: number): Promise<ActivationOtp | undefined>;
+  updateActivationOtp(id: number, otp: Partial<ActivationOtp>): Promise<ActivationOtp | undefined>;
+  // Counts one verification attempt against an unused code in a single step. Returns undefined,
+  // counting nothing, once the code is used or has had maxAttempts attempts.
+  recordActivationOtpAttempt(id: number, maxAttempts: number): Promise<ActivationOtp | undefined>;
+  invalidateActivationOtps(userId: number): Promise<void>;
+
+  // Password reset token operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Marks an unused token used in a single step; undefined if it was already used
+  consumePasswordResetToken(id: number): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+
+  // Session operations
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void>;
+
+  // Points ledger operations
+  // Records the transaction and applies the delta to the doctor's counters atomically.
+  // Returns undefined, recording nothing, if the doctor doesn't exist or the delta
+  // would leave a negative available balance.
+  createPointsTransaction(transaction: InsertPointsTransaction, delta: PointsBalanceDelta): Promise<PointsTransaction | undefined>;
+  // Records a release of everything the redemption still has on hold, working out the amount
+  // under the same lock as the write so two callers can't both release it. Returns undefined,
+  // recording nothing, if nothing is on hold or the doctor doesn't exist.
+  releaseRedemptionHold(
+    release: Omit<InsertPointsTransaction, "points"> & { redemptionId: number }
+  ): Promise<PointsTransaction | undefined>;
+  getPointsTransactionsByDoctorId(doctorId: number): Promise<PointsTransaction[]>;
+
+  // Payout webhook event operations
+  getPayoutWebhookEventByEventId(eventId: string): Promise<PayoutWebhookEvent | undefined>;
+  createPayoutWebhookEvent(event: InsertPayoutWebhookEvent): Promise<PayoutWebhookEvent>;
+
 }
 
 export class MemStorage implements IStorage {
@@ -114,7 +304,21 @@ export class MemStorage implements IStorage {
   private doctorClientMappings: Map<string, boolean>;
   private doctorRepMappings: Map<string, boolean>;
   private surveyTags: Map<number, SurveyTag>;
+  private doctorTags: Map<number, DoctorTag>;
   private surveyRedemptionOptions: Map<number, SurveyRedemptionOption>;
+  private activationOtps: Map<number, ActivationOtp>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private pointsTransactions: Map<number, PointsTransaction>;
+  private payoutWebhookEvents: Map<number, PayoutWebhookEvent>;
+  private surveyQuotaCells: Map<number, SurveyQuotaCell>;
+  private surveyStatusTransitions: Map<number, SurveyStatusTransition>;
+  private reviewers: Map<number, Reviewer>;
+  private surveyReviews: Map<number, SurveyReview>;
+  private surveyReviewDecisions: Map<number, SurveyReviewDecision>;
+  private surveyReviewComments: Map<number, SurveyReviewComment>;
+  private surveyVersions: Map<number, SurveyVersion>;
+  private surveyTemplates: Map<number, SurveyTemplate>;
+  private questionBankItems: Map<number, QuestionBankItem>;
 
 
   private userId: number = 1;
@@ -127,7 +331,21 @@ export class MemStorage implements IStorage {
   private questionResponseId: number = 1;
   private redemptionId: number = 1;
   private surveyTagId: number = 1;
+  private doctorTagId: number = 1;
   private surveyRedemptionOptionId: number = 1;
+  private activationOtpId: number = 1;
+  private passwordResetTokenId: number = 1;
+  private pointsTransactionId: number = 1;
+  private payoutWebhookEventId: number = 1;
+  private surveyQuotaCellId: number = 1;
+  private surveyStatusTransitionId: number = 1;
+  private reviewerId: number = 1;
+  private surveyReviewId: number = 1;
+  private surveyReviewDecisionId: number = 1;
+  private surveyReviewCommentId: number = 1;
+  private surveyVersionId: number = 1;
+  private surveyTemplateId: number = 1;
+  private questionBankItemId: number = 1;
 
   constructor() {
     this.sessionStore = new MemoryStore({
@@ -145,7 +363,21 @@ export class MemStorage implements IStorage {
     this.doctorClientMappings = new Map();
     this.doctorRepMappings = new Map();
     this.surveyTags = new Map();
+    this.doctorTags = new Map();
     this.surveyRedemptionOptions = new Map();
+    this.activationOtps = new Map();
+    this.passwordResetTokens = new Map();
+    this.pointsTransactions = new Map();
+    this.payoutWebhookEvents = new Map();
+    this.surveyQuotaCells = new Map();
+    this.surveyStatusTransitions = new Map();
+    this.reviewers = new Map();
+    this.surveyReviews = new Map();
+    this.surveyReviewDecisions = new Map();
+    this.surveyReviewComments = new Map();
+    this.surveyVersions = new Map();
+    this.surveyTemplates = new Map();
+    this.questionBankItems = new Map();
   }
 
   // User operations
@@ -196,7 +428,7 @@ export class MemStorage implements IStorage {
     const user = await this.getUser(id);
     if (!user) return undefined;
 
-    let roleDetails: Doctor | Client | Representative | undefined;
+    let roleDetails: Doctor | Client | Representative | Reviewer | undefined;
 
     if (user.role === 'doctor') {
       roleDetails = await this.getDoctorByUserId(id);
@@ -204,6 +436,8 @@ export class MemStorage implements IStorage {
       roleDetails = await this.getClientByUserId(id);
     } else if (user.role === 'rep') {
       roleDetails = await this.getRepresentativeByUserId(id);
+    } else if (user.role === 'reviewer') {
+      roleDetails = await this.getReviewerByUserId(id);
     }
 
     return {
@@ -238,6 +472,14 @@ export class MemStorage implements IStorage {
     return newDoctor;
   }
 
+  async createMappedDoctor(user: InsertUser, doctor: Omit<InsertDoctor, "userId">, representativeId: number, clientId: number): Promise<Doctor> {
+    const newUser = await this.createUser(user);
+    const newDoctor = await this.createDoctor({ ...doctor, userId: newUser.id });
+    await this.addDoctorToRepresentative(newDoctor.id, representativeId);
+    await this.addDoctorToClient(newDoctor.id, clientId);
+    return newDoctor;
+  }
+
   async updateDoctor(id: number, doctorData: Partial<Doctor>): Promise<Doctor | undefined> {
     const doctor = await this.getDoctor(id);
     if (!doctor) return undefined;
@@ -286,6 +528,8 @@ export class MemStorage implements IStorage {
     const timestamp = new Date();
     const newClient: Client = {
       ...client,
+      pointValuePaise: client.pointValuePaise ?? 100,
+      minRedemptionPaise: client.minRedemptionPaise ?? 0,
       id,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -356,6 +600,42 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getRepresentativesByDoctorId(doctorId: number): Promise<Representative[]> {
+    return Array.from(this.representatives.values()).filter(rep =>
+      this.doctorRepMappings.has(`${doctorId}-${rep.id}`)
+    );
+  }
+
+  // Reviewer operations
+  async getReviewer(id: number): Promise<Reviewer | undefined> {
+    return this.reviewers.get(id);
+  }
+
+  async getReviewerByUserId(userId: number): Promise<Reviewer | undefined> {
+    return Array.from(this.reviewers.values()).find(
+      (reviewer) => reviewer.userId === userId
+    );
+  }
+
+  async createReviewer(reviewer: InsertReviewer): Promise<Reviewer> {
+    const id = this.reviewerId++;
+    const timestamp = new Date();
+    const newReviewer: Reviewer = {
+      ...reviewer,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    this.reviewers.set(id, newReviewer);
+    return newReviewer;
+  }
+
+  async getReviewersByClientId(clientId: number): Promise<Reviewer[]> {
+    return Array.from(this.reviewers.values()).filter(
+      (reviewer) => reviewer.clientId === clientId
+    );
+  }
+
   // Survey operations
   async getSurvey(id: number): Promise<Survey | undefined> {
     return this.surveys.get(id);
@@ -366,6 +646,13 @@ export class MemStorage implements IStorage {
     const timestamp = new Date();
     const newSurvey: Survey = {
       ...survey,
+      pointsSpent: 0,
+      completionCount: 0,
+      targeting: null,
+      approvedReviewId: null,
+      currentVersionId: null,
+      startsAt: survey.startsAt ?? null,
+      endsAt: survey.endsAt ?? null,
       id,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -407,6 +694,278 @@ export class MemStorage implements IStorage {
     return clientSurveys;
   }
 
+  async getSurveysDueForScheduling(now: Date): Promise<Survey[]> {
+    return Array.from(this.surveys.values()).filter(survey =>
+      (survey.status === "in_review" && survey.startsAt !== null && survey.startsAt <= now) ||
+      ((survey.status === "active" || survey.status === "paused") &&
+        survey.endsAt !== null && survey.endsAt <= now)
+    );
+  }
+
+  async transitionSurveyStatus(
+    surveyId: number,
+    fromStatus: string,
+    toStatus: string,
+    actorUserId: number | null,
+    reason?: string | null
+  ): Promise<Survey | undefined> {
+    const survey = this.surveys.get(surveyId);
+    if (!survey || survey.status !== fromStatus) return undefined;
+
+    const updatedSurvey: Survey = { ...survey, status: toStatus, updatedAt: new Date() };
+    this.surveys.set(surveyId, updatedSurvey);
+    this.addSurveyStatusTransition(surveyId, fromStatus, toStatus, actorUserId, reason ?? null);
+    return updatedSurvey;
+  }
+
+  async getSurveyStatusTransitions(surveyId: number): Promise<SurveyStatusTransition[]> {
+    return Array.from(this.surveyStatusTransitions.values())
+      .filter(transition => transition.surveyId === surveyId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  private addSurveyStatusTransition(
+    surveyId: number,
+    fromStatus: string,
+    toStatus: string,
+    actorUserId: number | null,
+    reason: string | null
+  ): void {
+    const id = this.surveyStatusTransitionId++;
+    this.surveyStatusTransitions.set(id, {
+      id,
+      surveyId,
+      fromStatus,
+      toStatus,
+      actorUserId,
+      reason,
+      createdAt: new Date()
+    });
+  }
+
+  async reserveSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<Survey | undefined> {
+    const survey = this.surveys.get(surveyId);
+    if (!survey) return undefined;
+
+    const update = surveyCompletionUpdate(survey, points);
+    if (!update) return undefined;
+
+    const cell = findQuotaCell(await this.getSurveyQuotaCells(surveyId), specialty);
+    if (cell) {
+      if (cell.filledCount >= cell.target) return undefined;
+      this.surveyQuotaCells.set(cell.id, { ...cell, filledCount: cell.filledCount + 1, updatedAt: new Date() });
+    }
+
+    const updatedSurvey: Survey = { ...survey, ...update };
+    this.surveys.set(surveyId, updatedSurvey);
+    if (updatedSurvey.status !== survey.status) {
+      this.addSurveyStatusTransition(surveyId, survey.status, updatedSurvey.status, null, BUDGET_EXHAUSTED_REASON);
+    }
+    return updatedSurvey;
+  }
+
+  async releaseSurveyCompletion(surveyId: number, points: number, specialty?: string | null): Promise<void> {
+    const survey = this.surveys.get(surveyId);
+    if (!survey) return;
+
+    const cell = findQuotaCell(await this.getSurveyQuotaCells(surveyId), specialty);
+    if (cell) {
+      this.surveyQuotaCells.set(cell.id, { ...cell, filledCount: Math.max(cell.filledCount - 1, 0), updatedAt: new Date() });
+    }
+
+    const released: Survey = {
+      ...survey,
+      completionCount: Math.max(survey.completionCount - 1, 0),
+      pointsSpent: Math.max(survey.pointsSpent - points, 0),
+      updatedAt: new Date()
+    };
+    const [latestTransition] = await this.getSurveyStatusTransitions(surveyId);
+    if (reopensAfterRelease(released, points, latestTransition)) {
+      released.status = "active";
+      this.addSurveyStatusTransition(surveyId, "closed", "active", null, BUDGET_FREED_REASON);
+    }
+    this.surveys.set(surveyId, released);
+  }
+
+  // Survey review operations
+  async createSurveyReview(review: InsertSurveyReview): Promise<SurveyReview> {
+    const id = this.surveyReviewId++;
+    const newReview: SurveyReview = {
+      ...review,
+      status: review.status ?? "pending",
+      decidedAt: review.decidedAt ?? null,
+      id,
+      submittedAt: new Date()
+    };
+    this.surveyReviews.set(id, newReview);
+    return newReview;
+  }
+
+  async getSurveyReview(id: number): Promise<SurveyReview | undefined> {
+    return this.surveyReviews.get(id);
+  }
+
+  async getSurveyReviewsBySurveyId(surveyId: number): Promise<SurveyReview[]> {
+    return Array.from(this.surveyReviews.values())
+      .filter(review => review.surveyId === surveyId)
+      .sort((a, b) => b.round - a.round);
+  }
+
+  async updateSurveyReview(id: number, reviewData: Partial<SurveyReview>): Promise<SurveyReview | undefined> {
+    const review = this.surveyReviews.get(id);
+    if (!review) return undefined;
+
+    const updatedReview: SurveyReview = { ...review, ...reviewData };
+    this.surveyReviews.set(id, updatedReview);
+    return updatedReview;
+  }
+
+  async createSurveyReviewDecision(decision: InsertSurveyReviewDecision): Promise<SurveyReviewDecision> {
+    const id = this.surveyReviewDecisionId++;
+    const newDecision: SurveyReviewDecision = {
+      ...decision,
+      comment: decision.comment ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.surveyReviewDecisions.set(id, newDecision);
+    return newDecision;
+  }
+
+  async getSurveyReviewDecisions(reviewId: number): Promise<SurveyReviewDecision[]> {
+    return Array.from(this.surveyReviewDecisions.values()).filter(
+      decision => decision.reviewId === reviewId
+    );
+  }
+
+  async createSurveyReviewComment(comment: InsertSurveyReviewComment): Promise<SurveyReviewComment> {
+    const id = this.surveyReviewCommentId++;
+    const newComment: SurveyReviewComment = {
+      ...comment,
+      questionId: comment.questionId ?? null,
+      resolved: comment.resolved ?? false,
+      id,
+      createdAt: new Date()
+    };
+    this.surveyReviewComments.set(id, newComment);
+    return newComment;
+  }
+
+  async getSurveyReviewComment(id: number): Promise<SurveyReviewComment | undefined> {
+    return this.surveyReviewComments.get(id);
+  }
+
+  async getSurveyReviewComments(reviewId: number): Promise<SurveyReviewComment[]> {
+    return Array.from(this.surveyReviewComments.values()).filter(
+      comment => comment.reviewId === reviewId
+    );
+  }
+
+  async updateSurveyReviewComment(id: number, commentData: Partial<SurveyReviewComment>): Promise<SurveyReviewComment | undefined> {
+    const comment = this.surveyReviewComments.get(id);
+    if (!comment) return undefined;
+
+    const updatedComment: SurveyReviewComment = { ...comment, ...commentData };
+    this.surveyReviewComments.set(id, updatedComment);
+    return updatedComment;
+  }
+
+  // Survey version operations
+  async createSurveyVersion(version: InsertSurveyVersion): Promise<SurveyVersion> {
+    const id = this.surveyVersionId++;
+    const newVersion: SurveyVersion = {
+      ...version,
+      reviewId: version.reviewId ?? null,
+      publishedBy: version.publishedBy ?? null,
+      id,
+      publishedAt: new Date()
+    };
+    this.surveyVersions.set(id, newVersion);
+    return newVersion;
+  }
+
+  async getSurveyVersion(id: number): Promise<SurveyVersion | undefined> {
+    return this.surveyVersions.get(id);
+  }
+
+  async getSurveyVersionsBySurveyId(surveyId: number): Promise<SurveyVersion[]> {
+    return Array.from(this.surveyVersions.values())
+      .filter(version => version.surveyId === surveyId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  // Survey template operations
+  async createSurveyTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate> {
+    const id = this.surveyTemplateId++;
+    const timestamp = new Date();
+    const newTemplate: SurveyTemplate = {
+      ...template,
+      description: template.description ?? null,
+      createdBy: template.createdBy ?? null,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    this.surveyTemplates.set(id, newTemplate);
+    return newTemplate;
+  }
+
+  async getSurveyTemplate(id: number): Promise<SurveyTemplate | undefined> {
+    return this.surveyTemplates.get(id);
+  }
+
+  async getSurveyTemplatesByClientId(clientId: number): Promise<SurveyTemplate[]> {
+    return Array.from(this.surveyTemplates.values())
+      .filter(template => template.clientId === clientId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteSurveyTemplate(id: number): Promise<boolean> {
+    return this.surveyTemplates.delete(id);
+  }
+
+  // Question bank operations
+  async createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem> {
+    const id = this.questionBankItemId++;
+    const timestamp = new Date();
+    const newItem: QuestionBankItem = {
+      ...item,
+      options: item.options ?? null,
+      required: item.required ?? false,
+      validation: item.validation ?? null,
+      tags: item.tags ?? "[]",
+      createdBy: item.createdBy ?? null,
+      id,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    this.questionBankItems.set(id, newItem);
+    return newItem;
+  }
+
+  async getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined> {
+    return this.questionBankItems.get(id);
+  }
+
+  async getQuestionBankItemsByClientId(clientId: number): Promise<QuestionBankItem[]> {
+    return Array.from(this.questionBankItems.values())
+      .filter(item => item.clientId === clientId)
+      .sort((a, b) => a.questionText.localeCompare(b.questionText));
+  }
+
+  async updateQuestionBankItem(id: number, itemData: Partial<QuestionBankItem>): Promise<QuestionBankItem | undefined> {
+    const item = await this.getQuestionBankItem(id);
+    if (!item) return undefined;
+
+    const updatedItem = { ...item, ...itemData, updatedAt: new Date() };
+    this.questionBankItems.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async deleteQuestionBankItem(id: number): Promise<boolean> {
+    return this.questionBankItems.delete(id);
+  }
+
   // Survey Question operations
   async getSurveyQuestion(id: number): Promise<SurveyQuestion | undefined> {
     return this.surveyQuestions.get(id);
@@ -450,6 +1009,11 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.orderIndex - b.orderIndex);
   }
 
+  async getSurveyQuestionsByBankQuestionId(bankQuestionId: number): Promise<SurveyQuestion[]> {
+    return Array.from(this.surveyQuestions.values())
+      .filter(question => question.bankQuestionId === bankQuestionId);
+  }
+
   // Doctor Survey Response operations
   async getDoctorSurveyResponse(id: number): Promise<DoctorSurveyResponse | undefined> {
     return this.doctorSurveyResponses.get(id);
@@ -460,6 +1024,7 @@ export class MemStorage implements IStorage {
     const timestamp = new Date();
     const newResponse: DoctorSurveyResponse = {
       ...response,
+      surveyVersionId: response.surveyVersionId ?? null,
       id,
       startedAt: timestamp,
       completedAt: response.completed ? timestamp : undefined
@@ -500,6 +1065,40 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async completeDoctorSurveyResponse(
+    response: InsertDoctorSurveyResponse,
+    answers: Omit<InsertQuestionResponse, "doctorSurveyResponseId">[]
+  ): Promise<DoctorSurveyResponse | undefined> {
+    const existing = Array.from(this.doctorSurveyResponses.values()).filter(
+      (r) => r.doctorId === response.doctorId && r.surveyId === response.surveyId
+    );
+    if (existing.some(r => r.completed)) return undefined;
+
+    const partial = existing[0];
+    const completed = partial
+      ? await this.updateDoctorSurveyResponse(partial.id, { completed: true, pointsEarned: response.pointsEarned })
+      : await this.createDoctorSurveyResponse({ ...response, completed: true });
+    if (!completed) return undefined;
+
+    // The submitted answers replace whatever progress was saved
+    Array.from(this.questionResponses.values())
+      .filter(answer => answer.doctorSurveyResponseId === completed.id)
+      .forEach(answer => this.questionResponses.delete(answer.id));
+    for (const answer of answers) {
+      await this.createQuestionResponse({ ...answer, doctorSurveyResponseId: completed.id });
+    }
+    return completed;
+  }
+
+  async reopenDoctorSurveyResponse(id: number): Promise<DoctorSurveyResponse | undefined> {
+    const response = await this.getDoctorSurveyResponse(id);
+    if (!response) return undefined;
+
+    const reopened: DoctorSurveyResponse = { ...response, completed: false, pointsEarned: null, completedAt: null };
+    this.doctorSurveyResponses.set(id, reopened);
+    return reopened;
+  }
+
   // Question Response operations
   async getQuestionResponse(id: number): Promise<QuestionResponse | undefined> {
     return this.questionResponses.get(id);
@@ -543,6 +1142,17 @@ export class MemStorage implements IStorage {
     return this.redemptions.get(id);
   }
 
+  // Mirror the database's redemptions_doctor_survey_active_unique index
+  private checkActiveRedemptionUnique(redemption: Redemption) {
+    if (INACTIVE_REDEMPTION_STATUSES.includes(redemption.status)) return;
+    if (Array.from(this.redemptions.values()).some(other =>
+      other.id !== redemption.id && other.doctorId === redemption.doctorId &&
+      other.surveyId === redemption.surveyId && !INACTIVE_REDEMPTION_STATUSES.includes(other.status)
+    )) {
+      throw Object.assign(new Error("duplicate key value violates unique constraint \"redemptions_doctor_survey_active_unique\""), { code: "23505" });
+    }
+  }
+
   async createRedemption(redemption: InsertRedemption): Promise<Redemption> {
     const id = this.redemptionId++;
     const timestamp = new Date();
@@ -552,6 +1162,7 @@ export class MemStorage implements IStorage {
       createdAt: timestamp,
       updatedAt: timestamp
     };
+    this.checkActiveRedemptionUnique(newRedemption);
     this.redemptions.set(id, newRedemption);
     return newRedemption;
   }
@@ -566,6 +1177,7 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
 
+    this.checkActiveRedemptionUnique(updatedRedemption);
     this.redemptions.set(id, updatedRedemption);
     return updatedRedemption;
   }
@@ -576,6 +1188,24 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getRedemptionsByStatus(status: string): Promise<Redemption[]> {
+    return Array.from(this.redemptions.values()).filter(
+      (redemption) => redemption.status === status
+    );
+  }
+
+  async getRedemptionByPayoutId(payoutId: string): Promise<Redemption | undefined> {
+    return Array.from(this.redemptions.values()).find(
+      (redemption) => redemption.payoutId === payoutId
+    );
+  }
+
+  async getRedemptionByIdempotencyKey(idempotencyKey: string): Promise<Redemption | undefined> {
+    return Array.from(this.redemptions.values()).find(
+      (redemption) => redemption.idempotencyKey === idempotencyKey
+    );
+  }
+
   // Mapping operations
   async addDoctorToClient(doctorId: number, clientId: number): Promise<boolean> {
     const doctor = await this.getDoctor(doctorId);
@@ -634,6 +1264,45 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Doctor Tags operations
+  async getDoctorTags(doctorId: number, clientId: number): Promise<DoctorTag[]> {
+    return Array.from(this.doctorTags.values()).filter(
+      tag => tag.doctorId === doctorId && tag.clientId === clientId
+    );
+  }
+
+  async getDoctorTagsByClientId(clientId: number): Promise<DoctorTag[]> {
+    return Array.from(this.doctorTags.values()).filter(
+      tag => tag.clientId === clientId
+    );
+  }
+
+  async createDoctorTag(tag: InsertDoctorTag): Promise<DoctorTag> {
+    const existing = Array.from(this.doctorTags.values()).find(
+      t => t.doctorId === tag.doctorId && t.clientId === tag.clientId && t.tag === tag.tag
+    );
+    if (existing) return existing;
+
+    const id = this.doctorTagId++;
+    const newTag: DoctorTag = {
+      ...tag,
+      id,
+      createdAt: new Date()
+    };
+    this.doctorTags.set(id, newTag);
+    return newTag;
+  }
+
+  async deleteDoctorTag(doctorId: number, clientId: number, tag: string): Promise<boolean> {
+    const tags = Array.from(this.doctorTags.values()).filter(
+      t => t.doctorId === doctorId && t.clientId === clientId && t.tag === tag
+    );
+    for (const tagToDelete of tags) {
+      this.doctorTags.delete(tagToDelete.id);
+    }
+    return true;
+  }
+
   // Survey Redemption Options operations
   async getSurveyRedemptionOptions(surveyId: number): Promise<SurveyRedemptionOption[]> {
     return Array.from(this.surveyRedemptionOptions.values()).filter(
@@ -662,6 +1331,205 @@ export class MemStorage implements IStorage {
     }
     return true;
   }
+
+  // Activation OTP operations
+  async createActivationOtp(otp: InsertActivationOtp): Promise<ActivationOtp> {
+    const id = this.activationOtpId++;
+    const newOtp: ActivationOtp = {
+      attempts: 0,
+      consumedAt: null,
+      ...otp,
+      id,
+      createdAt: new Date()
+    };
+    this.activationOtps.set(id, newOtp);
+    return newOtp;
+  }
+
+  async getLatestActivationOtpByUserId(userId: number): Promise<ActivationOtp | undefined> {
+    return Array.from(this.activationOtps.values())
+      .filter(otp => otp.userId === userId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async updateActivationOtp(id: number, otpData: Partial<ActivationOtp>): Promise<ActivationOtp | undefined> {
+    const otp = this.activationOtps.get(id);
+    if (!otp) return undefined;
+
+    const updatedOtp: ActivationOtp = { ...otp, ...otpData };
+    this.activationOtps.set(id, updatedOtp);
+    return updatedOtp;
+  }
+
+  async recordActivationOtpAttempt(id: number, maxAttempts: number): Promise<ActivationOtp | undefined> {
+    const otp = this.activationOtps.get(id);
+    if (!otp || otp.consumedAt || otp.attempts >= maxAttempts) return undefined;
+
+    const updatedOtp: ActivationOtp = { ...otp, attempts: otp.attempts + 1 };
+    this.activationOtps.set(id, updatedOtp);
+    return updatedOtp;
+  }
+
+  async invalidateActivationOtps(userId: number): Promise<void> {
+    const now = new Date();
+    for (const otp of Array.from(this.activationOtps.values())) {
+      if (otp.userId === userId && !otp.consumedAt) {
+        this.activationOtps.set(otp.id, { ...otp, consumedAt: now });
+      }
+    }
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenId++;
+    const newToken: PasswordResetToken = {
+      usedAt: null,
+      ...token,
+      id,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(
+      token => token.tokenHash === tokenHash
+    );
+  }
+
+  async consumePasswordResetToken(id: number): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return undefined;
+
+    const updatedToken: PasswordResetToken = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    const now = new Date();
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === userId && !token.usedAt) {
+        this.passwordResetTokens.set(token.id, { ...token, usedAt: now });
+      }
+    }
+  }
+
+  // Session operations
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    const store = this.sessionStore;
+    const sessions = await new Promise<Record<string, any>>((resolve, reject) => {
+      store.all!((err: any, all: any) => err ? reject(err) : resolve(all || {}));
+    });
+
+    for (const [sid, sess] of Object.entries(sessions)) {
+      if (sid !== exceptSessionId && sess?.passport?.user === userId) {
+        await new Promise<void>((resolve, reject) => {
+          store.destroy(sid, (err: any) => err ? reject(err) : resolve());
+        });
+      }
+    }
+  }
+
+  // Points ledger operations
+  async createPointsTransaction(transaction: InsertPointsTransaction, delta: PointsBalanceDelta): Promise<PointsTransaction | undefined> {
+    const doctor = this.doctors.get(transaction.doctorId);
+    if (!doctor) return undefined;
+
+    const totalPoints = doctor.totalPoints + delta.totalPoints;
+    const redeemedPoints = doctor.redeemedPoints + delta.redeemedPoints;
+    if (redeemedPoints < 0 || totalPoints - redeemedPoints < 0) return undefined;
+
+    // Mirror the database's points_transactions_earn_unique index
+    if (transaction.type === "earn" && Array.from(this.pointsTransactions.values()).some(
+      t => t.type === "earn" && t.doctorId === transaction.doctorId && t.surveyId === transaction.surveyId
+    )) {
+      throw Object.assign(new Error("duplicate key value violates unique constraint \"points_transactions_earn_unique\""), { code: "23505" });
+    }
+
+    const id = this.pointsTransactionId++;
+    const newTransaction: PointsTransaction = {
+      surveyId: null,
+      redemptionId: null,
+      description: null,
+      createdBy: null,
+      ...transaction,
+      id,
+      createdAt: new Date()
+    };
+    this.pointsTransactions.set(id, newTransaction);
+    this.doctors.set(doctor.id, { ...doctor, totalPoints, redeemedPoints, updatedAt: new Date() });
+    return newTransaction;
+  }
+
+  async releaseRedemptionHold(
+    release: Omit<InsertPointsTransaction, "points"> & { redemptionId: number }
+  ): Promise<PointsTransaction | undefined> {
+    // Read and write without awaiting in between, so concurrent calls can't both release
+    const transactions = Array.from(this.pointsTransactions.values()).filter(t => t.doctorId === release.doctorId);
+    const outstanding = outstandingRedemptionHold(transactions, release.redemptionId);
+    if (outstanding <= 0) return undefined;
+
+    return this.createPointsTransaction(
+      { ...release, points: outstanding },
+      { totalPoints: 0, redeemedPoints: -outstanding }
+    );
+  }
+
+  async getPointsTransactionsByDoctorId(doctorId: number): Promise<PointsTransaction[]> {
+    return Array.from(this.pointsTransactions.values())
+      .filter(transaction => transaction.doctorId === doctorId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Payout webhook event operations
+  async getPayoutWebhookEventByEventId(eventId: string): Promise<PayoutWebhookEvent | undefined> {
+    return Array.from(this.payoutWebhookEvents.values()).find(
+      event => event.eventId === eventId
+    );
+  }
+
+  async createPayoutWebhookEvent(event: InsertPayoutWebhookEvent): Promise<PayoutWebhookEvent> {
+    const id = this.payoutWebhookEventId++;
+    const newEvent: PayoutWebhookEvent = {
+      payoutId: null,
+      ...event,
+      id,
+      createdAt: new Date()
+    };
+    this.payoutWebhookEvents.set(id, newEvent);
+    return newEvent;
+  }
+
+  // Survey quota cell operations
+  async getSurveyQuotaCells(surveyId: number): Promise<SurveyQuotaCell[]> {
+    return Array.from(this.surveyQuotaCells.values())
+      .filter(cell => cell.surveyId === surveyId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async replaceSurveyQuotaCells(surveyId: number, cells: InsertSurveyQuotaCell[]): Promise<SurveyQuotaCell[]> {
+    const existing = await this.getSurveyQuotaCells(surveyId);
+    for (const cell of existing) {
+      this.surveyQuotaCells.delete(cell.id);
+    }
+
+    const timestamp = new Date();
+    return cells.map(cell => {
+      const id = this.surveyQuotaCellId++;
+      const newCell: SurveyQuotaCell = {
+        ...cell,
+        surveyId,
+        filledCount: findQuotaCell(existing, cell.specialty)?.filledCount ?? cell.filledCount ?? 0,
+        id,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      };
+      this.surveyQuotaCells.set(id, newCell);
+      return newCell;
+    });
+  }
 }
 
 // Import the DatabaseStorage
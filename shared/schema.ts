@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, uuid, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,7 +11,7 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   phone: text("phone"),
-  role: text("role").notNull().default("doctor"), // doctor, rep, client, admin
+  role: text("role").notNull().default("doctor"), // doctor, rep, client, reviewer, admin
   status: text("status").notNull().default("pending"), // pending, active, inactive
   profilePicture: text("profile_picture"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -33,6 +34,9 @@ export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   companyName: text("company_name").notNull(),
+  // Rupee value of survey points, in paise per point (100 = ₹1 per point)
+  pointValuePaise: integer("point_value_paise").notNull().default(100),
+  minRedemptionPaise: integer("min_redemption_paise").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -46,6 +50,18 @@ export const representatives = pgTable("representatives", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Client-side medical/legal/regulatory reviewer who signs off survey content
+export const REVIEW_ROLES = ["medical", "legal", "regulatory"] as const;
+
+export const reviewers = pgTable("reviewers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  reviewRole: text("review_role").notNull(), // see REVIEW_ROLES
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Doctor-Client relationship
 export const doctorClientMappings = pgTable("doctor_client_mappings", {
   id: serial("id").primaryKey(),
@@ -63,6 +79,19 @@ export const doctorRepMappings = pgTable("doctor_rep_mappings", {
 });
 
 // Survey entity
+// Survey lifecycle. Statuses can only change along these transitions. Paused and closed
+// surveys go back to draft to be revised and published as a new version.
+export const SURVEY_STATUSES = ["draft", "in_review", "active", "paused", "closed", "archived"] as const;
+
+export const SURVEY_STATUS_TRANSITIONS: Record<SurveyStatus, SurveyStatus[]> = {
+  draft: ["in_review", "archived"],
+  in_review: ["draft", "active"],
+  active: ["paused", "closed"],
+  paused: ["active", "closed", "draft"],
+  closed: ["active", "archived", "draft"],
+  archived: [],
+};
+
 export const surveys = pgTable("surveys", {
   id: serial("id").primaryKey(),
   clientId: integer("client_id").notNull().references(() => clients.id),
@@ -70,23 +99,51 @@ export const surveys = pgTable("surveys", {
   description: text("description"),
   points: integer("points").notNull(),
   estimatedTime: integer("estimated_time").notNull(), // in minutes
-  status: text("status").notNull().default("draft"), // draft, active, closed
+  status: text("status").notNull().default("draft"), // see SURVEY_STATUSES
+  // Overrides of the client's conversion settings; null uses the client's
+  pointValuePaise: integer("point_value_paise"),
+  minRedemptionPaise: integer("min_redemption_paise"),
+  // Spend limits; null means unlimited. The survey closes once either is used up.
+  pointsBudget: integer("points_budget"),
+  maxCompletions: integer("max_completions"),
+  // Maintained by the server as responses are submitted
+  pointsSpent: integer("points_spent").notNull().default(0),
+  completionCount: integer("completion_count").notNull().default(0),
+  // JSON string for SurveyTargeting; null means every mapped doctor can take the survey
+  targeting: text("targeting"),
+  // Optional response window. A scheduled job publishes an approved survey at startsAt and
+  // closes it at endsAt; an active survey only takes responses inside the window.
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  // The latest approved review round, published as the next version
+  approvedReviewId: integer("approved_review_id"),
+  // The published version new responses answer; null until the survey is first published
+  currentVersionId: integer("current_version_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const QUESTION_TYPES = [
+  "text", "scale", "mcq", "checkbox", "ranking", "matrix", "numeric", "date", "nps"
+] as const;
+// Types whose options are a newline-separated list of choices
+export const CHOICE_QUESTION_TYPES: readonly string[] = ["mcq", "checkbox", "ranking"];
+
 // Survey Question entity
 // Update the surveyQuestions table definition to better structure conditional logic
 export const surveyQuestions = pgTable("survey_questions", {
   id: serial("id").primaryKey(),
   surveyId: integer("survey_id").notNull().references(() => surveys.id),
   questionText: text("question_text").notNull(),
-  questionType: text("question_type").notNull(), // text, scale, mcq, ranking, etc.
+  questionType: text("question_type").notNull(), // see QUESTION_TYPES
   options: text("options"), // JSON string for options
   required: boolean("required").notNull().default(false),
   orderIndex: integer("order_index").notNull(),
   // Change this line to better define the conditional logic structure
   conditionalLogic: text("conditional_logic"), // JSON string for: { nextQuestionId, branches: { option: questionId } }
+  validation: text("validation"), // JSON string for QuestionValidation
+  // The bank question this was inserted from, linking answers to it across surveys
+  bankQuestionId: integer("bank_question_id").references(() => questionBankItems.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -100,6 +157,8 @@ export const doctorSurveyResponses = pgTable("doctor_survey_responses", {
   pointsEarned: integer("points_earned"),
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
+  // The published version the doctor answered; null for responses from before versioning
+  surveyVersionId: integer("survey_version_id").references(() => surveyVersions.id),
 });
 
 // Question Response entity
@@ -113,6 +172,9 @@ export const questionResponses = pgTable("question_responses", {
 });
 
 // Redemption entity
+// Redemptions in these statuses paid nothing out, so the doctor may redeem the survey again
+export const INACTIVE_REDEMPTION_STATUSES: readonly string[] = ["rejected", "failed"];
+
 // Update the redemptions table definition
 export const redemptions = pgTable("redemptions", {
   id: serial("id").primaryKey(),
@@ -121,15 +183,34 @@ export const redemptions = pgTable("redemptions", {
   points: integer("points").notNull(),
   redemptionType: text("redemption_type").notNull(),
   redemptionDetails: text("redemption_details").notNull(),
+  // Conversion rate and payout amount snapshotted when the redemption was requested.
+  // Null on older rows, which were paid at ₹1 per point.
+  pointValuePaise: integer("point_value_paise"),
+  amountPaise: integer("amount_paise"),
+  // pending (awaiting admin review), approved, processed, completed, failed, reversed, dead_letter, rejected
   status: text("status").notNull().default("pending"),
   payoutId: text("payout_id"),
   payoutStatus: text("payout_status"),
   payoutResponse: text("payout_response"),
   failureReason: text("failure_reason"),
+  // Sent with every payout attempt so the gateway never pays the same redemption twice
+  idempotencyKey: text("idempotency_key").unique(),
+  attemptCount: integer("attempt_count").notNull().default(0),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  nextAttemptAt: timestamp("next_attempt_at"), // when a retryable failure may be retried
+  requeueCount: integer("requeue_count").notNull().default(0), // times an admin sent a failed payout round again
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
   processedAt: timestamp("processed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // A doctor redeems each survey at most once, not counting INACTIVE_REDEMPTION_STATUSES
+  uniqueIndex("redemptions_doctor_survey_active_unique")
+    .on(table.doctorId, table.surveyId)
+    .where(sql`${table.status} not in ('rejected', 'failed')`),
+]);
 
 export const surveyTags = pgTable("survey_tags", {
   id: serial("id").primaryKey(),
@@ -138,13 +219,194 @@ export const surveyTags = pgTable("survey_tags", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Labels a client puts on its doctors (e.g. "KOL", "north-zone") for survey targeting
+export const doctorTags = pgTable("doctor_tags", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").notNull().references(() => doctors.id),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  tag: text("tag").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("doctor_tags_doctor_client_tag_unique").on(table.doctorId, table.clientId, table.tag),
+]);
+
+export const REDEMPTION_TYPES = ["upi", "amazon", "paytm", "bank"] as const;
+
 export const surveyRedemptionOptions = pgTable("survey_redemption_options", {
   id: serial("id").primaryKey(),
   surveyId: integer("survey_id").notNull().references(() => surveys.id),
-  redemptionType: text("redemption_type").notNull(), // upi, amazon, etc.
+  redemptionType: text("redemption_type").notNull(), // see REDEMPTION_TYPES
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
+
+// One-time passwords used to activate pending doctor accounts
+export const activationOtps = pgTable("activation_otps", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  otpHash: text("otp_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use password reset tokens (only a hash of the token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Points ledger. Every movement of points is one row that debits one account and
+// credits another, e.g. earn: survey:<id> -> doctor:<id>, redeem-hold: doctor:<id> -> redemption:<id>.
+// doctors.totalPoints/redeemedPoints are kept in step with it in the same transaction.
+export const pointsTransactions = pgTable("points_transactions", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").notNull().references(() => doctors.id),
+  type: text("type").notNull(), // earn, redeem-hold, redeem-release, adjustment, expiry
+  points: integer("points").notNull(), // always positive; direction comes from the accounts
+  debitAccount: text("debit_account").notNull(),
+  creditAccount: text("credit_account").notNull(),
+  surveyId: integer("survey_id").references(() => surveys.id),
+  redemptionId: integer("redemption_id").references(() => redemptions.id),
+  description: text("description"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("points_transactions_doctor_idx").on(table.doctorId),
+  // A survey can only ever pay out once per doctor
+  uniqueIndex("points_transactions_earn_unique")
+    .on(table.doctorId, table.surveyId)
+    .where(sql`${table.type} = 'earn'`),
+]);
+
+// Payout webhook deliveries already handled, so retried deliveries are ignored
+export const payoutWebhookEvents = pgTable("payout_webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  event: text("event").notNull(), // payout.processed, payout.failed, payout.reversed
+  payoutId: text("payout_id"),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Per-specialty quota cell, e.g. "50 cardiologists". Doctors whose specialty has no
+// cell are not limited by cells.
+export const surveyQuotaCells = pgTable("survey_quota_cells", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id),
+  specialty: text("specialty").notNull(),
+  target: integer("target").notNull(),
+  filledCount: integer("filled_count").notNull().default(0), // completions counted against the cell
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("survey_quota_cells_survey_specialty_unique").on(table.surveyId, table.specialty),
+]);
+
+// Audit trail of survey status changes
+export const surveyStatusTransitions = pgTable("survey_status_transitions", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  actorUserId: integer("actor_user_id").references(() => users.id), // null for scheduled or automatic changes
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("survey_status_transitions_survey_idx").on(table.surveyId),
+]);
+
+// One round of MLR review. The snapshot is the survey content as submitted, and becomes
+// the survey's next version once the round is approved and published.
+export const surveyReviews = pgTable("survey_reviews", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id),
+  round: integer("round").notNull(),
+  status: text("status").notNull().default("pending"), // pending, approved, changes_requested, withdrawn
+  snapshot: text("snapshot").notNull(), // JSON string for SurveyContentSnapshot
+  submittedBy: integer("submitted_by").notNull().references(() => users.id),
+  submittedAt: timestamp("submitted_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  uniqueIndex("survey_reviews_survey_round_unique").on(table.surveyId, table.round),
+]);
+
+export const surveyReviewDecisions = pgTable("survey_review_decisions", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => surveyReviews.id),
+  reviewerId: integer("reviewer_id").notNull().references(() => reviewers.id),
+  reviewRole: text("review_role").notNull(),
+  decision: text("decision").notNull(), // approved, changes_requested
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("survey_review_decisions_review_reviewer_unique").on(table.reviewId, table.reviewerId),
+]);
+
+// Reviewer comments, either on one question of the snapshot or on the survey as a whole
+export const surveyReviewComments = pgTable("survey_review_comments", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => surveyReviews.id),
+  questionId: integer("question_id").references(() => surveyQuestions.id), // null for general comments
+  authorUserId: integer("author_user_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  resolved: boolean("resolved").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("survey_review_comments_review_idx").on(table.reviewId),
+]);
+
+// Published survey content, frozen when the survey goes live. Later edits only shape the
+// next version, so stored answers always keep the meaning they were given.
+export const surveyVersions = pgTable("survey_versions", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id),
+  version: integer("version").notNull(),
+  snapshot: text("snapshot").notNull(), // JSON string for SurveyContentSnapshot
+  reviewId: integer("review_id").references(() => surveyReviews.id),
+  publishedBy: integer("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("survey_versions_survey_version_unique").on(table.surveyId, table.version),
+]);
+
+// A client's reusable survey content, which new surveys can start from
+export const surveyTemplates = pgTable("survey_templates", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  content: text("content").notNull(), // JSON string for SurveyBlueprint
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("survey_templates_client_idx").on(table.clientId),
+]);
+
+// A client's standardized questions. Inserting one into a survey copies it, so later
+// edits to the bank don't change questions doctors may already have answered.
+export const questionBankItems = pgTable("question_bank_items", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  questionText: text("question_text").notNull(),
+  questionType: text("question_type").notNull(),
+  options: text("options"),
+  required: boolean("required").notNull().default(false),
+  validation: text("validation"), // JSON string for QuestionValidation
+  tags: text("tags").notNull().default("[]"), // JSON string array
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("question_bank_items_client_idx").on(table.clientId),
+]);
+
 // Insert Schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -172,10 +434,26 @@ export const insertRepresentativeSchema = createInsertSchema(representatives).om
   updatedAt: true,
 });
 
+export const insertReviewerSchema = createInsertSchema(reviewers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  reviewRole: z.enum(REVIEW_ROLES),
+});
+
 export const insertSurveySchema = createInsertSchema(surveys).omit({
   id: true,
+  pointsSpent: true,
+  completionCount: true,
+  targeting: true,
+  approvedReviewId: true,
+  currentVersionId: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  startsAt: z.union([z.null(), z.coerce.date()]).optional(),
+  endsAt: z.union([z.null(), z.coerce.date()]).optional(),
 });
 
 export const insertSurveyQuestionSchema = createInsertSchema(surveyQuestions).omit({
@@ -207,11 +485,267 @@ export const insertSurveyTagSchema = createInsertSchema(surveyTags).omit({
   createdAt: true,
 });
 
+export const insertDoctorTagSchema = createInsertSchema(doctorTags).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Which doctors a survey is shown to. A doctor must satisfy every non-empty criterion,
+// and matches a criterion by having any one of its values.
+export const surveyTargetingSchema = z.object({
+  specialties: z.array(z.string().trim().min(1)).default([]),
+  representativeIds: z.array(z.number().int().positive()).default([]),
+  doctorIds: z.array(z.number().int().positive()).default([]),
+  doctorTags: z.array(z.string().trim().min(1)).default([]),
+});
+
 export const insertSurveyRedemptionOptionSchema = createInsertSchema(surveyRedemptionOptions).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertActivationOtpSchema = createInsertSchema(activationOtps).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPointsTransactionSchema = createInsertSchema(pointsTransactions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPayoutWebhookEventSchema = createInsertSchema(payoutWebhookEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSurveyQuotaCellSchema = createInsertSchema(surveyQuotaCells).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSurveyStatusTransitionSchema = createInsertSchema(surveyStatusTransitions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const surveyStatusChangeSchema = z.object({
+  status: z.enum(SURVEY_STATUSES),
+  reason: z.string().trim().optional(),
+});
+
+export const insertSurveyReviewSchema = createInsertSchema(surveyReviews).omit({
+  id: true,
+  submittedAt: true,
+});
+
+export const insertSurveyReviewDecisionSchema = createInsertSchema(surveyReviewDecisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSurveyReviewCommentSchema = createInsertSchema(surveyReviewComments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSurveyVersionSchema = createInsertSchema(surveyVersions).omit({
+  id: true,
+  publishedAt: true,
+});
+
+export const insertSurveyTemplateSchema = createInsertSchema(surveyTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Save an existing survey's content to the template library
+export const saveSurveyTemplateSchema = z.object({
+  surveyId: z.number().int().positive(),
+  name: z.string().trim().min(1, "Template name is required"),
+  description: z.string().trim().optional(),
+});
+
+export const insertQuestionBankItemSchema = createInsertSchema(questionBankItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Answer rules beyond `required`. Text answers can be limited in length; checkbox answers
+// can be limited in how many options are ticked, and may add a free-text "Other". Numeric
+// answers can be bounded and limited to whole numbers, and are shown with their unit.
+export const questionValidationSchema = z.object({
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().positive().optional(),
+  minSelections: z.number().int().min(0).optional(),
+  maxSelections: z.number().int().positive().optional(),
+  allowOther: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  integer: z.boolean().optional(),
+  unit: z.string().trim().min(1).optional(),
+}).superRefine((rules, ctx) => {
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The minimum length can't exceed the maximum", path: ["maxLength"] });
+  }
+  if (rules.minSelections !== undefined && rules.maxSelections !== undefined && rules.minSelections > rules.maxSelections) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The minimum selections can't exceed the maximum", path: ["maxSelections"] });
+  }
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The minimum value can't exceed the maximum", path: ["max"] });
+  }
+});
+
+// Matrix questions keep their grid in `options` as JSON. Each row (a drug, say) is rated on
+// one of the columns, or on several when `multiple` is set.
+export const matrixOptionsSchema = z.object({
+  rows: z.array(z.string().trim().min(1)).min(1, "Add at least one row"),
+  columns: z.array(z.string().trim().min(1)).min(1, "Add at least one column"),
+  multiple: z.boolean().default(false),
+});
+
+// Creating or editing a question bank entry
+export const questionBankItemSchema = z.object({
+  questionText: z.string().trim().min(1, "Question text is required"),
+  questionType: z.enum(QUESTION_TYPES),
+  options: z.string().nullable().default(null),
+  required: z.boolean().default(false),
+  validation: questionValidationSchema.nullable().default(null),
+  tags: z.array(z.string().trim().min(1)).default([]),
+}).refine(
+  item => !CHOICE_QUESTION_TYPES.includes(item.questionType) || !!item.options?.trim(),
+  { message: "Choice questions need options", path: ["options"] }
+).refine(item => {
+  if (item.questionType !== "matrix") return true;
+  try {
+    return matrixOptionsSchema.safeParse(JSON.parse(item.options ?? "")).success;
+  } catch (error) {
+    return false;
+  }
+}, { message: "Matrix questions need rows and columns", path: ["options"] });
+
+// The question bank's rules, applied to a survey question as stored, where `validation` and a
+// matrix question's grid are JSON strings
+export const surveyQuestionRulesSchema = z.object({
+  questionType: z.enum(QUESTION_TYPES),
+  options: z.string().nullable().optional(),
+  validation: z.string().nullable().optional(),
+}).superRefine((question, ctx) => {
+  const parseJson = (value: string): unknown => {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return undefined;
+    }
+  };
+
+  if (question.validation) {
+    const rules = questionValidationSchema.safeParse(parseJson(question.validation));
+    if (!rules.success) {
+      for (const issue of rules.error.issues) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: ["validation", ...issue.path] });
+      }
+    }
+  }
+  if (CHOICE_QUESTION_TYPES.includes(question.questionType) && !question.options?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choice questions need options", path: ["options"] });
+  }
+  if (question.questionType === "matrix" && !matrixOptionsSchema.safeParse(parseJson(question.options ?? "")).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Matrix questions need rows and columns", path: ["options"] });
+  }
+});
+
+export const insertBankQuestionSchema = z.object({
+  bankQuestionId: z.number().int().positive(),
+});
+
+// Duplicating a survey or starting one from a template; the title defaults from the source
+export const surveyCopySchema = z.object({
+  title: z.string().trim().min(1).optional(),
+});
+
+// Portable survey files. Bump SURVEY_EXPORT_VERSION whenever the shape changes, so older
+// files can still be read and newer ones are refused rather than misread.
+export const SURVEY_EXPORT_FORMAT = "medsurvey.survey";
+export const SURVEY_EXPORT_VERSION = 1;
+
+// Question ids only identify questions within the file, so logic can refer to them
+const exportedQuestionLogicSchema = z.object({
+  nextQuestionId: z.number().int().optional(),
+  branches: z.record(z.string(), z.number().int()).optional(),
+  rules: z.array(z.object({
+    match: z.enum(["any", "all"]),
+    options: z.array(z.string()).min(1),
+    nextQuestionId: z.number().int(),
+  })).optional(),
+});
+
+export const surveyExportSchema = z.object({
+  format: z.literal(SURVEY_EXPORT_FORMAT, {
+    errorMap: () => ({ message: "This isn't a survey export file" }),
+  }),
+  formatVersion: z.number().int().positive(),
+  exportedAt: z.string().optional(),
+  survey: z.object({
+    title: z.string().trim().min(1, "Survey title is required"),
+    description: z.string().nullable().default(null),
+    points: z.number().int().positive(),
+    estimatedTime: z.number().int().positive(),
+  }),
+  questions: z.array(z.object({
+    id: z.number().int(),
+    questionText: z.string().trim().min(1, "Question text is required"),
+    questionType: z.enum(QUESTION_TYPES),
+    options: z.array(z.string().trim().min(1)).default([]),
+    // The grid of a matrix question, which has no plain options
+    matrix: matrixOptionsSchema.optional(),
+    required: z.boolean().default(false),
+    orderIndex: z.number().int().min(0),
+    validation: questionValidationSchema.nullable().default(null),
+    conditionalLogic: exportedQuestionLogicSchema.nullable().default(null),
+  })),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  redemptionTypes: z.array(z.string()).default([]),
+});
+
+export const surveyReviewDecisionSchema = z.object({
+  decision: z.enum(["approved", "changes_requested"]),
+  comment: z.string().trim().optional(),
+}).refine(data => data.decision === "approved" || !!data.comment, {
+  message: "Explain what needs to change",
+  path: ["comment"],
+});
+
+// A client adding one of its reviewers: the reviewer's login and the review role they sign off for
+export const addReviewerSchema = insertUserSchema.omit({ role: true, status: true }).extend({
+  reviewRole: z.enum(REVIEW_ROLES),
+});
+
+export const surveyReviewCommentSchema = z.object({
+  questionId: z.number().int().positive().nullable().default(null),
+  body: z.string().trim().min(1, "Comment cannot be empty"),
+});
+
+export const surveyQuotaCellsSchema = z.object({
+  cells: z.array(z.object({
+    specialty: z.string().trim().min(1, "Specialty is required"),
+    target: z.number().int().positive("Target must be a positive number"),
+  })),
+}).refine(data => {
+  const specialties = data.cells.map(cell => cell.specialty.toLowerCase());
+  return new Set(specialties).size === specialties.length;
+}, {
+  message: "Each specialty can only have one quota cell",
+  path: ["cells"],
+});
 
 
 export const loginSchema = z.object({
@@ -219,10 +753,79 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().email("Invalid email address"),
+  phone: z.string().trim().optional(),
+  specialty: z.string().trim().optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "New password must be at least 6 characters"),
+});
+
+// Admin correction to a doctor's points. Adjustments may be negative; expiries always remove points.
+export const pointsAdjustmentSchema = z.object({
+  type: z.enum(["adjustment", "expiry"]).default("adjustment"),
+  points: z.number().int("Points must be a whole number").refine(points => points !== 0, "Points cannot be zero"),
+  description: z.string().trim().min(1, "A reason is required"),
+}).refine(data => data.type !== "expiry" || data.points > 0, {
+  message: "Expired points must be positive",
+  path: ["points"],
+});
+
+export const clientRedemptionSettingsSchema = z.object({
+  pointValuePaise: z.number().int().positive("Point value must be at least 1 paisa"),
+  minRedemptionPaise: z.number().int().min(0, "Minimum redemption cannot be negative"),
+});
+
+// Per-survey overrides; null clears the override
+export const surveyRedemptionSettingsSchema = z.object({
+  pointValuePaise: z.number().int().positive("Point value must be at least 1 paisa").nullable(),
+  minRedemptionPaise: z.number().int().min(0, "Minimum redemption cannot be negative").nullable(),
+}).partial();
+
+// Null removes the limit
+export const surveyLimitsSchema = z.object({
+  pointsBudget: z.number().int().positive("Points budget must be a positive number").nullable(),
+  maxCompletions: z.number().int().positive("Maximum completions must be a positive number").nullable(),
+}).partial();
+
+// Accepts ISO strings from JSON bodies; null clears the date
+export const surveyScheduleSchema = z.object({
+  startsAt: z.union([z.null(), z.coerce.date()]),
+  endsAt: z.union([z.null(), z.coerce.date()]),
+}).partial();
+
+export const redemptionRejectSchema = z.object({
+  reason: z.string().trim().min(1, "A rejection reason is required"),
+});
+
+export const redemptionBulkActionSchema = z.object({
+  action: z.enum(["approve", "reject", "requeue"]),
+  ids: z.array(z.number().int().positive()).min(1, "Select at least one redemption"),
+  reason: z.string().trim().optional(),
+}).refine(data => data.action !== "reject" || !!data.reason, {
+  message: "A rejection reason is required",
+  path: ["reason"],
+});
+
 // Types based on schemas
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
+export type UpdateProfileData = z.infer<typeof updateProfileSchema>;
+export type ChangePasswordData = z.infer<typeof changePasswordSchema>;
 
 export type Doctor = typeof doctors.$inferSelect;
 export type InsertDoctor = z.infer<typeof insertDoctorSchema>;
@@ -233,6 +836,10 @@ export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Representative = typeof representatives.$inferSelect;
 export type InsertRepresentative = z.infer<typeof insertRepresentativeSchema>;
 
+export type ReviewRole = typeof REVIEW_ROLES[number];
+export type Reviewer = typeof reviewers.$inferSelect;
+export type InsertReviewer = z.infer<typeof insertReviewerSchema>;
+
 export type Survey = typeof surveys.$inferSelect & {
   tags?: string[];
   redemptionOptions?: string[];
@@ -253,13 +860,125 @@ export type InsertQuestionResponse = z.infer<typeof insertQuestionResponseSchema
 
 export type Redemption = typeof redemptions.$inferSelect;
 export type InsertRedemption = z.infer<typeof insertRedemptionSchema>;
+export type ClientRedemptionSettings = z.infer<typeof clientRedemptionSettingsSchema>;
+
+// A survey's spend against its limits, with cumulative points spent per day
+export type SurveyBudget = {
+  pointsBudget: number | null;
+  pointsSpent: number;
+  pointsRemaining: number | null;
+  maxCompletions: number | null;
+  completionCount: number;
+  completionsRemaining: number | null;
+  burnDown: { date: string; pointsSpent: number; completions: number }[];
+};
+
+// What a doctor would be paid for redeeming a survey's points
+export type RedemptionQuote = {
+  points: number;
+  pointValuePaise: number;
+  amountPaise: number;
+  minRedemptionPaise: number;
+  meetsMinimum: boolean;
+};
 
 export type SurveyTag = typeof surveyTags.$inferSelect;
 export type InsertSurveyTag = z.infer<typeof insertSurveyTagSchema>;
 
+export type DoctorTag = typeof doctorTags.$inferSelect;
+export type InsertDoctorTag = z.infer<typeof insertDoctorTagSchema>;
+
+export type SurveyTargeting = z.infer<typeof surveyTargetingSchema>;
+
 export type SurveyRedemptionOption = typeof surveyRedemptionOptions.$inferSelect;
 export type InsertSurveyRedemptionOption = z.infer<typeof insertSurveyRedemptionOptionSchema>;
 
+export type ActivationOtp = typeof activationOtps.$inferSelect;
+export type InsertActivationOtp = z.infer<typeof insertActivationOtpSchema>;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+
+export type PointsTransaction = typeof pointsTransactions.$inferSelect;
+export type InsertPointsTransaction = z.infer<typeof insertPointsTransactionSchema>;
+
+export type PayoutWebhookEvent = typeof payoutWebhookEvents.$inferSelect;
+export type InsertPayoutWebhookEvent = z.infer<typeof insertPayoutWebhookEventSchema>;
+
+export type SurveyQuotaCell = typeof surveyQuotaCells.$inferSelect;
+export type InsertSurveyQuotaCell = z.infer<typeof insertSurveyQuotaCellSchema>;
+
+export type SurveyStatus = typeof SURVEY_STATUSES[number];
+export type SurveyStatusTransition = typeof surveyStatusTransitions.$inferSelect;
+export type InsertSurveyStatusTransition = z.infer<typeof insertSurveyStatusTransitionSchema>;
+
+export type SurveyReview = typeof surveyReviews.$inferSelect;
+export type InsertSurveyReview = z.infer<typeof insertSurveyReviewSchema>;
+export type SurveyReviewDecision = typeof surveyReviewDecisions.$inferSelect;
+export type InsertSurveyReviewDecision = z.infer<typeof insertSurveyReviewDecisionSchema>;
+export type SurveyReviewComment = typeof surveyReviewComments.$inferSelect;
+export type InsertSurveyReviewComment = z.infer<typeof insertSurveyReviewCommentSchema>;
+
+export type SurveyVersion = typeof surveyVersions.$inferSelect;
+export type InsertSurveyVersion = z.infer<typeof insertSurveyVersionSchema>;
+
+export type SurveyTemplate = typeof surveyTemplates.$inferSelect;
+export type InsertSurveyTemplate = z.infer<typeof insertSurveyTemplateSchema>;
+
+export type QuestionBankItem = typeof questionBankItems.$inferSelect;
+export type InsertQuestionBankItem = z.infer<typeof insertQuestionBankItemSchema>;
+export type QuestionBankItemInput = z.infer<typeof questionBankItemSchema>;
+export type QuestionValidation = z.infer<typeof questionValidationSchema>;
+export type MatrixOptions = z.infer<typeof matrixOptionsSchema>;
+export type SurveyExport = z.infer<typeof surveyExportSchema>;
+
+// Where a question leads, stored as JSON in surveyQuestions.conditionalLogic. Without logic
+// the next question by order follows; with logic but no match and no nextQuestionId, the
+// survey ends. Multiple choice answers branch on the chosen option; checkbox answers on the
+// first rule whose options are all (or any) ticked.
+export type BranchRule = {
+  match: "any" | "all";
+  options: string[];
+  nextQuestionId: number;
+};
+
+export type ConditionalLogic = {
+  nextQuestionId?: number;
+  branches?: Record<string, number>;
+  rules?: BranchRule[];
+};
+
+// A checkbox answer. `other` holds the free text when "Other" is ticked.
+export type CheckboxAnswer = {
+  selected: string[];
+  other?: string;
+};
+
+// A matrix answer: the columns chosen for each answered row, keyed by row. Single-choice
+// matrices hold one column per row.
+export type MatrixAnswer = Record<string, string[]>;
+
+// Survey content frozen for review, and published to doctors as a version
+export type SurveyContentSnapshot = {
+  title: string;
+  description: string | null;
+  questions: SurveyQuestion[];
+};
+
+// Everything needed to recreate a survey. Question ids only link the conditional logic
+// together, and are replaced with the new questions' ids when the content is copied.
+export type SurveyBlueprint = {
+  title: string;
+  description: string | null;
+  points: number;
+  estimatedTime: number;
+  questions: Pick<SurveyQuestion,
+    'id' | 'questionText' | 'questionType' | 'options' | 'required' | 'orderIndex' | 'conditionalLogic' |
+    'validation' | 'bankQuestionId'>[];
+  tags: string[];
+  redemptionTypes: string[];
+};
+
 export type SurveyWithTags = Survey & {
   tags: string[];
   redemptionOptions: string[];
@@ -268,7 +987,7 @@ export type SurveyWithTags = Survey & {
 // Extended types for API responses
 export type UserWithRole = User & {
   role: string;
-  roleDetails?: Doctor | Client | Representative;
+  roleDetails?: Doctor | Client | Representative | Reviewer;
 };
 
 export type SurveyWithStats = Survey & {
@@ -276,6 +995,18 @@ export type SurveyWithStats = Survey & {
   completionRate: number;
 };
 
+export type PointsLedgerEntry = PointsTransaction & {
+  amount: number; // signed change to the doctor's available balance
+  balance: number; // available balance after this entry
+};
+
+export type PointsLedger = {
+  totalPoints: number;
+  redeemedPoints: number;
+  availablePoints: number;
+  entries: PointsLedgerEntry[];
+};
+
 export type DoctorWithStats = Doctor & {
   user: User;
   surveyCount: number;